@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { getAnalysisJob } from "../../../../lib/analysisJobs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: { jobId: string } };
+
+export async function GET(_req: Request, { params }: Params) {
+  const job = getAnalysisJob(params.jobId);
+  if (!job) return new NextResponse("Analysis job not found", { status: 404 });
+  return NextResponse.json(job);
+}
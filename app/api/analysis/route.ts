@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { getAnalysisJob } from "../../../lib/analysisJobs";
+import type { AnalysisJobStatus } from "../../../lib/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Batch poll: GET /api/analysis?ids=<jobId>,<jobId>. Unknown ids (e.g. after a server restart) are left out.
+export async function GET(req: Request) {
+  const ids = (new URL(req.url).searchParams.get("ids") ?? "").split(",").filter(Boolean).slice(0, 100);
+  const jobs = ids.map((id) => getAnalysisJob(id)).filter((j): j is AnalysisJobStatus => j !== null);
+  return NextResponse.json({ jobs });
+}
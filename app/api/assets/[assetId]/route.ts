@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { deleteAssetMedia } from "../../../../lib/mediaGc";
+import { isProjectId } from "../../../../lib/projectStore";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: { assetId: string } };
+
+const ASSET_ID_RE = /^[a-zA-Z0-9-]{1,64}$/;
+
+// Deletes an asset's stored files (original, normalized copy, waveform...). Body (optional):
+// { projectId, keepUrls } - the project it was removed from, whose saved copy may still list it, and the media
+// URLs of the assets left in that project. Files still used elsewhere are kept and `inUse` is set.
+export async function DELETE(req: Request, { params }: Params) {
+  if (!ASSET_ID_RE.test(params.assetId)) return new NextResponse("Invalid asset id", { status: 400 });
+  const body = (await req.json().catch(() => null)) as { projectId?: unknown; keepUrls?: unknown } | null;
+  const projectId = isProjectId(body?.projectId) ? body.projectId : undefined;
+  const keepUrls = Array.isArray(body?.keepUrls) ? body.keepUrls.filter((u): u is string => typeof u === "string") : [];
+  return NextResponse.json(await deleteAssetMedia(params.assetId, { projectId, keepUrls }));
+}
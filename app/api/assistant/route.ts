@@ -1,13 +1,41 @@
 import { NextResponse } from "next/server";
-import type { AssistantReply, ProjectTimeline } from "../../../lib/types";
+import type { AssistantAssetSummary, AssistantReply, ProjectTimeline } from "../../../lib/types";
+import { getAssistantProvider } from "../../../lib/assistantProvider";
+import { validateAssistantOperations } from "../../../lib/assistantOperations";
 
 export const runtime = "nodejs";
 
 export async function POST(req: Request) {
-  const body = (await req.json()) as { projectId?: string; message?: string; timeline?: ProjectTimeline };
-  const message = (body.message ?? "").toLowerCase();
-  const timeline = body.timeline;
+  const body = (await req.json()) as {
+    projectId?: string;
+    message?: string;
+    timeline?: ProjectTimeline;
+    assets?: AssistantAssetSummary[];
+  };
+  const message = String(body.message ?? "").trim();
+  const timeline = body.timeline ?? null;
+
+  // LLM backend when configured; any failure there falls back to the rules below.
+  const provider = getAssistantProvider();
+  if (provider && message) {
+    try {
+      const reply = await provider.reply({ message, timeline, assets: Array.isArray(body.assets) ? body.assets : [] });
+      return NextResponse.json(withValidatedOperations(reply));
+    } catch {
+      // Fall through to the rules.
+    }
+  }
+
+  return NextResponse.json(withValidatedOperations(rulesReply(message.toLowerCase(), timeline)));
+}
+
+function withValidatedOperations(reply: AssistantReply): AssistantReply {
+  const { operations, rejected } = validateAssistantOperations(reply.operations);
+  return rejected.length ? { ...reply, operations, rejectedOperations: rejected } : { ...reply, operations };
+}
 
+// Keyword matcher: the original MVP behaviour, and the fallback when no model is configured.
+function rulesReply(message: string, timeline: ProjectTimeline | null): AssistantReply {
   const hasClips = Boolean(timeline && Array.isArray(timeline.clips) && timeline.clips.length > 0);
 
   const reply: AssistantReply = {
@@ -45,14 +73,14 @@ export async function POST(req: Request) {
         { op: "set_audio_fades", fadeInSeconds: 0.08, fadeOutSeconds: 0.08 }
       ];
     }
-    return NextResponse.json(reply);
+    return reply;
   }
 
   if (message.includes("make it longer") || message.includes("longer")) {
     const sec = targetSeconds ?? 120;
     reply.reply = `Got it — I’ll keep more context and extend the cut to ~${fmt(sec)}.`;
     reply.operations = [{ op: "auto_edit", targetSeconds: sec, style: style ?? "story", highlightsOnly }];
-    return NextResponse.json(reply);
+    return reply;
   }
 
   if (message.includes("focus on action") || message.includes("action scenes")) {
@@ -65,32 +93,32 @@ export async function POST(req: Request) {
         { op: "set_audio_fades", fadeInSeconds: 0.1, fadeOutSeconds: 0.1 }
       ];
     }
-    return NextResponse.json(reply);
+    return reply;
   }
 
   // Audio linking / track controls.
   if (message.includes("unlink audio") || message.includes("separate audio") || message.includes("separate the audio")) {
     reply.reply = "Done — I unlinked audio so you can edit it as a separate track on the timeline.";
     reply.operations = [{ op: "set_audio_linked", linked: false }];
-    return NextResponse.json(reply);
+    return reply;
   }
 
   if (message.includes("link audio") || message.includes("relink audio") || message.includes("use original audio")) {
     reply.reply = "Done — I linked audio back to the video clips.";
     reply.operations = [{ op: "set_audio_linked", linked: true }];
-    return NextResponse.json(reply);
+    return reply;
   }
 
   if (message.includes("mute audio") || message.includes("mute track") || message.includes("mute the audio")) {
     reply.reply = "Muted — I turned off the main audio track (A1).";
     reply.operations = [{ op: "set_track_audio", muted: true }];
-    return NextResponse.json(reply);
+    return reply;
   }
 
   if (message.includes("unmute audio") || message.includes("unmute track") || message.includes("turn audio back on")) {
     reply.reply = "Unmuted — audio is back on.";
     reply.operations = [{ op: "set_track_audio", muted: false }];
-    return NextResponse.json(reply);
+    return reply;
   }
 
   // Auto-draft / build-from-scratch intent.
@@ -112,7 +140,7 @@ export async function POST(req: Request) {
       // Default fades help the cut feel less abrupt.
       { op: "set_audio_fades", fadeInSeconds: style === "cinematic" ? 0.25 : 0.12, fadeOutSeconds: style === "cinematic" ? 0.25 : 0.12 }
     ];
-    return NextResponse.json(reply);
+    return reply;
   }
 
   // MVP “real” behavior: apply a meaningful timeline change for common requests.
@@ -142,7 +170,7 @@ export async function POST(req: Request) {
     }
   } else if (message.includes("caption") || message.includes("subtitles")) {
     reply.reply =
-      "Perfect — I’ll add clean captions. Do you want burned-in captions, or toggleable subtitles?";
+      "Use the Captions tool to drop a caption at the playhead, then pick “Burn into video” or “SRT + VTT files” under Export.";
   } else if (message.includes("cinematic")) {
     const sec = targetSeconds ?? 90;
     reply.reply = `Got it — switching to a more cinematic cut (longer shots, smoother pacing). I’ll aim for ~${fmt(sec)}.`;
@@ -165,7 +193,7 @@ export async function POST(req: Request) {
     }
   }
 
-  return NextResponse.json(reply);
+  return reply;
 }
 
 function parseStyle(message: string): "fast" | "cinematic" | "story" | null {
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { isProjectDocument } from "../../../../lib/projectStore";
+import { buildProjectBundle } from "../../../../lib/projectBundle";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Body: the project document ({ assets, timeline, chat }). Responds with the .zip bundle.
+// Media that couldn't be found is listed in X-Bundle-Missing (comma separated) and left as a plain URL.
+export async function POST(req: Request) {
+  const body = (await req.json().catch(() => null)) as unknown;
+  if (!isProjectDocument(body)) return new NextResponse("Missing or invalid project document", { status: 400 });
+
+  let bundle: Awaited<ReturnType<typeof buildProjectBundle>>;
+  try {
+    bundle = await buildProjectBundle(body);
+  } catch (err) {
+    return new NextResponse(err instanceof Error ? err.message : "Could not build bundle", { status: 500 });
+  }
+
+  const headers: Record<string, string> = {
+    "content-type": "application/zip",
+    "content-disposition": `attachment; filename="clipgenius-project-${new Date().toISOString().slice(0, 10)}.zip"`,
+    "content-length": String(bundle.zip.length)
+  };
+  if (bundle.missing.length) headers["x-bundle-missing"] = bundle.missing.join(",");
+  return new NextResponse(new Uint8Array(bundle.zip), { headers });
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { importProjectBundle } from "../../../../lib/projectBundle";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// multipart/form-data with a "file" field holding a bundle from /api/bundle/export.
+// Responds with ProjectBundleImport; the Studio opens it as a new project.
+export async function POST(req: Request) {
+  const form = await req.formData();
+  const file = form.get("file");
+  if (!(file instanceof File)) {
+    return new NextResponse("Missing file", { status: 400 });
+  }
+
+  const imported = await importProjectBundle(Buffer.from(await file.arrayBuffer()));
+  if (!imported.ok) return new NextResponse(imported.error, { status: 400 });
+  return NextResponse.json(imported.result);
+}
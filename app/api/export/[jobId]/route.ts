@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { cancelExportJob, getExportJob } from "../../../../lib/exportJobs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: { jobId: string } };
+
+export async function GET(_req: Request, { params }: Params) {
+  const job = getExportJob(params.jobId);
+  if (!job) return new NextResponse("Export job not found", { status: 404 });
+  return NextResponse.json(job);
+}
+
+// Cancels a running render (kills the ffmpeg child). Finished jobs are returned unchanged.
+export async function DELETE(_req: Request, { params }: Params) {
+  const job = cancelExportJob(params.jobId);
+  if (!job) return new NextResponse("Export job not found", { status: 404 });
+  return NextResponse.json(job);
+}
@@ -1,28 +1,71 @@
 import { NextResponse } from "next/server";
 import { spawn } from "node:child_process";
-import { readFile, writeFile, mkdir } from "node:fs/promises";
+import type { ChildProcess } from "node:child_process";
+import { readFile, writeFile, rm } from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
-import type { AudioClip, ProjectTimeline } from "../../../lib/types";
+import type {
+  AssetKind,
+  AudioClip,
+  CaptionExportMode,
+  CaptionStyle,
+  ExportAspect,
+  ExportFormat,
+  ExportJobStatus,
+  ExportLoudnessReport,
+  ExportResolution,
+  LoudnessTarget,
+  ProjectTimeline,
+  ReframeMode
+} from "../../../lib/types";
 import { projectDurationSeconds } from "../../../lib/timeline";
+import { resolveMusicBed } from "../../../lib/music";
+import { clampFocusX, exportAspectRatio, isExportAspect, reframeOutputSize } from "../../../lib/reframe";
+import { isCaptionExportMode, isCaptionStyle, normalizeCaptionCues, toSrt, toVtt } from "../../../lib/captions";
+import {
+  EXPORT_FORMATS,
+  GIF_MAX_FPS,
+  GIF_MAX_WIDTH,
+  LOUDNESS_TRUE_PEAK_DB,
+  exportOptionsError,
+  isExportFormat,
+  isExportResolution,
+  isLoudnessTarget,
+  loudnessTargetLufs
+} from "../../../lib/exportFormats";
+import {
+  attachExportProcess,
+  completeExportJob,
+  createExportJob,
+  failExportJob,
+  isExportJobActive,
+  reportExportProgress
+} from "../../../lib/exportJobs";
+import { maybeCollectGarbage } from "../../../lib/mediaGc";
+import { getStorage, localCopy, releaseWorkPath, storageKeyFromUrl, storageUrl, workPath } from "../../../lib/storage";
+import type { LocalCopy } from "../../../lib/storage";
 
 export const runtime = "nodejs";
 
-type ExportResolution = "720p" | "1080p" | "4K";
-type ExportFormat = "MP4";
-
 export async function POST(req: Request) {
   const body = (await req.json()) as {
-    assets?: Array<{ assetId: string; videoUrl: string }>;
+    assets?: Array<{ assetId: string; videoUrl: string; kind?: AssetKind }>;
     timeline?: ProjectTimeline;
     resolution?: ExportResolution;
     format?: ExportFormat;
+    aspect?: ExportAspect;
+    captions?: { mode?: CaptionExportMode; style?: CaptionStyle };
+    loudness?: { target?: LoudnessTarget; lufs?: number };
   };
 
   const timeline = body.timeline;
   const assets = body.assets ?? [];
-  const resolution = (body.resolution ?? "720p") as ExportResolution;
-  const format = (body.format ?? "MP4") as ExportFormat;
+  const resolution = body.resolution ?? "720p";
+  const format = body.format ?? "MP4";
+  const aspect = body.aspect ?? "source";
+  const captionMode = body.captions?.mode ?? "off";
+  const captionStyle = body.captions?.style ?? "clean";
+  const loudnessTarget = body.loudness?.target ?? "off";
 
   if (!timeline || !Array.isArray(timeline.clips) || timeline.clips.length === 0) {
     return new NextResponse("Missing timeline", { status: 400 });
@@ -30,125 +73,410 @@ export async function POST(req: Request) {
   if (!Array.isArray(assets) || assets.length === 0) {
     return new NextResponse("Missing assets", { status: 400 });
   }
-  if (format !== "MP4") {
+  if (!isExportFormat(format)) {
     return new NextResponse("Unsupported format", { status: 400 });
   }
+  if (!isExportResolution(resolution)) {
+    return new NextResponse("Unsupported resolution", { status: 400 });
+  }
+  if (!isExportAspect(aspect)) {
+    return new NextResponse("Unsupported aspect ratio", { status: 400 });
+  }
+  if (!isCaptionExportMode(captionMode) || !isCaptionStyle(captionStyle)) {
+    return new NextResponse("Unsupported caption options", { status: 400 });
+  }
+  if (!isLoudnessTarget(loudnessTarget)) {
+    return new NextResponse("Unsupported loudness target", { status: 400 });
+  }
 
-  const assetMap = new Map<string, string>();
+  const assetKeys = new Map<string, string>();
+  const stillAssetIds = new Set<string>();
   for (const a of assets) {
     if (!a?.assetId || typeof a.assetId !== "string") continue;
     if (!a?.videoUrl || typeof a.videoUrl !== "string") continue;
-    if (!a.videoUrl.startsWith("/uploads/")) continue;
-    assetMap.set(a.assetId, a.videoUrl);
+    const key = storageKeyFromUrl(a.videoUrl);
+    if (!key?.startsWith("uploads/")) continue;
+    assetKeys.set(a.assetId, key);
+    if (a.kind === "image") stillAssetIds.add(a.assetId);
+  }
+  if (assetKeys.size === 0) return new NextResponse("Invalid assets", { status: 400 });
+
+  // Option checks first, before anything is downloaded, probed or written.
+  const projectDuration = Math.max(0.001, projectDurationSeconds(timeline));
+  const unlinkedAudio = timeline.audioLinked === false && Array.isArray(timeline.audioClips);
+  const trackVol = clamp(Number.isFinite(timeline.trackAudioVolume as any) ? (timeline.trackAudioVolume as any) : 1, 0, 2);
+  const trackMuted = Boolean(timeline.trackAudioMuted) || trackVol <= 0.0001;
+  const musicBed = timeline.music?.assetId ? resolveMusicBed(timeline.music) : null;
+  const musicAudible = Boolean(musicBed && !musicBed.muted && musicBed.volume > 0.0001 && assetKeys.has(musicBed.assetId));
+
+  const cues = normalizeCaptionCues(timeline.captions, projectDuration);
+  const optionsError = exportOptionsError(format, {
+    resolution,
+    audioMuted: trackMuted && !musicAudible,
+    captions: captionMode,
+    hasCaptions: cues.length > 0,
+    loudness: loudnessTarget,
+    customLufs: body.loudness?.lufs
+  });
+  if (optionsError) return new NextResponse(optionsError, { status: 400 });
+
+  // assetId -> a local file ffmpeg can read (remote storage is downloaded to temp files for the render).
+  const usedAssetIds = new Set([...timeline.clips, ...(timeline.audioClips ?? []), ...(timeline.music ? [timeline.music] : [])].map((c) => c?.assetId));
+  const assetMap = new Map<string, string>();
+  const sources: LocalCopy[] = [];
+  const releaseSources = () => Promise.all(sources.map((c) => c.release().catch(() => {})));
+  try {
+    for (const [assetId, key] of assetKeys) {
+      if (!usedAssetIds.has(assetId)) continue;
+      const copy = await localCopy(key);
+      sources.push(copy);
+      assetMap.set(assetId, copy.path);
+    }
+  } catch (err) {
+    await releaseSources();
+    throw err;
   }
-  if (assetMap.size === 0) return new NextResponse("Invalid assets", { status: 400 });
 
   const clips = [...timeline.clips]
     .map((c) => {
-      const url = assetMap.get(c.assetId);
-      if (!url) return null;
-      const src = path.join(process.cwd(), "public", url.replace(/^\/+/, ""));
+      const src = assetMap.get(c.assetId);
+      if (!src) return null;
       return {
         src,
+        still: stillAssetIds.has(c.assetId),
         inpoint: Number(c.sourceIn),
-        outpoint: Number(c.sourceOut)
+        outpoint: Number(c.sourceOut),
+        reframe: (c.reframe === "blur" ? "blur" : "crop") as ReframeMode,
+        focusX: clampFocusX(c.reframeFocusX)
       };
     })
     .filter((c): c is NonNullable<typeof c> => !!c)
     .filter((c) => Number.isFinite(c.inpoint) && Number.isFinite(c.outpoint) && c.outpoint > c.inpoint + 0.05);
 
   if (clips.length === 0) {
+    await releaseSources();
     return new NextResponse("Timeline has no usable clips", { status: 400 });
   }
 
-  // Ensure all source files exist.
-  for (const c of clips) await readFile(c.src);
-
-  // Build concat list file. inpoint/outpoint is supported by ffmpeg concat demuxer.
-  const concat = clips
-    .map((c) => {
-      return (
-        `file '${escapeForConcat(c.src)}'\n` +
-        `inpoint ${c.inpoint.toFixed(3)}\n` +
-        `outpoint ${c.outpoint.toFixed(3)}\n`
-      );
-    })
-    .join("");
-
-  const tmpDir = os.tmpdir();
-  const listPath = path.join(tmpDir, `clipgenius_${timeline.projectId}_${Date.now()}.txt`);
-  await writeFile(listPath, concat, "utf8");
+  // Temp inputs (concat list, SRT) removed once the job ends, whatever the outcome.
+  const tempPaths: string[] = [];
+  let outKey: string | null = null;
+  let outPath = "";
+  let job: ExportJobStatus;
+  try {
+    // Ensure all source files exist.
+    for (const c of clips) await readFile(c.src);
+
+    // The concat demuxer needs every file in the same format. Footage alone is assumed to match (one camera);
+    // with stills in the cut, every clip is first rendered (in the job) to a segment in one profile.
+    const tmpDir = os.tmpdir();
+    const segments: Segment[] = [];
+    let concatClips = clips;
+    if (clips.some((c) => c.still)) {
+      const profile = await segmentProfile(clips.find((c) => !c.still)?.src ?? null, resolution);
+      const hasAudio = new Map<string, boolean>();
+      concatClips = [];
+      for (const [i, c] of clips.entries()) {
+        if (!c.still && !hasAudio.has(c.src)) hasAudio.set(c.src, await probeHasAudio(c.src));
+        const seconds = c.outpoint - c.inpoint;
+        const segPath = path.join(tmpDir, `clipgenius_${timeline.projectId}_${Date.now()}_seg${i}.mp4`);
+        segments.push({ src: c.src, path: segPath, still: c.still, inpoint: c.inpoint, seconds, hasAudio: Boolean(hasAudio.get(c.src)), ...profile });
+        concatClips.push({ ...c, src: segPath, inpoint: 0, outpoint: seconds });
+      }
+    }
 
-  const outName = `export_${timeline.projectId}_${Date.now()}.mp4`;
-  const outDir = path.join(process.cwd(), "public", "exports");
-  await mkdir(outDir, { recursive: true });
-  const outPath = path.join(outDir, outName);
+    // Build concat list file. inpoint/outpoint is supported by ffmpeg concat demuxer.
+    const concat = concatClips
+      .map((c) => {
+        return (
+          `file '${escapeForConcat(c.src)}'\n` +
+          `inpoint ${c.inpoint.toFixed(3)}\n` +
+          `outpoint ${c.outpoint.toFixed(3)}\n`
+        );
+      })
+      .join("");
+
+    const listPath = path.join(tmpDir, `clipgenius_${timeline.projectId}_${Date.now()}.txt`);
+    tempPaths.push(listPath);
+    await writeFile(listPath, concat, "utf8");
+
+    const spec = EXPORT_FORMATS[format];
+    const outBase = `export_${timeline.projectId}_${Date.now()}`;
+    const outName = `${outBase}.${spec.extension}`;
+    outKey = `exports/${outName}`;
+    outPath = await workPath(outKey);
+
+    const scale = resolutionToScale(resolution);
+    const musicSrc = musicBed && musicAudible ? assetMap.get(musicBed.assetId) ?? null : null;
+
+    const wantsVideo = spec.kind !== "audio";
+    // GIF has no audio track; otherwise a muted A1 exports without dialogue (the music bed still plays).
+    const dialogueMuted = trackMuted || spec.kind === "gif";
+    const music = spec.kind === "gif" ? null : musicSrc;
+    const targetLufs = dialogueMuted && !music ? null : loudnessTargetLufs(loudnessTarget, body.loudness?.lufs);
+
+    const linkedNeedsMix =
+      !unlinkedAudio &&
+      !dialogueMuted &&
+      Array.isArray(timeline.clips) &&
+      (Math.abs(trackVol - 1) > 0.001 ||
+        timeline.clips.some((c) => Boolean(c.audioMuted) || Math.abs((c.audioVolume ?? 1) - 1) > 0.001));
+
+    const dialoguePlan =
+      !dialogueMuted && unlinkedAudio
+        ? await buildUnlinkedAudioPlan(timeline.audioClips ?? [], assetMap, projectDuration, trackVol)
+        : !dialogueMuted && (linkedNeedsMix || targetLufs != null || music)
+          ? await buildLinkedAudioPlan(timeline.clips ?? [], assetMap, projectDuration, trackVol)
+          : null;
+    const audioPlan = music && musicBed ? await addMusicBed(dialoguePlan, musicBed, music, projectDuration) : dialoguePlan;
+    // Without a plan, linked clip audio comes straight from the concat input.
+    const exportMuted = !audioPlan && dialogueMuted;
+
+    // Re-encode for reliable cuts across keyframes + consistent output.
+    // Notes:
+    // - In linked mode, we keep the concat demuxer audio.
+    // - In unlinked mode, we map video from concat input + an audio mix built from AudioClips.
+    // - A music bed is mixed (and ducked) on top of either.
+    // - If the user mutes audio (or exports a GIF), we export video-only (no audio track).
+    // - Audio-only formats drop the video stream entirely.
+    // -progress writes key=value lines to stdout; we parse out_time to report job progress.
+    const args: string[] = ["-hide_banner", "-y", "-nostats", "-progress", "pipe:1", "-f", "concat", "-safe", "0", "-i", listPath];
+
+    // Non-source aspect: per-clip crop / blurred letterbox graph on the concat video.
+    // GIF adds its fps/width cap + palette pass on top.
+    let videoPlan: VideoPlan | null = wantsVideo && aspect !== "source" ? buildReframePlan(clips, aspect, resolution) : null;
+    if (wantsVideo && captionMode === "burn") {
+      // Captions go on after scaling/reframing so the style is sized for the output frame.
+      const srtPath = path.join(tmpDir, `clipgenius_${timeline.projectId}_${Date.now()}.srt`);
+      await writeFile(srtPath, toSrt(cues), "utf8");
+      tempPaths.push(srtPath);
+      const scaled = videoPlan ?? chainVideo(null, scale, "v_scaled");
+      videoPlan = chainVideo(scaled, subtitlesFilter(srtPath, captionStyle), "v_captioned");
+    }
+    if (spec.kind === "gif") videoPlan = buildGifPlan(videoPlan);
+
+    // Additional audio inputs + mix graph.
+    if (audioPlan) args.push(...audioPlan.inputArgs);
+    const filterComplex = [videoPlan?.filterComplex, audioPlan?.filterComplex].filter(Boolean).join(";");
+    if (filterComplex) args.push("-filter_complex", filterComplex);
+
+    if (wantsVideo) args.push("-map", videoPlan ? videoPlan.mapVideoLabel : "0:v:0");
+    else args.push("-vn");
+    if (audioPlan) args.push("-map", audioPlan.mapAudioLabel);
+    // Audio-only outputs need the stream; video outputs just take it if the footage has one.
+    else if (!exportMuted) args.push("-map", wantsVideo ? "0:a?" : "0:a:0");
+    else args.push("-an");
+
+    if (wantsVideo && !videoPlan) args.push("-vf", scale);
+    const codecs = formatCodecArgs(format);
+    args.push(...codecs.video);
+    if (!exportMuted) args.push(...codecs.audio);
+    args.push(...codecs.container, outPath);
+
+    // Rendering can take minutes: hand back a job id right away and let the Studio poll /api/export/<jobId>.
+    // Sidecars are tiny; they're written only once the render succeeds so failed jobs leave nothing behind.
+    const sidecars =
+      captionMode === "sidecar"
+        ? [
+            { key: `exports/${outBase}.srt`, content: toSrt(cues) },
+            { key: `exports/${outBase}.vtt`, content: toVtt(cues) }
+          ]
+        : [];
+
+    // Loudness: a first pass measures the final mix (no video, no output), the render then applies the correction.
+    // Normalizing needs the audio as a filter graph, so it always goes through an audio plan (no clip audio, no plan).
+    const loudness =
+      targetLufs != null && audioPlan
+        ? {
+            targetLufs,
+            audioLabel: audioPlan.mapAudioLabel,
+            measureArgs: [
+              ...["-hide_banner", "-nostats", "-f", "concat", "-safe", "0", "-i", listPath],
+              ...audioPlan.inputArgs,
+              ...["-filter_complex", `${audioPlan.filterComplex};${audioPlan.mapAudioLabel}${loudnormFilter(targetLufs)}[a_measure]`],
+              ...["-map", "[a_measure]", "-f", "null", "-"]
+            ]
+          }
+        : null;
 
-  const scale = resolutionToScale(resolution);
-  const projectDuration = Math.max(0.001, projectDurationSeconds(timeline));
+    job = createExportJob(projectDuration);
+    void renderExport(job.jobId, args, { key: outKey, path: outPath }, sidecars, loudness, tempPaths, segments).finally(releaseSources);
+  } catch (err) {
+    // Nothing has started: undo the downloads and temp files made so far.
+    await releaseSources();
+    for (const p of tempPaths) await rm(p, { force: true }).catch(() => {});
+    if (outKey) await releaseWorkPath(outKey).catch(() => {});
+    throw err;
+  }
+  maybeCollectGarbage();
 
-  const unlinkedAudio = timeline.audioLinked === false && Array.isArray(timeline.audioClips);
-  const trackVol = clamp(Number.isFinite(timeline.trackAudioVolume as any) ? (timeline.trackAudioVolume as any) : 1, 0, 2);
-  const exportMuted = Boolean(timeline.trackAudioMuted) || trackVol <= 0.0001;
-
-  const linkedNeedsMix =
-    !unlinkedAudio &&
-    !exportMuted &&
-    Array.isArray(timeline.clips) &&
-    (Math.abs(trackVol - 1) > 0.001 ||
-      timeline.clips.some((c) => Boolean(c.audioMuted) || Math.abs((c.audioVolume ?? 1) - 1) > 0.001));
-
-  const audioPlan =
-    !exportMuted && unlinkedAudio
-      ? await buildUnlinkedAudioPlan(timeline.audioClips ?? [], assetMap, projectDuration, trackVol)
-      : !exportMuted && linkedNeedsMix
-        ? await buildLinkedAudioPlan(timeline.clips ?? [], assetMap, projectDuration, trackVol)
-        : null;
+  return NextResponse.json(job, { status: 202 });
+}
 
-  // Re-encode for reliable cuts across keyframes + consistent output.
-  // Notes:
-  // - In linked mode, we keep the concat demuxer audio (default mapping).
-  // - In unlinked mode, we map video from concat input + an audio mix built from AudioClips.
-  // - If the user mutes audio, we export video-only (no audio track).
-  const args: string[] = ["-hide_banner", "-y", "-f", "concat", "-safe", "0", "-i", listPath];
-
-  // Additional audio inputs + mix graph (unlinked audio only).
-  if (audioPlan) {
-    for (const p of audioPlan.inputPaths) args.push("-i", p);
-    args.push("-filter_complex", audioPlan.filterComplex);
-    args.push("-map", "0:v:0");
-    args.push("-map", audioPlan.mapAudioLabel);
-  } else if (exportMuted) {
-    args.push("-an");
+// ffmpeg renders to `out.path` (the object itself on local storage, a temp file otherwise), which is then stored.
+async function renderExport(
+  jobId: string,
+  args: string[],
+  out: { key: string; path: string },
+  sidecars: Array<{ key: string; content: string }>,
+  loudness: { targetLufs: number; audioLabel: string; measureArgs: string[] } | null,
+  tempPaths: string[],
+  segments: Segment[]
+) {
+  const storage = getStorage();
+  try {
+    for (const seg of segments) {
+      await run("ffmpeg", segmentArgs(seg), { timeoutMs: 10 * 60_000, onSpawn: (child) => attachExportProcess(jobId, child) });
+    }
+    let report: ExportLoudnessReport | null = null;
+    let renderArgs = args;
+    if (loudness) {
+      const measured = parseLoudnormStats(
+        await run("ffmpeg", loudness.measureArgs, { timeoutMs: 10 * 60_000, onSpawn: (child) => attachExportProcess(jobId, child) })
+      );
+      if (!measured) throw new Error("Could not measure the export loudness");
+      report = { targetLufs: loudness.targetLufs, inputLufs: measured.input_i, outputLufs: null, outputTruePeakDb: null };
+      // A silent mix measures -inf: nothing to normalize.
+      if (Number.isFinite(measured.input_i)) {
+        renderArgs = withAudioFilter(args, loudness.audioLabel, loudnormFilter(loudness.targetLufs, measured), "a_loud");
+      }
+    }
+    const stderr = await run("ffmpeg", renderArgs, {
+      timeoutMs: 10 * 60_000,
+      onSpawn: (child) => attachExportProcess(jobId, child),
+      onStdout: createProgressParser((seconds) => reportExportProgress(jobId, seconds))
+    });
+    if (report && renderArgs !== args) {
+      const normalized = parseLoudnormStats(stderr);
+      report = { ...report, outputLufs: normalized?.output_i ?? null, outputTruePeakDb: normalized?.output_tp ?? null };
+    }
+    await storage.putFile(out.key, out.path);
+    for (const s of sidecars) await storage.put(s.key, s.content);
+    completeExportJob(jobId, storageUrl(out.key), sidecars.map((s) => storageUrl(s.key)), report);
+  } catch (e: any) {
+    if (isExportJobActive(jobId)) failExportJob(jobId, lastLines(e?.message ?? "Export failed", 6));
+    // Don't leave partial renders behind (failed or canceled).
+    await rm(out.path, { force: true }).catch(() => {});
   }
+  for (const seg of segments) await rm(seg.path, { force: true }).catch(() => {});
+  for (const p of tempPaths) await rm(p, { force: true }).catch(() => {});
+  await releaseWorkPath(out.key).catch(() => {});
+}
 
-  args.push(
+// One clip of the cut, rendered on its own so the concat demuxer sees uniform files.
+type Segment = {
+  src: string;
+  path: string;
+  still: boolean;
+  inpoint: number;
+  seconds: number;
+  hasAudio: boolean;
+  width: number;
+  height: number;
+};
+
+const SEGMENT_FPS = 30;
+
+// Common segment profile: W x H letterboxed, 30 fps yuv420p H.264, 48 kHz stereo AAC (silence where the clip
+// has no audio, so the concat audio stays in step with the video).
+function segmentArgs(seg: Segment) {
+  const { width: W, height: H } = seg;
+  const len = seg.seconds.toFixed(3);
+  const input = seg.still
+    ? ["-loop", "1", "-framerate", String(SEGMENT_FPS), "-t", len, "-i", seg.src]
+    : ["-ss", seg.inpoint.toFixed(3), "-t", len, "-i", seg.src];
+  return [
+    ...["-hide_banner", "-y", "-nostats", ...input],
+    ...(seg.hasAudio ? [] : ["-f", "lavfi", "-t", len, "-i", "anullsrc=r=48000:cl=stereo"]),
     "-vf",
-    scale,
-    "-c:v",
-    "libx264",
-    "-preset",
-    "veryfast",
-    "-crf",
-    "20",
-    "-pix_fmt",
-    "yuv420p"
+    `scale=${W}:${H}:force_original_aspect_ratio=decrease,pad=${W}:${H}:(ow-iw)/2:(oh-ih)/2:color=black,setsar=1,fps=${SEGMENT_FPS},format=yuv420p`,
+    ...(seg.hasAudio ? ["-af", "aresample=48000,aformat=sample_fmts=fltp:channel_layouts=stereo"] : []),
+    ...["-map", "0:v:0", "-map", seg.hasAudio ? "0:a:0" : "1:a:0"],
+    ...["-c:v", "libx264", "-preset", "veryfast", "-crf", "18", ...(seg.still ? ["-tune", "stillimage"] : [])],
+    ...["-c:a", "aac", "-b:a", "192k", "-ar", "48000", "-ac", "2", "-t", len, seg.path]
+  ];
+}
+
+// Segments take the displayed size of the first video clip; with only stills on the timeline, a 16:9 frame at
+// the export height.
+async function segmentProfile(videoSrc: string | null, resolution: ExportResolution) {
+  const probed = videoSrc ? await probeVideoSize(videoSrc) : null;
+  if (probed) return probed;
+  const height = resolutionToHeight(resolution);
+  return { width: Math.round((height * 16) / 9 / 2) * 2, height };
+}
+
+function createProgressParser(onOutTime: (seconds: number) => void) {
+  let pending = "";
+  return (chunk: string) => {
+    pending += chunk;
+    const lines = pending.split("\n");
+    pending = lines.pop() ?? "";
+    for (const line of lines) {
+      // Both keys are microseconds (out_time_ms is a historical misnomer in ffmpeg).
+      const m = line.trim().match(/^out_time_(?:us|ms)=(\d+)$/);
+      if (m) onOutTime(Number(m[1]) / 1_000_000);
+    }
+  };
+}
+
+type LoudnormStats = {
+  input_i: number;
+  input_tp: number;
+  input_lra: number;
+  input_thresh: number;
+  output_i: number;
+  output_tp: number;
+  target_offset: number;
+};
+
+// Without `measured`: the measuring pass. With it: linear (constant-gain) correction to the target, then a limiter
+// for the true-peak ceiling. loudnorm outputs 192 kHz, so the limiter sees 4x oversampled audio before resampling.
+function loudnormFilter(targetLufs: number, measured?: LoudnormStats) {
+  const base = `loudnorm=I=${targetLufs}:TP=${LOUDNESS_TRUE_PEAK_DB}:LRA=11:print_format=json`;
+  if (!measured) return base;
+  const ceiling = Math.pow(10, LOUDNESS_TRUE_PEAK_DB / 20);
+  return (
+    `${base}:measured_I=${measured.input_i}:measured_TP=${measured.input_tp}:measured_LRA=${measured.input_lra}` +
+    `:measured_thresh=${measured.input_thresh}:offset=${measured.target_offset}:linear=true,` +
+    `alimiter=limit=${ceiling.toFixed(4)}:attack=5:release=50:level=0,` +
+    `aresample=48000`
   );
+}
 
-  if (audioPlan) {
-    args.push("-c:a", "aac", "-b:a", "160k");
-  } else if (!exportMuted) {
-    // Linked mode audio (or no audio stream). FFmpeg will ignore audio settings if there isn't an audio stream.
-    args.push("-c:a", "aac", "-b:a", "160k");
+// loudnorm prints its stats as a JSON block on stderr; values are strings ("-inf" for silence).
+function parseLoudnormStats(stderr: string): LoudnormStats | null {
+  const blocks = stderr.match(/\{[^{}]*"input_i"[^{}]*\}/g);
+  if (!blocks) return null;
+  try {
+    const raw = JSON.parse(blocks[blocks.length - 1]) as Record<string, string>;
+    const num = (k: keyof LoudnormStats) => (raw[k] === "-inf" ? Number.NEGATIVE_INFINITY : Number(raw[k]));
+    return {
+      input_i: num("input_i"),
+      input_tp: num("input_tp"),
+      input_lra: num("input_lra"),
+      input_thresh: num("input_thresh"),
+      output_i: num("output_i"),
+      output_tp: num("output_tp"),
+      target_offset: num("target_offset")
+    };
+  } catch {
+    return null;
   }
+}
 
-  args.push("-movflags", "+faststart", outPath);
-
-  await run("ffmpeg", args, { timeoutMs: 10 * 60_000 });
+// Routes the mapped audio `label` through `filter` into `[outLabel]` (args must already have a -filter_complex).
+function withAudioFilter(args: string[], label: string, filter: string, outLabel: string) {
+  const next = [...args];
+  const graph = next.indexOf("-filter_complex");
+  next[graph + 1] = `${next[graph + 1]};${label}${filter}[${outLabel}]`;
+  const map = next.findIndex((a, i) => a === label && next[i - 1] === "-map");
+  next[map] = `[${outLabel}]`;
+  return next;
+}
 
-  return NextResponse.json({
-    exportUrl: `/exports/${outName}`
-  });
+function lastLines(text: string, n: number) {
+  return text.trim().split("\n").slice(-n).join("\n");
 }
 
 async function buildLinkedAudioPlan(videoClips: ProjectTimeline["clips"], assetMap: Map<string, string>, projectDuration: number, trackVol: number) {
@@ -179,7 +507,15 @@ async function buildLinkedAudioPlan(videoClips: ProjectTimeline["clips"], assetM
   return buildUnlinkedAudioPlan(derived, assetMap, projectDuration, 1);
 }
 
-async function buildUnlinkedAudioPlan(audioClips: AudioClip[], assetMap: Map<string, string>, projectDuration: number, trackVol: number) {
+// Extra ffmpeg inputs (after the concat list, input 0) and the audio graph ending in `mapAudioLabel`.
+type AudioPlan = { inputArgs: string[]; inputCount: number; filterComplex: string; mapAudioLabel: string };
+
+async function buildUnlinkedAudioPlan(
+  audioClips: AudioClip[],
+  assetMap: Map<string, string>,
+  projectDuration: number,
+  trackVol: number
+): Promise<AudioPlan | null> {
   // De-dupe inputs by source file path to avoid opening the same file repeatedly.
   // We'll reference them by input index in filter_complex.
   const inputs: string[] = [];
@@ -198,9 +534,8 @@ async function buildUnlinkedAudioPlan(audioClips: AudioClip[], assetMap: Map<str
   for (const c of audioClips) {
     if (!c?.assetId) continue;
     if (c.muted) continue;
-    const url = assetMap.get(c.assetId);
-    if (!url) continue;
-    const src = path.join(process.cwd(), "public", url.replace(/^\/+/, ""));
+    const src = assetMap.get(c.assetId);
+    if (!src) continue;
 
     const inpoint = Number(c.sourceIn);
     const outpoint = Number(c.sourceOut);
@@ -293,12 +628,64 @@ async function buildUnlinkedAudioPlan(audioClips: AudioClip[], assetMap: Map<str
   const filterComplex = chains.join(";");
 
   return {
-    inputPaths: inputs,
+    inputArgs: inputs.flatMap((p) => ["-i", p]),
+    inputCount: inputs.length,
     filterComplex,
     mapAudioLabel: `[${mixLabel}]`
   };
 }
 
+// Mixes the music bed under the A1 mix (`dialogue`; null when A1 is silent or muted). The bed is looped
+// (-stream_loop) or padded with silence to the project length. With ducking, the dialogue drives a sidechain
+// compressor on the music; its wet/dry mix caps the drop at the chosen depth.
+async function addMusicBed(
+  dialogue: AudioPlan | null,
+  music: ReturnType<typeof resolveMusicBed>,
+  src: string,
+  projectDuration: number
+): Promise<AudioPlan | null> {
+  if (!(await probeHasAudio(src))) return dialogue;
+  const D = projectDuration.toFixed(3);
+  const input = 1 + (dialogue?.inputCount ?? 0);
+  const inputArgs = [...(dialogue?.inputArgs ?? []), ...(music.loop ? ["-stream_loop", "-1"] : []), "-i", src];
+  // Fades sit at the ends of what actually plays: the project, or the song if it runs out first.
+  const playLen = music.loop ? projectDuration : Math.min(projectDuration, (await probeDurationSeconds(src)) ?? projectDuration);
+  const fadeIn = Math.min(music.fadeIn, playLen / 2);
+  const fadeOut = Math.min(music.fadeOut, playLen / 2);
+  const fadeBits: string[] = [];
+  if (fadeIn > 0.001) fadeBits.push(`afade=t=in:st=0:d=${fadeIn.toFixed(3)}`);
+  if (fadeOut > 0.001) fadeBits.push(`afade=t=out:st=${Math.max(0, playLen - fadeOut).toFixed(3)}:d=${fadeOut.toFixed(3)}`);
+
+  const chains = dialogue ? [dialogue.filterComplex] : [];
+  chains.push(
+    `[${input}:a]atrim=0:${D},asetpts=PTS-STARTPTS,` +
+      `aformat=sample_rates=48000:channel_layouts=stereo,` +
+      `volume=${music.volume.toFixed(3)},` +
+      (fadeBits.length ? `${fadeBits.join(",")},` : "") +
+      `apad=whole_dur=${D}[m_bed]`
+  );
+  if (!dialogue) {
+    return { inputArgs, inputCount: input, filterComplex: chains.join(";"), mapAudioLabel: "[m_bed]" };
+  }
+
+  const duck = music.ducking.enabled && music.ducking.depthDb > 0.1;
+  chains.push(
+    `${dialogue.mapAudioLabel}aformat=sample_rates=48000:channel_layouts=stereo,apad=whole_dur=${D}` +
+      (duck ? `,asplit=2[m_dlg][m_key]` : `[m_dlg]`)
+  );
+  let bed = "[m_bed]";
+  if (duck) {
+    const mix = 1 - Math.pow(10, -music.ducking.depthDb / 20);
+    chains.push(
+      `[m_bed][m_key]sidechaincompress=threshold=0.01:ratio=20:makeup=1` +
+        `:attack=${music.ducking.attackMs}:release=${music.ducking.releaseMs}:mix=${mix.toFixed(4)}[m_ducked]`
+    );
+    bed = "[m_ducked]";
+  }
+  chains.push(`[m_dlg]${bed}amix=inputs=2:normalize=0:duration=first:dropout_transition=0[a_bed]`);
+  return { inputArgs, inputCount: input, filterComplex: chains.join(";"), mapAudioLabel: "[a_bed]" };
+}
+
 function probeHasAudio(src: string) {
   // Returns true if ffprobe finds at least one audio stream.
   return new Promise<boolean>((resolve) => {
@@ -323,36 +710,224 @@ function probeHasAudio(src: string) {
   });
 }
 
+// Displayed size (ffmpeg autorotates on decode, so a 90° phone clip is taller than it is coded), made even.
+function probeVideoSize(src: string) {
+  return new Promise<{ width: number; height: number } | null>((resolve) => {
+    const child = spawn("ffprobe", [
+      ...["-v", "error", "-select_streams", "v:0"],
+      ...["-show_entries", "stream=width,height:stream_tags=rotate:stream_side_data=rotation", "-of", "json", src]
+    ]);
+    let out = "";
+    child.stdout?.on("data", (d) => (out += String(d)));
+    child.on("error", () => resolve(null));
+    child.on("close", (code) => {
+      try {
+        const stream = code === 0 ? JSON.parse(out).streams?.[0] : null;
+        const width = Number(stream?.width);
+        const height = Number(stream?.height);
+        if (!(width > 0 && height > 0)) return resolve(null);
+        const rotation = Number(stream.side_data_list?.find((d: any) => d?.rotation != null)?.rotation ?? stream.tags?.rotate ?? 0);
+        const turned = Math.abs(Math.round(rotation / 90)) % 2 === 1;
+        const [w, h] = turned ? [height, width] : [width, height];
+        resolve({ width: w - (w % 2), height: h - (h % 2) });
+      } catch {
+        resolve(null);
+      }
+    });
+  });
+}
+
+function probeDurationSeconds(src: string) {
+  return new Promise<number | null>((resolve) => {
+    const child = spawn("ffprobe", ["-v", "error", "-show_entries", "format=duration", "-of", "csv=p=0", src]);
+    let out = "";
+    child.stdout?.on("data", (d) => (out += String(d)));
+    child.on("error", () => resolve(null));
+    child.on("close", (code) => {
+      const n = Number(out.trim());
+      resolve(code === 0 && Number.isFinite(n) && n > 0 ? n : null);
+    });
+  });
+}
+
+type VideoPlan = { filterComplex: string; mapVideoLabel: string };
+
+// Appends a filter chain to the video graph (starting from the concat input when there is none yet).
+function chainVideo(base: VideoPlan | null, filters: string, outLabel: string): VideoPlan {
+  const input = base ? base.mapVideoLabel : "[0:v]";
+  const chain = `${input}${filters}[${outLabel}]`;
+  return { filterComplex: base ? `${base.filterComplex};${chain}` : chain, mapVideoLabel: `[${outLabel}]` };
+}
+
+function subtitlesFilter(srtPath: string, style: CaptionStyle) {
+  return `subtitles=filename='${escapeForFilter(srtPath)}':force_style='${captionForceStyle(style)}'`;
+}
+
+// libass overrides (ASS style fields) for each caption preset. Sizes are relative to a 288px-tall script.
+function captionForceStyle(style: CaptionStyle) {
+  if (style === "bold") {
+    return "FontName=Arial,FontSize=24,Bold=1,PrimaryColour=&H00FFFFFF,OutlineColour=&H00000000,BorderStyle=1,Outline=3,Shadow=1,MarginV=30";
+  }
+  if (style === "boxed") {
+    return "FontName=Arial,FontSize=18,PrimaryColour=&H00FFFFFF,OutlineColour=&H80000000,BorderStyle=3,Outline=6,Shadow=0,MarginV=30";
+  }
+  return "FontName=Arial,FontSize=18,PrimaryColour=&H00FFFFFF,OutlineColour=&H00000000,BorderStyle=1,Outline=1.5,Shadow=0,MarginV=28";
+}
+
+function buildReframePlan(
+  clips: Array<{ inpoint: number; outpoint: number; reframe: ReframeMode; focusX: number }>,
+  aspect: ExportAspect,
+  resolution: ExportResolution
+): VideoPlan | null {
+  const ratio = exportAspectRatio(aspect);
+  const size = reframeOutputSize(aspect, resolutionToHeight(resolution));
+  if (ratio == null || !size) return null;
+  const { width: W, height: H } = size;
+
+  // The concat demuxer lays clips back to back, so each clip owns [start, end) of output time.
+  const windows: Array<{ start: number; end: number; reframe: ReframeMode; focusX: number }> = [];
+  let acc = 0;
+  for (const c of clips) {
+    const len = Math.max(0, c.outpoint - c.inpoint);
+    windows.push({ start: acc, end: acc + len, reframe: c.reframe, focusX: c.focusX });
+    acc += len;
+  }
+
+  const hasCrop = windows.some((w) => w.reframe === "crop");
+  const hasBlur = windows.some((w) => w.reframe === "blur");
+
+  // crop's x is evaluated per frame, so the focus can change at each clip boundary.
+  let focusExpr = "0.5";
+  for (let i = windows.length - 1; i >= 0; i--) {
+    const w = windows[i];
+    const f = w.reframe === "crop" ? w.focusX.toFixed(4) : "0.5";
+    focusExpr = i === windows.length - 1 ? f : `if(lt(t,${w.end.toFixed(3)}),${f},${focusExpr})`;
+  }
+  const r = ratio.toFixed(6);
+  const cropChain =
+    `crop=w='min(iw,ih*${r})':h='min(ih,iw/${r})':x='(iw-ow)*${focusExpr}':y='(ih-oh)/2',` +
+    `scale=${W}:${H},setsar=1`;
+
+  const blurChain = (input: string, output: string) =>
+    `[${input}]split=2[rf_bg][rf_fg];` +
+    `[rf_bg]scale=${W}:${H}:force_original_aspect_ratio=increase,crop=${W}:${H},boxblur=20:2[rf_bgb];` +
+    `[rf_fg]scale=${W}:${H}:force_original_aspect_ratio=decrease[rf_fgs];` +
+    `[rf_bgb][rf_fgs]overlay=x=(W-w)/2:y=(H-h)/2,setsar=1[${output}]`;
+
+  const outLabel = "v_out";
+  let filterComplex: string;
+  if (hasCrop && hasBlur) {
+    // Render both treatments and show the letterboxed one only during "blur" clips.
+    const enable = windows
+      .filter((w) => w.reframe === "blur")
+      .map((w) => `gte(t,${w.start.toFixed(3)})*lt(t,${w.end.toFixed(3)})`)
+      .join("+");
+    filterComplex =
+      `[0:v]split=2[rf_c][rf_b];` +
+      `[rf_c]${cropChain}[rf_cropped];` +
+      `${blurChain("rf_b", "rf_blurred")};` +
+      `[rf_cropped][rf_blurred]overlay=0:0:enable='${enable}'[${outLabel}]`;
+  } else if (hasBlur) {
+    filterComplex = blurChain("0:v", outLabel);
+  } else {
+    filterComplex = `[0:v]${cropChain}[${outLabel}]`;
+  }
+
+  return { filterComplex, mapVideoLabel: `[${outLabel}]` };
+}
+
+function buildGifPlan(base: VideoPlan | null): VideoPlan {
+  // Single pass: generate a palette from the clip itself, then map frames onto it.
+  const input = base ? base.mapVideoLabel : "[0:v]";
+  const chain =
+    `${input}fps=${GIF_MAX_FPS},scale='min(${GIF_MAX_WIDTH},iw)':-2:flags=lanczos,split=2[gif_a][gif_b];` +
+    `[gif_a]palettegen=stats_mode=diff[gif_pal];` +
+    `[gif_b][gif_pal]paletteuse=dither=bayer:bayer_scale=5[gif_out]`;
+  return {
+    filterComplex: base ? `${base.filterComplex};${chain}` : chain,
+    mapVideoLabel: "[gif_out]"
+  };
+}
+
+function formatCodecArgs(format: ExportFormat): { video: string[]; audio: string[]; container: string[] } {
+  if (format === "WebM") {
+    return {
+      video: ["-c:v", "libvpx-vp9", "-crf", "32", "-b:v", "0", "-deadline", "good", "-cpu-used", "4", "-row-mt", "1", "-pix_fmt", "yuv420p"],
+      audio: ["-c:a", "libopus", "-b:a", "128k"],
+      container: []
+    };
+  }
+  if (format === "MOV") {
+    // ProRes 422 (profile 2) is what editing apps expect for an intermediate.
+    return {
+      video: ["-c:v", "prores_ks", "-profile:v", "2", "-vendor", "apl0", "-pix_fmt", "yuv422p10le"],
+      audio: ["-c:a", "pcm_s16le"],
+      container: []
+    };
+  }
+  if (format === "GIF") {
+    return { video: [], audio: [], container: ["-loop", "0"] };
+  }
+  if (format === "M4A") {
+    return { video: [], audio: ["-c:a", "aac", "-b:a", "192k"], container: ["-movflags", "+faststart"] };
+  }
+  if (format === "WAV") {
+    return { video: [], audio: ["-c:a", "pcm_s16le"], container: [] };
+  }
+  return {
+    video: ["-c:v", "libx264", "-preset", "veryfast", "-crf", "20", "-pix_fmt", "yuv420p"],
+    audio: ["-c:a", "aac", "-b:a", "160k"],
+    container: ["-movflags", "+faststart"]
+  };
+}
+
+function resolutionToHeight(res: ExportResolution) {
+  if (res === "4K") return 2160;
+  if (res === "1080p") return 1080;
+  return 720;
+}
+
 function resolutionToScale(res: ExportResolution) {
-  if (res === "4K") return "scale=-2:2160";
-  if (res === "1080p") return "scale=-2:1080";
-  return "scale=-2:720";
+  return `scale=-2:${resolutionToHeight(res)}`;
 }
 
-function run(cmd: string, args: string[], opts?: { timeoutMs?: number }) {
+function run(
+  cmd: string,
+  args: string[],
+  opts?: { timeoutMs?: number; onSpawn?: (child: ChildProcess) => void; onStdout?: (chunk: string) => void }
+) {
   const timeoutMs = opts?.timeoutMs ?? 60_000;
-  return new Promise<void>((resolve, reject) => {
-    const child = spawn(cmd, args, { stdio: ["ignore", "ignore", "pipe"] });
+  // Resolves with stderr (loudnorm reports there).
+  return new Promise<string>((resolve, reject) => {
+    const child = spawn(cmd, args, { stdio: ["ignore", opts?.onStdout ? "pipe" : "ignore", "pipe"] });
     const errChunks: Buffer[] = [];
+    opts?.onSpawn?.(child);
 
     const timer = setTimeout(() => {
       child.kill("SIGKILL");
       reject(new Error(`Command timed out: ${cmd}`));
     }, timeoutMs);
 
-    child.stderr.on("data", (d) => errChunks.push(Buffer.from(d)));
+    child.stderr?.on("data", (d) => errChunks.push(Buffer.from(d)));
+    if (opts?.onStdout) child.stdout?.on("data", (d) => opts.onStdout?.(String(d)));
     child.on("error", (err) => {
       clearTimeout(timer);
       reject(err);
     });
     child.on("close", (code) => {
       clearTimeout(timer);
-      if (code === 0) resolve();
-      else reject(new Error(Buffer.concat(errChunks).toString("utf8") || `Command failed: ${cmd} (${code})`));
+      const stderr = Buffer.concat(errChunks).toString("utf8");
+      if (code === 0) resolve(stderr);
+      else reject(new Error(stderr || `Command failed: ${cmd} (${code})`));
     });
   });
 }
 
+function escapeForFilter(p: string) {
+  // filtergraph option value inside single quotes: escape backslashes, quotes and colons.
+  return p.replaceAll("\\", "\\\\").replaceAll("'", "\\'").replaceAll(":", "\\:");
+}
+
 function escapeForConcat(p: string) {
   // concat demuxer: single-quoted string; escape single quotes.
   return p.replaceAll("'", "'\\''");
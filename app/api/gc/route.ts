@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { collectGarbage } from "../../../lib/mediaGc";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Runs media cleanup now (it also runs on its own every few hours; see lib/mediaGc.ts).
+// ?dryRun=1 reports what would be removed without deleting anything.
+export async function POST(req: Request) {
+  const dryRun = ["1", "true"].includes(new URL(req.url).searchParams.get("dryRun") ?? "");
+  return NextResponse.json(await collectGarbage({ dryRun }));
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { getStorage, isStorageKey } from "../../../../lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: { key: string[] } };
+
+// Stable media URL for remote storage (see storageUrl in lib/storage.ts): redirects to a fresh signed URL,
+// so saved projects never hold an expired link. On local storage it just points at the static file.
+export async function GET(_req: Request, { params }: Params) {
+  const key = params.key.join("/");
+  if (!isStorageKey(key)) return new NextResponse("Not found", { status: 404 });
+  const storage = getStorage();
+  if (!(await storage.exists(key))) return new NextResponse("Not found", { status: 404 });
+  const url = await storage.signedUrl(key);
+  return new NextResponse(null, {
+    status: 302,
+    headers: { location: url, "cache-control": "private, max-age=300" }
+  });
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { deleteProject, getProject, isProjectDocument, updateProject } from "../../../../lib/projectStore";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: { projectId: string } };
+
+export async function GET(_req: Request, { params }: Params) {
+  const project = await getProject(params.projectId);
+  if (!project) return new NextResponse("Project not found", { status: 404 });
+  return NextResponse.json(project);
+}
+
+// Body: { revision, name?, document? }. `revision` is the one the client loaded or last saved;
+// if someone else saved since, responds 409 with the current project so the client can pick a side.
+export async function PUT(req: Request, { params }: Params) {
+  const body = (await req.json().catch(() => null)) as { revision?: unknown; name?: unknown; document?: unknown } | null;
+  if (!body || !Number.isInteger(body.revision)) {
+    return new NextResponse("Missing revision", { status: 400 });
+  }
+  if (body.document !== undefined && !isProjectDocument(body.document)) {
+    return new NextResponse("Invalid project document", { status: 400 });
+  }
+  const name = typeof body.name === "string" && body.name.trim() ? body.name.trim().slice(0, 120) : undefined;
+
+  const result = await updateProject(params.projectId, {
+    baseRevision: body.revision as number,
+    name,
+    document: body.document
+  });
+  if (!result.ok && result.reason === "not_found") return new NextResponse("Project not found", { status: 404 });
+  if (!result.ok && result.reason === "conflict") {
+    return NextResponse.json({ error: "Project was saved elsewhere", project: result.project }, { status: 409 });
+  }
+  return NextResponse.json(result.ok ? result.project : null);
+}
+
+export async function DELETE(_req: Request, { params }: Params) {
+  const deleted = await deleteProject(params.projectId);
+  if (!deleted) return new NextResponse("Project not found", { status: 404 });
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { deleteSnapshot, getSnapshot } from "../../../../../../lib/projectStore";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: { projectId: string; snapshotId: string } };
+
+export async function GET(_req: Request, { params }: Params) {
+  const snapshot = await getSnapshot(params.projectId, params.snapshotId);
+  if (!snapshot) return new NextResponse("Snapshot not found", { status: 404 });
+  return NextResponse.json(snapshot);
+}
+
+export async function DELETE(_req: Request, { params }: Params) {
+  const deleted = await deleteSnapshot(params.projectId, params.snapshotId);
+  if (!deleted) return new NextResponse("Snapshot not found", { status: 404 });
+  return new NextResponse(null, { status: 204 });
+}
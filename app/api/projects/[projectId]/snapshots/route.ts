@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { createSnapshot, getProject, isProjectDocument, listSnapshots, toSnapshotSummary } from "../../../../../lib/projectStore";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: { projectId: string } };
+
+export async function GET(_req: Request, { params }: Params) {
+  if (!(await getProject(params.projectId))) return new NextResponse("Project not found", { status: 404 });
+  return NextResponse.json({ snapshots: await listSnapshots(params.projectId) });
+}
+
+// Body: { name, document? }. Without a document the last saved revision is snapshotted.
+export async function POST(req: Request, { params }: Params) {
+  const body = (await req.json().catch(() => null)) as { name?: unknown; document?: unknown } | null;
+  const name = typeof body?.name === "string" ? body.name.trim().slice(0, 120) : "";
+  if (!name) return new NextResponse("Missing snapshot name", { status: 400 });
+  if (body?.document !== undefined && !isProjectDocument(body.document)) {
+    return new NextResponse("Invalid project document", { status: 400 });
+  }
+
+  const snapshot = await createSnapshot(params.projectId, { name, document: body?.document });
+  if (!snapshot) return new NextResponse("Project not found", { status: 404 });
+  return NextResponse.json(toSnapshotSummary(snapshot), { status: 201 });
+}
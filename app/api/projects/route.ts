@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { createProject, isProjectDocument, listProjects } from "../../../lib/projectStore";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json({ projects: await listProjects() });
+}
+
+export async function POST(req: Request) {
+  const body = (await req.json().catch(() => null)) as { name?: string; document?: unknown } | null;
+  if (!body || !isProjectDocument(body.document)) {
+    return new NextResponse("Missing or invalid project document", { status: 400 });
+  }
+  const name = cleanProjectName(body.name) ?? "Untitled project";
+  const project = await createProject({ name, document: body.document });
+  return NextResponse.json(project, { status: 201 });
+}
+
+function cleanProjectName(name: unknown) {
+  if (typeof name !== "string") return null;
+  const trimmed = name.trim().slice(0, 120);
+  return trimmed || null;
+}
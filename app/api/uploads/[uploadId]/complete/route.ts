@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { extFromMime, extFromName } from "../../../../../lib/assetKinds";
+import { processUpload, uploadKey } from "../../../../../lib/ingest";
+import { maybeCollectGarbage } from "../../../../../lib/mediaGc";
+import { workPath } from "../../../../../lib/storage";
+import { finishUploadSession, getUploadSession } from "../../../../../lib/uploadSessions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: { uploadId: string } };
+
+// Moves the finished upload into storage (lib/storage.ts) and runs the same pipeline as POST /api/upload.
+export async function POST(_req: Request, { params }: Params) {
+  const session = await getUploadSession(params.uploadId);
+  if (!session) return new NextResponse("Upload not found", { status: 404 });
+
+  const assetId = crypto.randomUUID();
+  const ext = extFromMime(session.type) ?? extFromName(session.name) ?? "mp4";
+  const filename = `${assetId}.${ext}`;
+  const dst = await workPath(uploadKey(filename));
+
+  const finished = await finishUploadSession(params.uploadId, dst);
+  if (!finished.ok && finished.reason === "not_found") return new NextResponse("Upload not found", { status: 404 });
+  if (!finished.ok && finished.reason === "incomplete") {
+    return NextResponse.json({ error: "Upload is incomplete", upload: finished.status }, { status: 409 });
+  }
+  if (!finished.ok) return NextResponse.json({ error: "File checksum mismatch", upload: finished.status }, { status: 422 });
+
+  const result = await processUpload(assetId, dst, filename, finished.sha256);
+  maybeCollectGarbage();
+  return NextResponse.json(result);
+}
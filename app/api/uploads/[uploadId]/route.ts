@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { appendUploadChunk, deleteUploadSession, getUploadSession, isSha256 } from "../../../../lib/uploadSessions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = { params: { uploadId: string } };
+
+// Resume point: `received` is where the next chunk must start.
+export async function GET(_req: Request, { params }: Params) {
+  const session = await getUploadSession(params.uploadId);
+  if (!session) return new NextResponse("Upload not found", { status: 404 });
+  return NextResponse.json(session);
+}
+
+// Raw chunk bytes as the body, `?offset=` where they start. Optional `x-chunk-sha256` header (hex) is verified.
+// A wrong offset gets 409 with the session, so the client can resume from `received`.
+export async function PUT(req: Request, { params }: Params) {
+  const offset = Number(new URL(req.url).searchParams.get("offset"));
+  if (!Number.isInteger(offset) || offset < 0) return new NextResponse("Missing or invalid offset", { status: 400 });
+  const chunkSha256 = req.headers.get("x-chunk-sha256");
+  if (chunkSha256 && !isSha256(chunkSha256)) return new NextResponse("Invalid x-chunk-sha256", { status: 400 });
+  if (!req.body) return new NextResponse("Missing chunk", { status: 400 });
+
+  const result = await appendUploadChunk(params.uploadId, offset, req.body, chunkSha256);
+  if (result.ok) return NextResponse.json(result.status);
+  if (result.reason === "not_found") return new NextResponse("Upload not found", { status: 404 });
+  if (result.reason === "offset_mismatch") {
+    return NextResponse.json({ error: `Expected offset ${result.status.received}`, upload: result.status }, { status: 409 });
+  }
+  if (result.reason === "too_large") {
+    return NextResponse.json({ error: "Chunk is larger than allowed or past the end of the file", upload: result.status }, { status: 413 });
+  }
+  return NextResponse.json({ error: "Chunk checksum mismatch", upload: result.status }, { status: 422 });
+}
+
+export async function DELETE(_req: Request, { params }: Params) {
+  const deleted = await deleteUploadSession(params.uploadId);
+  if (!deleted) return new NextResponse("Upload not found", { status: 404 });
+  return new NextResponse(null, { status: 204 });
+}
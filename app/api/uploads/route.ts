@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { isImportableFile } from "../../../lib/assetKinds";
+import { createUploadSession, isSha256 } from "../../../lib/uploadSessions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Starts a chunked upload. Body: { name, type, size, sha256? }.
+// Then PUT /api/uploads/<id>?offset=N with raw bytes until `received == size`, and POST /api/uploads/<id>/complete.
+export async function POST(req: Request) {
+  const body = (await req.json().catch(() => null)) as { name?: unknown; type?: unknown; size?: unknown; sha256?: unknown } | null;
+  if (!body || !Number.isInteger(body.size) || (body.size as number) <= 0) {
+    return new NextResponse("Missing or invalid size", { status: 400 });
+  }
+  if (body.sha256 != null && !isSha256(body.sha256)) {
+    return new NextResponse("sha256 must be 64 lowercase hex characters", { status: 400 });
+  }
+  const type = typeof body.type === "string" ? body.type : "";
+  const name = typeof body.name === "string" && body.name.trim() ? body.name.trim().slice(0, 200) : "Untitled";
+  if (type && !isImportableFile(type, name)) {
+    return new NextResponse("Only video, audio (MP3, WAV, M4A) and image (PNG, JPG) files can be uploaded", { status: 415 });
+  }
+
+  const session = await createUploadSession({
+    name,
+    type,
+    size: body.size as number,
+    sha256: (body.sha256 as string | undefined) ?? null
+  });
+  return NextResponse.json(session, { status: 201 });
+}
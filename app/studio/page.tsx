@@ -2,24 +2,120 @@
 
 import { useEffect, useMemo, useRef, useState } from "react";
 import type { MutableRefObject } from "react";
-import type { AssistantReply, AnalysisClip, AnalysisTimeline, AudioClip, ProjectClip, ProjectTimeline } from "../../lib/types";
-import { projectClipOffsets, projectDurationSeconds, splitProjectClipAt, trimProjectTimelineToTargetSeconds } from "../../lib/timeline";
+import type {
+  AssistantAssetSummary,
+  AssistantReply,
+  AnalysisClip,
+  AnalysisJobStatus,
+  AnalysisStage,
+  AnalysisTimeline,
+  AssetDeleteResult,
+  AssetKind,
+  AudioClip,
+  CaptionCue,
+  CaptionExportMode,
+  CaptionStyle,
+  ChatMessage,
+  ExportAspect,
+  ExportFormat,
+  ExportJobStatus,
+  ExportLoudnessReport,
+  ExportResolution,
+  LoudnessTarget,
+  MusicBed,
+  MusicDucking,
+  ProjectAsset,
+  ProjectBundleImport,
+  ProjectClip,
+  ProjectDocument,
+  ProjectRecord,
+  ProjectSnapshot,
+  ProjectSnapshotSummary,
+  ProjectSummary,
+  ProjectTimeline,
+  ReframeMode,
+  ThumbnailSprite,
+  UploadSessionStatus
+} from "../../lib/types";
+import { diffTimelines, isEmptyDiff } from "../../lib/projectDiff";
+import { describeProjectFileIssues, parseProjectFile, PROJECT_FILE_VERSION, toProjectFile } from "../../lib/projectFile";
+import {
+  applyOperations,
+  cleanAssetName as cleanName,
+  matchClipLoudness,
+  projectClipOffsets,
+  projectDurationSeconds,
+  sanitizeTimeline,
+  splitProjectClipAt
+} from "../../lib/timeline";
+import { clampFocusX, exportAspectRatio, reframeCropRect } from "../../lib/reframe";
+import {
+  CUSTOM_LOUDNESS_MAX,
+  CUSTOM_LOUDNESS_MIN,
+  EXPORT_FORMATS,
+  EXPORT_FORMAT_LIST,
+  LOUDNESS_TARGETS,
+  coerceExportOptions,
+  exportOptionsError
+} from "../../lib/exportFormats";
+import { CAPTION_STYLES, activeCaptionAt, makeCaptionCue, patchCaptionCue } from "../../lib/captions";
+import { searchTranscript, transcriptText, type TranscriptHit } from "../../lib/transcript";
+import {
+  DEFAULT_MUSIC_DUCKING,
+  MUSIC_ATTACK_MS,
+  MUSIC_DUCK_MAX_DB,
+  MUSIC_RELEASE_MS,
+  dialogueActiveAt,
+  resolveMusicBed
+} from "../../lib/music";
+import { dbToGain } from "../../lib/loudness";
+import { IMPORT_ACCEPT, STILL_DEFAULT_SECONDS, STILL_SOURCE_SECONDS, assetKind, isImportableFile } from "../../lib/assetKinds";
+import { decodeWaveformPeaks, peakRange, pickPeakLevel, type WaveformPeaks } from "../../lib/waveformPeaks";
+import { describeRejectedOperations, validateAssistantOperations } from "../../lib/assistantOperations";
+import {
+  fillerRanges,
+  moveSourceRangeBefore,
+  projectSentences,
+  projectWords,
+  removeClipSourceRanges,
+  selectedWordRanges,
+  type ProjectSentence
+} from "../../lib/transcriptEdit";
 
 type ExportSettings = {
-  resolution: "720p" | "1080p" | "4K";
-  format: "MP4";
+  resolution: ExportResolution;
+  format: ExportFormat;
+  aspect: ExportAspect;
+  captions: CaptionExportMode;
+  captionStyle: CaptionStyle;
+  loudness: LoudnessTarget;
+  // Used when loudness is "custom".
+  customLufs: number;
 };
 
-const DEFAULT_EXPORT: ExportSettings = { resolution: "720p", format: "MP4" };
+const DEFAULT_EXPORT: ExportSettings = {
+  resolution: "720p",
+  format: "MP4",
+  aspect: "source",
+  captions: "off",
+  captionStyle: "clean",
+  loudness: "off",
+  customLufs: -14
+};
+
+type Asset = ProjectAsset;
 
-type Asset = {
-  assetId: string;
+// Server project the Studio is bound to (see /api/projects). null until the first save.
+type ProjectMeta = { id: string; name: string; revision: number };
+type ProjectSyncState = "idle" | "saving" | "saved" | "offline";
+
+type UploadProgress = {
+  key: string; // file fingerprint, see uploadKey()
   name: string;
-  videoUrl: string;
-  durationSeconds: number;
-  hasAudio: boolean;
-  waveformUrl: string | null;
-  analysis: AnalysisTimeline | null;
+  loaded: number;
+  total: number;
+  state: "uploading" | "processing" | "done" | "failed";
+  error?: string;
 };
 
 type HistoryState = {
@@ -41,22 +137,73 @@ type DragPayload =
 
 const DRAG_MIME = "application/x-clipgenius-studio";
 
+const ANALYSIS_STAGE_LABELS: Record<AnalysisStage | "queued", string> = {
+  queued: "queued",
+  normalize: "fixing rotation",
+  scenes: "scenes",
+  loudness: "loudness",
+  highlights: "highlights",
+  waveform: "waveform",
+  thumbnails: "thumbnails",
+  proxy: "preview proxy",
+  transcript: "transcript"
+};
+
+const INITIAL_CHAT: ChatMessage[] = [
+  { role: "ai", text: "Upload clips and I’ll draft a highlight timeline. Then tell me how to improve it." }
+];
+
+const EMPTY_TIMELINE: ProjectTimeline = {
+  projectId: "local",
+  clips: [],
+  audioLinked: true,
+  trackAudioMuted: false,
+  trackAudioVolume: 1,
+  trackVideoHidden: false
+};
+
+// Running export job id, so a reload resumes polling instead of losing the render.
+const EXPORT_JOB_KEY = "clipgenius-studio:export-job:v1";
+
+function rememberExportJob(jobId: string | null) {
+  try {
+    if (jobId) window.localStorage.setItem(EXPORT_JOB_KEY, jobId);
+    else window.localStorage.removeItem(EXPORT_JOB_KEY);
+  } catch {
+    // ignore
+  }
+}
+
 export default function StudioPage() {
   const AUTOSAVE_KEY = "clipgenius-studio:autosave:v1";
+  // Last opened server project, reopened on load.
+  const PROJECT_KEY = "clipgenius-studio:project:v1";
+  // File fingerprint -> chunked upload id, so importing the same file again resumes it.
+  const UPLOAD_SESSIONS_KEY = "clipgenius-studio:uploads:v1";
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const projectFileInputRef = useRef<HTMLInputElement | null>(null);
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const bgVideoRef = useRef<HTMLVideoElement | null>(null);
+  const viewportRef = useRef<HTMLDivElement | null>(null);
   const stripRef = useRef<HTMLDivElement | null>(null);
   const pendingSeekRef = useRef<PendingSeek | null>(null);
   const switchingRef = useRef(false);
   const currentDragRef = useRef<DragPayload | null>(null);
   const altDownRef = useRef(false);
   const unlinkedAudioElsRef = useRef<Map<string, HTMLAudioElement>>(new Map());
+  const musicElRef = useRef<HTMLAudioElement | null>(null);
+  // Current preview ducking (dB), kept across effect re-runs so live edits don't reset it mid-word.
+  const musicDuckDbRef = useRef(0);
   const playheadRef = useRef(0);
 
   const [assets, setAssets] = useState<Asset[]>([]);
   const assetsById = useMemo(() => new Map(assets.map((a) => [a.assetId, a])), [assets]);
+  // Assets imported from the same file (see sourceHash), for the Library's "Shared source" note.
+  const assetsBySourceHash = useMemo(() => {
+    const map = new Map<string, Asset[]>();
+    for (const a of assets) if (a.sourceHash) map.set(a.sourceHash, [...(map.get(a.sourceHash) ?? []), a]);
+    return map;
+  }, [assets]);
   const snapPointsByAssetId = useMemo(() => {
     const map = new Map<string, number[]>();
     for (const a of assets) {
@@ -82,72 +229,120 @@ export default function StudioPage() {
     return map;
   }, [assets]);
 
-  const [timeline, setTimeline] = useState<ProjectTimeline>({
-    projectId: "local",
-    clips: [],
-    audioLinked: true,
-    trackAudioMuted: false,
-    trackAudioVolume: 1,
-    trackVideoHidden: false
-  });
+  const [timeline, setTimeline] = useState<ProjectTimeline>(EMPTY_TIMELINE);
   const [selectedClipId, setSelectedClipId] = useState<string | null>(null);
   const [selectedAudioClipId, setSelectedAudioClipId] = useState<string | null>(null);
+  const [selectedCaptionId, setSelectedCaptionId] = useState<string | null>(null);
+  const [musicPanelOpen, setMusicPanelOpen] = useState(false);
+  const [libraryQuery, setLibraryQuery] = useState("");
+  // Footage holds video and stills; Audio holds audio-only files.
+  const [libraryTab, setLibraryTab] = useState<"footage" | "audio">("footage");
+  const [transcriptAssetId, setTranscriptAssetId] = useState<string | null>(null);
+  // Word keys selected in the Transcript panel (see lib/transcriptEdit.ts).
+  const [transcriptSelection, setTranscriptSelection] = useState<Set<string>>(() => new Set());
+  const transcriptAnchorRef = useRef<string | null>(null);
 
   const [playerSrc, setPlayerSrc] = useState<string | null>(null);
+  // Preview the full-size originals instead of the proxies (exports always use originals).
+  const [previewOriginals, setPreviewOriginals] = useState(false);
+  // Intrinsic size of the previewed video + on-screen viewport size (for the reframe overlay).
+  const [playerVideoSize, setPlayerVideoSize] = useState<{ width: number; height: number } | null>(null);
+  const [viewportSize, setViewportSize] = useState<{ width: number; height: number } | null>(null);
   const [timelineZoom, setTimelineZoom] = useState(1.6);
   // Snapping exists in code, but we keep it off by default for now (we'll revisit later).
   const [snappingEnabled] = useState(false);
   const [altDown, setAltDown] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
+  const [uploads, setUploads] = useState<UploadProgress[]>([]);
 
   const [past, setPast] = useState<HistoryState[]>([]);
   const [future, setFuture] = useState<HistoryState[]>([]);
 
   const [isExporting, setIsExporting] = useState(false);
+  const [exportJobId, setExportJobId] = useState<string | null>(null);
+  const [exportProgress, setExportProgress] = useState(0);
   const [exportUrl, setExportUrl] = useState<string | null>(null);
+  const [exportSidecarUrls, setExportSidecarUrls] = useState<string[]>([]);
+  const [exportLoudness, setExportLoudness] = useState<ExportLoudnessReport | null>(null);
   const [exportError, setExportError] = useState<string | null>(null);
   const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT);
 
   const [chatInput, setChatInput] = useState("");
-  const [chat, setChat] = useState<Array<{ role: "ai" | "user"; text: string }>>([
-    { role: "ai", text: "Upload clips and I’ll draft a highlight timeline. Then tell me how to improve it." }
-  ]);
+  const [chat, setChat] = useState<ChatMessage[]>(INITIAL_CHAT);
+
+  const [project, setProject] = useState<ProjectMeta | null>(null);
+  const projectRef = useRef<ProjectMeta | null>(null);
+  const [projectSync, setProjectSync] = useState<ProjectSyncState>("idle");
+  // Set when a save hits 409: the version someone else saved.
+  const [projectConflict, setProjectConflict] = useState<ProjectRecord | null>(null);
+  // Non-null while the project picker is open.
+  const [projectList, setProjectList] = useState<ProjectSummary[] | null>(null);
+  const [projectListError, setProjectListError] = useState<string | null>(null);
+  // Result of the last Load / session restore: fatal error, or what was dropped while reading the file.
+  const [fileReport, setFileReport] = useState<{ title: string; lines: string[] } | null>(null);
+  const [bundleBusy, setBundleBusy] = useState<"export" | "import" | null>(null);
+
+  // History browser: named snapshots of the server project, diffed against each other or the current cut.
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [snapshots, setSnapshots] = useState<ProjectSnapshotSummary[]>([]);
+  const [snapshotDocs, setSnapshotDocs] = useState<Record<string, ProjectDocument>>({});
+  const [snapshotName, setSnapshotName] = useState("");
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  // "current" or a snapshot id.
+  const [compareFrom, setCompareFrom] = useState("current");
+  const [compareTo, setCompareTo] = useState("current");
 
   // ---- Autosave / restore (localStorage) ----
   useEffect(() => {
     try {
       const raw = window.localStorage.getItem(AUTOSAVE_KEY);
-      if (!raw) return;
-      const parsed = JSON.parse(raw) as any;
-      if (!parsed || parsed.v !== 1) return;
-      if (!Array.isArray(parsed.assets) || !parsed.timeline) return;
-      setAssets(parsed.assets as Asset[]);
-      setTimeline(parsed.timeline as ProjectTimeline);
-      setSelectedClipId(parsed.selectedClipId ?? null);
-      setSelectedAudioClipId(parsed.selectedAudioClipId ?? null);
-      if (Array.isArray(parsed.chat) && parsed.chat.length) setChat(parsed.chat);
-      // New session: clear undo/redo stacks.
-      setPast([]);
-      setFuture([]);
+      let parsed: any = null;
+      try {
+        parsed = raw ? JSON.parse(raw) : null;
+      } catch {
+        setFileReport({ title: "Couldn’t restore your last session:", lines: ["The saved session is not valid JSON."] });
+      }
+      if (parsed) {
+        const result = parseProjectFile(parsed);
+        if (!result.ok) {
+          setFileReport({ title: "Couldn’t restore your last session:", lines: [result.error] });
+        } else {
+          const { assets: restoredAssets, timeline: restored, chat: restoredChat } = result.document;
+          const clipIds = new Set(restored.clips.map((c) => c.id));
+          const audioClipIds = new Set((restored.audioClips ?? []).map((c) => c.id));
+          setAssets(restoredAssets);
+          setTimeline(restored);
+          setSelectedClipId(clipIds.has(parsed.selectedClipId) ? parsed.selectedClipId : null);
+          setSelectedAudioClipId(audioClipIds.has(parsed.selectedAudioClipId) ? parsed.selectedAudioClipId : null);
+          if (restoredChat.length) setChat(restoredChat);
+          // New session: clear undo/redo stacks.
+          setPast([]);
+          setFuture([]);
+          if (result.issues.length) {
+            setFileReport({
+              title: `Restored your last session, but ${result.issues.length} item(s) were invalid and dropped or reset:`,
+              lines: describeProjectFileIssues(result.issues)
+            });
+          }
+        }
+      }
     } catch {
       // ignore
     }
+    // The server copy wins over the browser copy when both exist.
+    const projectId = window.localStorage.getItem(PROJECT_KEY);
+    if (projectId) {
+      projectOpeningRef.current = true;
+      void openProject(projectId);
+    }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
   useEffect(() => {
     const handle = window.setTimeout(() => {
       try {
-        const payload = {
-          v: 1,
-          savedAt: Date.now(),
-          assets,
-          timeline,
-          selectedClipId,
-          selectedAudioClipId,
-          chat
-        };
+        const payload = { ...toProjectFile({ assets, timeline, chat }), selectedClipId, selectedAudioClipId };
         window.localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(payload));
       } catch {
         // ignore
@@ -158,13 +353,7 @@ export default function StudioPage() {
 
   function downloadProjectJson() {
     try {
-      const payload = {
-        v: 1,
-        savedAt: Date.now(),
-        assets,
-        timeline,
-        chat
-      };
+      const payload = toProjectFile({ assets, timeline, chat });
       const blob = new Blob([JSON.stringify(payload, null, 2)], { type: "application/json" });
       const url = URL.createObjectURL(blob);
       const a = document.createElement("a");
@@ -179,23 +368,408 @@ export default function StudioPage() {
     }
   }
 
+  // .zip bundle with media (see /api/bundle): portable to another machine, unlike the JSON file.
+  async function downloadProjectBundle() {
+    setBundleBusy("export");
+    try {
+      const res = await fetch("/api/bundle/export", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ assets, timeline, chat })
+      });
+      if (!res.ok) throw new Error(await res.text());
+      const missing = res.headers.get("x-bundle-missing");
+      const url = URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `clipgenius-project-${new Date().toISOString().slice(0, 19).replaceAll(":", "-")}.zip`;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+      setFileReport(
+        missing
+          ? { title: "Bundle saved, but some media files were missing on the server and are not included:", lines: missing.split(",") }
+          : null
+      );
+    } catch (e: any) {
+      setFileReport({ title: "Couldn’t build the project bundle:", lines: [e?.message || "Unknown error"] });
+    } finally {
+      setBundleBusy(null);
+    }
+  }
+
+  async function loadProjectBundle(file: File) {
+    setBundleBusy("import");
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      const res = await fetch("/api/bundle/import", { method: "POST", body: form });
+      if (!res.ok) throw new Error(await res.text());
+      const result = (await res.json()) as ProjectBundleImport;
+      bindProject(null);
+      showProjectDocument({ ...result.document, chat: result.document.chat.length ? result.document.chat : chat });
+      const lines = describeProjectFileIssues(result.issues);
+      if (result.remappedAssets) {
+        lines.unshift(`${result.remappedAssets} asset id(s) already existed on this server and were given new ids.`);
+      }
+      setFileReport(lines.length ? { title: `Imported ${file.name}:`, lines } : null);
+    } catch (e: any) {
+      setFileReport({ title: `Couldn’t import ${file.name}:`, lines: [e?.message || "Unknown error"] });
+    } finally {
+      setBundleBusy(null);
+    }
+  }
+
   async function loadProjectFromFile(file: File) {
+    if (file.name.toLowerCase().endsWith(".zip")) return loadProjectBundle(file);
+    let parsed: unknown;
     try {
-      const text = await file.text();
-      const parsed = JSON.parse(text) as any;
-      if (!parsed || parsed.v !== 1 || !Array.isArray(parsed.assets) || !parsed.timeline) return;
-      setAssets(parsed.assets as Asset[]);
-      setTimeline(parsed.timeline as ProjectTimeline);
-      if (Array.isArray(parsed.chat) && parsed.chat.length) setChat(parsed.chat);
-      setSelectedClipId(null);
-      setSelectedAudioClipId(null);
-      setPast([]);
-      setFuture([]);
+      parsed = JSON.parse(await file.text());
     } catch {
-      // ignore
+      setFileReport({ title: `Couldn’t open ${file.name}:`, lines: ["The file is not valid JSON."] });
+      return;
+    }
+    const result = parseProjectFile(parsed);
+    if (!result.ok) {
+      setFileReport({ title: `Couldn’t open ${file.name}:`, lines: [result.error] });
+      return;
+    }
+    // A file is a new copy: it gets its own server project on the next save.
+    bindProject(null);
+    showProjectDocument({ ...result.document, chat: result.document.chat.length ? result.document.chat : chat });
+    const upgraded = result.fromVersion < PROJECT_FILE_VERSION ? ` (upgraded from format v${result.fromVersion})` : "";
+    setFileReport(
+      result.issues.length
+        ? {
+            title: `Opened ${file.name}${upgraded}, but ${result.issues.length} item(s) were invalid and dropped or reset:`,
+            lines: describeProjectFileIssues(result.issues)
+          }
+        : null
+    );
+  }
+
+  // ---- Server projects (/api/projects) ----
+  const projectDoc = useMemo<ProjectDocument>(() => ({ assets, timeline, chat }), [assets, timeline, chat]);
+  const latestDocRef = useRef(projectDoc);
+  latestDocRef.current = projectDoc;
+  // JSON of the document as the server last stored it; identical documents are not re-sent.
+  const lastSyncedJsonRef = useRef<string | null>(null);
+  const syncInFlightRef = useRef(false);
+  const syncQueuedRef = useRef(false);
+  // Blocks autosave while a project is being fetched, so the browser copy isn't saved as a new project.
+  const projectOpeningRef = useRef(false);
+
+  function bindProject(meta: ProjectMeta | null) {
+    projectRef.current = meta;
+    setProject(meta);
+    try {
+      if (meta) window.localStorage.setItem(PROJECT_KEY, meta.id);
+      else window.localStorage.removeItem(PROJECT_KEY);
+    } catch {}
+    if (!meta) {
+      lastSyncedJsonRef.current = null;
+      setProjectSync("idle");
+    }
+  }
+
+  function showProjectDocument(doc: ProjectDocument) {
+    setAssets(doc.assets);
+    setTimeline(doc.timeline);
+    setChat(doc.chat.length ? doc.chat : INITIAL_CHAT);
+    setSelectedClipId(null);
+    setSelectedAudioClipId(null);
+    setSelectedCaptionId(null);
+    setPast([]);
+    setFuture([]);
+    setExportUrl(null);
+    setExportError(null);
+  }
+
+  function showProjectRecord(record: ProjectRecord) {
+    const doc = { ...record.document, chat: record.document.chat.length ? record.document.chat : INITIAL_CHAT };
+    lastSyncedJsonRef.current = JSON.stringify(doc);
+    bindProject({ id: record.id, name: record.name, revision: record.revision });
+    setProjectSync("saved");
+    setProjectConflict(null);
+    showProjectDocument(doc);
+  }
+
+  async function openProject(id: string) {
+    projectOpeningRef.current = true;
+    try {
+      const res = await fetch(`/api/projects/${encodeURIComponent(id)}`, { cache: "no-store" });
+      if (res.status === 404) {
+        bindProject(null);
+        return;
+      }
+      if (!res.ok) throw new Error(await res.text());
+      showProjectRecord((await res.json()) as ProjectRecord);
+      setProjectList(null);
+    } catch {
+      setProjectSync("offline");
+    } finally {
+      projectOpeningRef.current = false;
+    }
+  }
+
+  function newProject() {
+    bindProject(null);
+    setProjectConflict(null);
+    setProjectList(null);
+    showProjectDocument({ assets: [], timeline: EMPTY_TIMELINE, chat: INITIAL_CHAT });
+  }
+
+  // Snapshots belong to one project; start over when the Studio switches projects.
+  useEffect(() => {
+    setHistoryOpen(false);
+    setSnapshots([]);
+    setSnapshotDocs({});
+    setCompareFrom("current");
+    setCompareTo("current");
+  }, [project?.id]);
+
+  // Autosave to the server. Creates the project on the first non-empty save, then PUTs against
+  // the last known revision; a 409 stops autosave until the user resolves the conflict.
+  async function syncProject() {
+    if (projectOpeningRef.current) return;
+    if (syncInFlightRef.current) {
+      syncQueuedRef.current = true;
+      return;
+    }
+    const doc = latestDocRef.current;
+    const json = JSON.stringify(doc);
+    if (json === lastSyncedJsonRef.current) return;
+    const current = projectRef.current;
+    if (!current && doc.assets.length === 0 && doc.timeline.clips.length === 0) return;
+
+    syncInFlightRef.current = true;
+    setProjectSync("saving");
+    try {
+      const res = current
+        ? await fetch(`/api/projects/${current.id}`, {
+            method: "PUT",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify({ revision: current.revision, document: doc })
+          })
+        : await fetch("/api/projects", {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify({ name: "Untitled project", document: doc })
+          });
+      if (res.status === 409) {
+        const data = (await res.json()) as { project: ProjectRecord };
+        setProjectConflict(data.project);
+        setProjectSync("idle");
+        return;
+      }
+      if (!res.ok) throw new Error(await res.text());
+      const saved = (await res.json()) as ProjectRecord;
+      bindProject({ id: saved.id, name: saved.name, revision: saved.revision });
+      if (doc.timeline.projectId !== saved.id) {
+        // Adopt the server id without triggering another save for it.
+        const adopted = { ...doc, timeline: { ...doc.timeline, projectId: saved.id } };
+        lastSyncedJsonRef.current = JSON.stringify(adopted);
+        setTimeline((t) => (t === doc.timeline ? adopted.timeline : { ...t, projectId: saved.id }));
+      } else {
+        lastSyncedJsonRef.current = json;
+      }
+      setProjectSync("saved");
+    } catch {
+      setProjectSync("offline");
+    } finally {
+      syncInFlightRef.current = false;
+      if (syncQueuedRef.current) {
+        syncQueuedRef.current = false;
+        void syncProject();
+      }
+    }
+  }
+
+  // syncProject reads everything through refs; the ref lets the effect below call the latest copy.
+  const syncProjectRef = useRef(syncProject);
+  syncProjectRef.current = syncProject;
+
+  useEffect(() => {
+    if (projectConflict) return;
+    const handle = window.setTimeout(() => void syncProjectRef.current(), 1500);
+    return () => window.clearTimeout(handle);
+  }, [projectDoc, projectConflict]);
+
+  // Conflict: overwrite the server copy with ours (based on their revision).
+  function keepLocalProjectVersion() {
+    const theirs = projectConflict;
+    if (!theirs) return;
+    bindProject({ id: theirs.id, name: theirs.name, revision: theirs.revision });
+    lastSyncedJsonRef.current = null;
+    setProjectConflict(null);
+  }
+
+  async function renameProject(name: string) {
+    const current = projectRef.current;
+    const trimmed = name.trim();
+    if (!current || !trimmed || trimmed === current.name) return;
+    try {
+      const res = await fetch(`/api/projects/${current.id}`, {
+        method: "PUT",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ revision: current.revision, name: trimmed })
+      });
+      if (res.status === 409) {
+        setProjectConflict(((await res.json()) as { project: ProjectRecord }).project);
+        return;
+      }
+      if (!res.ok) throw new Error(await res.text());
+      const saved = (await res.json()) as ProjectRecord;
+      bindProject({ id: saved.id, name: saved.name, revision: saved.revision });
+    } catch {
+      setProjectSync("offline");
+    }
+  }
+
+  async function toggleProjectPicker() {
+    if (projectList) {
+      setProjectList(null);
+      return;
+    }
+    setHistoryOpen(false);
+    setProjectListError(null);
+    try {
+      const res = await fetch("/api/projects", { cache: "no-store" });
+      if (!res.ok) throw new Error(await res.text());
+      setProjectList(((await res.json()) as { projects: ProjectSummary[] }).projects);
+    } catch (e: any) {
+      setProjectList([]);
+      setProjectListError(e?.message || "Could not load projects");
+    }
+  }
+
+  async function toggleHistory() {
+    if (historyOpen) {
+      setHistoryOpen(false);
+      return;
+    }
+    setProjectList(null);
+    setHistoryOpen(true);
+    await loadSnapshots();
+  }
+
+  async function loadSnapshots() {
+    const current = projectRef.current;
+    if (!current) return;
+    setHistoryError(null);
+    try {
+      const res = await fetch(`/api/projects/${current.id}/snapshots`, { cache: "no-store" });
+      if (!res.ok) throw new Error(await res.text());
+      setSnapshots(((await res.json()) as { snapshots: ProjectSnapshotSummary[] }).snapshots);
+    } catch (e: any) {
+      setHistoryError(e?.message || "Could not load snapshots");
+    }
+  }
+
+  // Snapshots what's on screen, which may be ahead of the last autosave.
+  async function takeSnapshot(name: string, doc: ProjectDocument = projectDoc) {
+    const current = projectRef.current;
+    if (!current) return null;
+    const res = await fetch(`/api/projects/${current.id}/snapshots`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ name, document: doc })
+    });
+    if (!res.ok) throw new Error(await res.text());
+    const created = (await res.json()) as ProjectSnapshotSummary;
+    setSnapshots((list) => [created, ...list]);
+    setSnapshotDocs((docs) => ({ ...docs, [created.id]: doc }));
+    return created;
+  }
+
+  async function saveNamedSnapshot() {
+    const name = snapshotName.trim() || `Snapshot ${new Date().toLocaleString()}`;
+    setHistoryError(null);
+    try {
+      await takeSnapshot(name);
+      setSnapshotName("");
+    } catch (e: any) {
+      setHistoryError(e?.message || "Could not save snapshot");
+    }
+  }
+
+  async function fetchSnapshotDoc(snapshotId: string) {
+    const cached = snapshotDocs[snapshotId];
+    if (cached) return cached;
+    const current = projectRef.current;
+    if (!current) return null;
+    const res = await fetch(`/api/projects/${current.id}/snapshots/${snapshotId}`, { cache: "no-store" });
+    if (!res.ok) throw new Error(await res.text());
+    const snapshot = (await res.json()) as ProjectSnapshot;
+    setSnapshotDocs((docs) => ({ ...docs, [snapshotId]: snapshot.document }));
+    return snapshot.document;
+  }
+
+  // Latest copy for the effect below (fetchSnapshotDoc returns cached documents without fetching).
+  const fetchSnapshotDocRef = useRef(fetchSnapshotDoc);
+  fetchSnapshotDocRef.current = fetchSnapshotDoc;
+
+  useEffect(() => {
+    if (!historyOpen) return;
+    for (const id of [compareFrom, compareTo]) {
+      if (id === "current") continue;
+      fetchSnapshotDocRef.current(id).catch((e: any) => setHistoryError(e?.message || "Could not load snapshot"));
+    }
+  }, [historyOpen, compareFrom, compareTo]);
+
+  const historyDiff = useMemo(() => {
+    const resolve = (id: string) => (id === "current" ? timeline : snapshotDocs[id]?.timeline ?? null);
+    const from = resolve(compareFrom);
+    const to = resolve(compareTo);
+    return from && to ? diffTimelines(from, to) : null;
+  }, [compareFrom, compareTo, snapshotDocs, timeline]);
+
+  // Restores a snapshot as an undoable edit. The current state is snapshotted first so nothing is lost on reload.
+  async function restoreSnapshot(snapshot: ProjectSnapshotSummary) {
+    setHistoryError(null);
+    try {
+      const doc = await fetchSnapshotDoc(snapshot.id);
+      if (!doc) return;
+      await takeSnapshot(`Before restoring “${snapshot.name}”`);
+      // Keep assets uploaded since the snapshot; the restored timeline may still need the older ones.
+      const known = new Set(assets.map((a) => a.assetId));
+      const missing = doc.assets.filter((a) => !known.has(a.assetId));
+      if (missing.length) setAssets((prev) => [...prev, ...missing]);
+      applyWithHistory({ timeline: { ...doc.timeline, projectId: timeline.projectId }, selectedClipId: null });
+      setChat((c) => [...c, { role: "ai", text: `Restored “${snapshot.name}” (revision ${snapshot.revision}).` }]);
+      setCompareFrom(snapshot.id);
+      setCompareTo("current");
+    } catch (e: any) {
+      setHistoryError(e?.message || "Could not restore snapshot");
     }
   }
 
+  async function deleteSnapshotById(snapshotId: string) {
+    const current = projectRef.current;
+    if (!current) return;
+    const res = await fetch(`/api/projects/${current.id}/snapshots/${snapshotId}`, { method: "DELETE" });
+    if (!res.ok && res.status !== 404) {
+      setHistoryError(await res.text());
+      return;
+    }
+    setSnapshots((list) => list.filter((s) => s.id !== snapshotId));
+    if (compareFrom === snapshotId) setCompareFrom("current");
+    if (compareTo === snapshotId) setCompareTo("current");
+  }
+
+  async function deleteProjectById(id: string) {
+    if (!window.confirm("Delete this project? Its uploaded media is cleaned up later if nothing else uses it.")) return;
+    const res = await fetch(`/api/projects/${id}`, { method: "DELETE" });
+    if (!res.ok && res.status !== 404) {
+      setProjectListError(await res.text());
+      return;
+    }
+    setProjectList((list) => (list ? list.filter((p) => p.id !== id) : list));
+    // Keep working on the open copy; it becomes a new project on the next save.
+    if (projectRef.current?.id === id) bindProject(null);
+  }
+
   // ---- Preview playback across multiple assets ----
   const previewRef = useRef<{
     enabled: boolean;
@@ -255,85 +829,19 @@ export default function StudioPage() {
   }, [assetsById, selectedClip]);
 
   function sanitizeTimelineIfNeeded(t: ProjectTimeline) {
-    if (t.clips.length === 0) return t;
-    const minLen = 0.2;
-    let changed = false;
-    const trackAudioVolumeRaw = t.trackAudioVolume ?? 1;
-    const trackAudioVolume = clamp(Number.isFinite(trackAudioVolumeRaw) ? trackAudioVolumeRaw : 1, 0, 2);
-    const clips = t.clips.map((c) => {
-      const asset = assetsById.get(c.assetId);
-      const maxOut = asset?.durationSeconds || 0;
-      if (!maxOut || !Number.isFinite(maxOut) || maxOut <= 0) return c;
-
-      const sourceIn = clamp(c.sourceIn, 0, Math.max(0, maxOut - minLen));
-      const sourceOut = clamp(c.sourceOut, sourceIn + minLen, maxOut);
-      const audioVolumeRaw = c.audioVolume ?? 1;
-      const audioVolume = clamp(Number.isFinite(audioVolumeRaw) ? audioVolumeRaw : 1, 0, 2);
-      const audioMuted = Boolean(c.audioMuted);
-      const len = Math.max(minLen, sourceOut - sourceIn);
-      const audioFadeInRaw = c.audioFadeIn ?? 0;
-      const audioFadeOutRaw = c.audioFadeOut ?? 0;
-      const audioFadeIn = clamp(Number.isFinite(audioFadeInRaw) ? audioFadeInRaw : 0, 0, Math.max(0, len / 2));
-      const audioFadeOut = clamp(Number.isFinite(audioFadeOutRaw) ? audioFadeOutRaw : 0, 0, Math.max(0, len / 2));
-      if (
-        sourceIn === c.sourceIn &&
-        sourceOut === c.sourceOut &&
-        audioVolume === (c.audioVolume ?? 1) &&
-        audioMuted === Boolean(c.audioMuted) &&
-        audioFadeIn === (c.audioFadeIn ?? 0) &&
-        audioFadeOut === (c.audioFadeOut ?? 0)
-      )
-        return c;
-      changed = true;
-      return { ...c, sourceIn, sourceOut, audioVolume, audioMuted, audioFadeIn, audioFadeOut };
-    });
-
-    const projectDuration = Math.max(0.001, projectDurationSeconds({ ...t, clips }));
-    let audioClips: AudioClip[] | undefined = t.audioClips;
-    if (t.audioLinked === false && Array.isArray(t.audioClips)) {
-      audioClips = t.audioClips.map((c) => {
-        const asset = assetsById.get(c.assetId);
-        const maxOut = asset?.durationSeconds || 0;
-        if (!maxOut || !Number.isFinite(maxOut) || maxOut <= 0) return c;
-        const sourceIn = clamp(c.sourceIn, 0, Math.max(0, maxOut - minLen));
-        const sourceOut = clamp(c.sourceOut, sourceIn + minLen, maxOut);
-        const len = Math.max(minLen, sourceOut - sourceIn);
-        const startRaw = Number.isFinite(c.start) ? c.start : 0;
-        const start = clamp(startRaw, 0, Math.max(0, projectDuration - len));
-        const volumeRaw = c.volume ?? 1;
-        const volume = clamp(Number.isFinite(volumeRaw) ? volumeRaw : 1, 0, 2);
-        const muted = Boolean(c.muted);
-        const fadeInRaw = c.fadeIn ?? 0;
-        const fadeOutRaw = c.fadeOut ?? 0;
-        const fadeIn = clamp(Number.isFinite(fadeInRaw) ? fadeInRaw : 0, 0, Math.max(0, len / 2));
-        const fadeOut = clamp(Number.isFinite(fadeOutRaw) ? fadeOutRaw : 0, 0, Math.max(0, len / 2));
-        if (
-          sourceIn === c.sourceIn &&
-          sourceOut === c.sourceOut &&
-          start === c.start &&
-          volume === (c.volume ?? 1) &&
-          muted === Boolean(c.muted) &&
-          fadeIn === (c.fadeIn ?? 0) &&
-          fadeOut === (c.fadeOut ?? 0)
-        )
-          return c;
-        changed = true;
-        return { ...c, sourceIn, sourceOut, start, volume, muted, fadeIn, fadeOut };
-      });
-    }
-
-    if (trackAudioVolume !== (t.trackAudioVolume ?? 1)) changed = true;
-    return changed ? { ...t, clips, audioClips, trackAudioVolume } : t;
+    return sanitizeTimeline(t, assets);
   }
 
   function makeClipFromAsset(a: Asset): ProjectClip | null {
+    // Audio-only files have nothing to show on V1 (they go on A1 or the music bed).
+    if (assetKind(a) === "audio") return null;
     if (!a.durationSeconds || !Number.isFinite(a.durationSeconds) || a.durationSeconds <= 0) return null;
     return {
       id: crypto.randomUUID(),
       assetId: a.assetId,
       label: cleanName(a.name),
       sourceIn: 0,
-      sourceOut: a.durationSeconds,
+      sourceOut: assetKind(a) === "image" ? Math.min(STILL_DEFAULT_SECONDS, a.durationSeconds) : a.durationSeconds,
       audioVolume: 1,
       audioMuted: false,
       audioFadeIn: 0,
@@ -528,6 +1036,24 @@ export default function StudioPage() {
     setExportError(null);
   }
 
+  // Form controls (sliders, text fields) patch the timeline live and land in history once,
+  // when the edit is committed (release / blur).
+  const liveEditPrevRef = useRef<HistoryState | null>(null);
+
+  function beginLiveEdit() {
+    if (!liveEditPrevRef.current) liveEditPrevRef.current = { timeline, selectedClipId, selectedAudioClipId };
+  }
+
+  function commitLiveEdit() {
+    const prev = liveEditPrevRef.current;
+    if (!prev) return;
+    liveEditPrevRef.current = null;
+    setPast((p) => [...p, prev].slice(-80));
+    setFuture([]);
+    setExportUrl(null);
+    setExportError(null);
+  }
+
   function undo() {
     setPast((p) => {
       if (p.length === 0) return p;
@@ -593,11 +1119,13 @@ export default function StudioPage() {
       if (e.key === "Escape") {
         setSelectedAudioClipId(null);
         setSelectedClipId(null);
+        setSelectedCaptionId(null);
+        setTranscriptSelection(new Set());
       }
     };
     window.addEventListener("keydown", onKeyDown);
     return () => window.removeEventListener("keydown", onKeyDown);
-  }, [timeline, selectedClipId, selectedAudioClipId, playheadProjectTime]);
+  }, [timeline, selectedClipId, selectedAudioClipId, selectedCaptionId, transcriptSelection, playheadProjectTime]);
 
   useEffect(() => {
     const onKeyDown = (e: KeyboardEvent) => {
@@ -687,7 +1215,7 @@ export default function StudioPage() {
       const within = clamp(projectTime - start, 0, len);
       const desired = clamp(Number(c.sourceIn) + within, 0, Number.isFinite(asset.durationSeconds) ? asset.durationSeconds : Number.POSITIVE_INFINITY);
 
-      const el = getOrCreateUnlinkedAudioEl(c.id, asset.videoUrl);
+      const el = getOrCreateUnlinkedAudioEl(c.id, previewSrc(asset));
       el.muted = false;
       const vol = clamp(Number.isFinite(c.volume as any) ? (c.volume as any) : 1, 0, 2);
       const g = fadeGain(c.fadeIn ?? 0, c.fadeOut ?? 0, within, len);
@@ -732,8 +1260,15 @@ export default function StudioPage() {
     fg.volume = clamp((vol * trackVol * g) / 2, 0, 1);
   }
 
+  // What the preview plays for an asset: its proxy once analysis has made one, unless originals are requested.
+  // A still only plays as its proxy (a still video), so it shows once analysis has made that.
+  function previewSrc(asset: Asset) {
+    if (assetKind(asset) === "image") return asset.proxyUrl ?? asset.videoUrl;
+    return !previewOriginals && asset.proxyUrl ? asset.proxyUrl : asset.videoUrl;
+  }
+
   async function ensurePlayerOnAsset(asset: Asset, seekTo: number, play: boolean) {
-    const nextSrc = asset.videoUrl;
+    const nextSrc = previewSrc(asset);
     pendingSeekRef.current = { expectedSrc: nextSrc, time: seekTo, play };
     setPlayerSrc(nextSrc);
 
@@ -761,6 +1296,7 @@ export default function StudioPage() {
 
   function onLoadedMetadata() {
     const v = videoRef.current;
+    if (v && v.videoWidth > 0 && v.videoHeight > 0) setPlayerVideoSize({ width: v.videoWidth, height: v.videoHeight });
     const pending = pendingSeekRef.current;
     if (!v || !pending) return;
 
@@ -779,31 +1315,160 @@ export default function StudioPage() {
     switchingRef.current = false;
   }
 
+  // Toggling proxies/originals reloads the asset on screen at the same time (both share a timebase).
+  // Runs off the toggle only, so the reload reads the latest render through a ref.
+  const reloadPreviewSourceRef = useRef(() => {});
+  reloadPreviewSourceRef.current = () => {
+    const asset = assets.find((a) => playerSrc && (a.videoUrl === playerSrc || a.proxyUrl === playerSrc));
+    if (!asset || previewSrc(asset) === playerSrc) return;
+    const v = videoRef.current;
+    void ensurePlayerOnAsset(asset, Number(v?.currentTime || 0), Boolean(v && !v.paused));
+  };
+  useEffect(() => {
+    reloadPreviewSourceRef.current();
+  }, [previewOriginals]);
+
+  // ---- Library search (file names + transcripts) ----
+  const libraryAssets = useMemo(
+    () => assets.filter((a) => (assetKind(a) === "audio") === (libraryTab === "audio")),
+    [assets, libraryTab]
+  );
+
+  const libraryResults = useMemo(() => {
+    const q = libraryQuery.trim();
+    if (!q) return null;
+    const out: { asset: Asset; hits: TranscriptHit[] }[] = [];
+    for (const a of libraryAssets) {
+      const hits = searchTranscript(a.analysis?.transcript, q, { maxHits: 8 });
+      if (hits.length || a.name.toLowerCase().includes(q.toLowerCase())) out.push({ asset: a, hits });
+    }
+    return out;
+  }, [libraryAssets, libraryQuery]);
+
   // ---- Upload / import ----
-  async function uploadOne(file: File) {
-    const fd = new FormData();
-    fd.append("file", file);
-    const res = await fetch("/api/upload", { method: "POST", body: fd });
+  function patchUpload(key: string, patch: Partial<UploadProgress>) {
+    setUploads((list) => list.map((u) => (u.key === key ? { ...u, ...patch } : u)));
+  }
+
+  function rememberUploadSession(key: string, uploadId: string | null) {
+    try {
+      const map = JSON.parse(window.localStorage.getItem(UPLOAD_SESSIONS_KEY) || "{}") as Record<string, string>;
+      if (uploadId) map[key] = uploadId;
+      else delete map[key];
+      window.localStorage.setItem(UPLOAD_SESSIONS_KEY, JSON.stringify(map));
+    } catch {}
+  }
+
+  // Chunked, resumable upload (see /api/uploads). Resumes a session left by an earlier attempt at the same file.
+  async function uploadChunked(file: File, key: string) {
+    let session: UploadSessionStatus | null = null;
+    try {
+      const known = (JSON.parse(window.localStorage.getItem(UPLOAD_SESSIONS_KEY) || "{}") as Record<string, string>)[key];
+      if (known) {
+        const res = await fetch(`/api/uploads/${known}`, { cache: "no-store" });
+        if (res.ok) session = (await res.json()) as UploadSessionStatus;
+      }
+    } catch {}
+    if (!session) {
+      const res = await fetch("/api/uploads", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ name: file.name, type: file.type, size: file.size })
+      });
+      if (!res.ok) throw new Error(await res.text());
+      session = (await res.json()) as UploadSessionStatus;
+      rememberUploadSession(key, session.uploadId);
+    }
+
+    let offset = session.received;
+    patchUpload(key, { loaded: offset });
+    while (offset < file.size) {
+      const chunk = await file.slice(offset, Math.min(file.size, offset + session.chunkBytes)).arrayBuffer();
+      offset = await putUploadChunk(session.uploadId, offset, chunk);
+      patchUpload(key, { loaded: offset });
+    }
+
+    patchUpload(key, { state: "processing" });
+    const res = await fetch(`/api/uploads/${session.uploadId}/complete`, { method: "POST" });
+    if (res.status === 422 || res.status === 404) rememberUploadSession(key, null);
     if (!res.ok) throw new Error(await res.text());
-    const data = (await res.json()) as {
+    rememberUploadSession(key, null);
+    return res.json();
+  }
+
+  // Sends one chunk, retrying network errors with backoff. Returns the server's new offset
+  // (on 409 that's wherever the server actually is, and the caller continues from there).
+  async function putUploadChunk(uploadId: string, offset: number, chunk: ArrayBuffer) {
+    const digest = await sha256Hex(chunk);
+    let lastError = "Network error";
+    for (let attempt = 0; attempt < 5; attempt++) {
+      if (attempt > 0) await new Promise((r) => window.setTimeout(r, 1000 * 2 ** (attempt - 1)));
+      try {
+        const res = await fetch(`/api/uploads/${uploadId}?offset=${offset}`, {
+          method: "PUT",
+          headers: { "content-type": "application/octet-stream", ...(digest ? { "x-chunk-sha256": digest } : {}) },
+          body: chunk
+        });
+        if (res.ok) return ((await res.json()) as UploadSessionStatus).received;
+        if (res.status === 409) return ((await res.json()) as { upload: UploadSessionStatus }).upload.received;
+        if (res.status === 404) throw new Error("Upload session expired; import the file again.");
+        lastError = await res.text();
+        // 422: corrupted in transit, send it again. Other 4xx won't get better.
+        if (res.status !== 422 && res.status < 500) throw new Error(lastError);
+      } catch (e: any) {
+        if (!(e instanceof TypeError)) throw e;
+        lastError = e.message || lastError;
+      }
+    }
+    throw new Error(`${lastError}. Import the same file again to resume.`);
+  }
+
+  async function uploadOne(file: File) {
+    const key = uploadKey(file);
+    setUploads((list) => [
+      ...list.filter((u) => u.key !== key),
+      { key, name: file.name, loaded: 0, total: file.size, state: "uploading" }
+    ]);
+    let data: {
       assetId: string;
       videoUrl: string;
+      kind?: AssetKind;
+      durationSeconds?: number;
       hasAudio?: boolean;
       waveformUrl?: string | null;
+      peaksUrl?: string | null;
+      proxyUrl?: string | null;
+      thumbnails?: ThumbnailSprite | null;
       analysis?: AnalysisTimeline | null;
+      analysisJobId?: string | null;
+      sourceHash?: string | null;
+      deduplicated?: boolean;
     };
+    try {
+      data = await uploadChunked(file, key);
+    } catch (e: any) {
+      patchUpload(key, { state: "failed", error: e?.message ?? "Upload failed" });
+      throw e;
+    }
+    patchUpload(key, { state: "done", loaded: file.size });
 
     const analysis = data.analysis ?? null;
-    const durationSeconds = analysis?.durationSeconds ?? 0;
+    const durationSeconds = data.durationSeconds || analysis?.durationSeconds || 0;
 
     const asset: Asset = {
       assetId: data.assetId,
       name: file.name || "Untitled",
       videoUrl: data.videoUrl,
+      ...(data.kind && data.kind !== "video" ? { kind: data.kind } : {}),
       durationSeconds,
       hasAudio: Boolean(data.hasAudio),
       waveformUrl: data.waveformUrl ?? null,
-      analysis
+      analysis,
+      ...(data.peaksUrl ? { peaksUrl: data.peaksUrl } : {}),
+      ...(data.proxyUrl ? { proxyUrl: data.proxyUrl } : {}),
+      ...(data.thumbnails ? { thumbnails: data.thumbnails } : {}),
+      ...(data.analysisJobId ? { analysisJobId: data.analysisJobId } : {}),
+      ...(data.sourceHash ? { sourceHash: data.sourceHash } : {})
     };
     setAssets((prev) => [...prev, asset]);
 
@@ -813,10 +1478,127 @@ export default function StudioPage() {
 
     setChat((prev) => [
       ...prev,
-      { role: "ai", text: "Imported to Library. Drag it into the timeline (or hit +), then tell me the vibe." }
+      {
+        role: "ai",
+        text: data.deduplicated
+          ? "Imported to Library. I've seen this exact file before, so I reused the stored copy and its analysis."
+          : "Imported to Library. Drag it into the timeline (or hit +), then tell me the vibe."
+      }
     ]);
   }
 
+  // Removes an asset and every clip that uses it, then asks the server to delete its files (kept if another
+  // project, snapshot or asset still uses them). Not undoable, so history is cleared like on import.
+  async function removeAsset(asset: Asset) {
+    const users = [
+      ...timeline.clips.filter((c) => c.assetId === asset.assetId).map((c) => `Video: ${c.label}`),
+      ...(timeline.audioClips ?? []).filter((c) => c.assetId === asset.assetId).map((c) => `Audio: ${c.label}`),
+      ...(timeline.music?.assetId === asset.assetId ? ["Music bed"] : [])
+    ];
+    const name = cleanName(asset.name);
+    const listed = users.slice(0, 12).map((u) => `• ${u}`);
+    if (users.length > 12) listed.push(`…and ${users.length - 12} more`);
+    const message = users.length
+      ? `Remove "${name}"? These timeline clips use it and will be removed too:\n\n${listed.join("\n")}\n\nThis can't be undone.`
+      : `Remove "${name}" from the Library? This can't be undone.`;
+    if (!window.confirm(message)) return;
+
+    const remaining = assets.filter((a) => a.assetId !== asset.assetId);
+    setAssets(remaining);
+    setTimeline((t) => ({
+      ...t,
+      clips: t.clips.filter((c) => c.assetId !== asset.assetId),
+      ...(t.audioClips ? { audioClips: t.audioClips.filter((c) => c.assetId !== asset.assetId) } : {}),
+      ...(t.music?.assetId === asset.assetId ? { music: null } : {})
+    }));
+    if (selectedClip?.assetId === asset.assetId) setSelectedClipId(null);
+    if (selectedAudioClip?.assetId === asset.assetId) setSelectedAudioClipId(null);
+    if (playerSrc === asset.videoUrl || playerSrc === asset.proxyUrl) setPlayerSrc(null);
+    setPast([]);
+    setFuture([]);
+    setExportUrl(null);
+
+    try {
+      const res = await fetch(`/api/assets/${asset.assetId}`, {
+        method: "DELETE",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          projectId: projectRef.current?.id,
+          keepUrls: remaining.flatMap((a) => [a.videoUrl, a.waveformUrl]).filter(Boolean)
+        })
+      });
+      if (!res.ok) throw new Error(await res.text());
+      const result = (await res.json()) as AssetDeleteResult;
+      if (result.inUse) {
+        setChat((prev) => [
+          ...prev,
+          { role: "ai", text: `Removed "${name}". Its media is still used by another asset, project or snapshot, so the files were kept.` }
+        ]);
+      }
+    } catch (e: any) {
+      setUploadError(`Removed "${name}", but its files couldn't be deleted: ${e?.message ?? "request failed"}`);
+    }
+  }
+
+  // ---- Background analysis (/api/analysis) ----
+  // Assets come back from upload right away; scenes, highlights, waveform and transcript fill in as jobs report them.
+  // Keyed by job id (re-imports of the same file share a job).
+  const [analysisStages, setAnalysisStages] = useState<Record<string, AnalysisStage | "queued">>({});
+  const pendingAnalysisIds = assets
+    .map((a) => a.analysisJobId)
+    .filter(Boolean)
+    .join(",");
+  // Last updatedAt applied per job, so unchanged polls don't churn state.
+  const analysisSeenRef = useRef<Record<string, number>>({});
+
+  useEffect(() => {
+    if (!pendingAnalysisIds) return;
+    let stopped = false;
+    const poll = async () => {
+      try {
+        const res = await fetch(`/api/analysis?ids=${encodeURIComponent(pendingAnalysisIds)}`, { cache: "no-store" });
+        if (!res.ok || stopped) return;
+        const { jobs } = (await res.json()) as { jobs: AnalysisJobStatus[] };
+        if (stopped) return;
+        const byId = new Map(jobs.map((j) => [j.jobId, j]));
+        setAssets((prev) =>
+          prev.map((a) => {
+            if (!a.analysisJobId || !pendingAnalysisIds.split(",").includes(a.analysisJobId)) return a;
+            const job = byId.get(a.analysisJobId);
+            // Unknown to the server (restarted): stop waiting, keep whatever we have.
+            if (!job) return { ...a, analysisJobId: undefined };
+            const finished = job.state === "done" || job.state === "failed";
+            if (!finished && job.updatedAt <= (analysisSeenRef.current[job.jobId] ?? 0)) return a;
+            analysisSeenRef.current[job.jobId] = job.updatedAt;
+            return {
+              ...a,
+              videoUrl: job.videoUrl,
+              waveformUrl: job.waveformUrl ?? a.waveformUrl,
+              peaksUrl: job.peaksUrl ?? a.peaksUrl,
+              proxyUrl: job.proxyUrl ?? a.proxyUrl,
+              thumbnails: job.thumbnails ?? a.thumbnails,
+              // Re-imports of a file still being analyzed poll the first upload's job.
+              analysis: job.analysis ? { ...job.analysis, assetId: a.assetId } : a.analysis,
+              durationSeconds: job.analysis?.durationSeconds || a.durationSeconds,
+              analysisJobId: finished ? undefined : a.analysisJobId
+            };
+          })
+        );
+        setAnalysisStages(
+          Object.fromEntries(jobs.filter((j) => j.state === "queued" || j.state === "running").map((j) => [j.jobId, j.stage ?? "queued"]))
+        );
+      } catch {
+        // Try again on the next tick.
+      }
+    };
+    void poll();
+    const handle = window.setInterval(poll, 1500);
+    return () => {
+      stopped = true;
+      window.clearInterval(handle);
+    };
+  }, [pendingAnalysisIds]);
+
   async function onPickFiles(files?: FileList | null) {
     if (!files || files.length === 0) return;
     setIsUploading(true);
@@ -825,15 +1607,18 @@ export default function StudioPage() {
     setExportError(null);
     setPast([]);
     setFuture([]);
+    setUploads((list) => list.filter((u) => u.state === "failed"));
     try {
-      // Upload sequentially to keep it simple for MVP.
+      // Upload sequentially to keep it simple for MVP. A failed file doesn't stop the rest.
       for (const f of Array.from(files)) {
-        // Only accept video for now.
-        if (!f.type.startsWith("video/")) continue;
-        await uploadOne(f);
+        // Video, audio-only files and stills (see lib/assetKinds.ts); the rest is skipped.
+        if (!isImportableFile(f.type, f.name)) continue;
+        try {
+          await uploadOne(f);
+        } catch (e: any) {
+          setUploadError(e?.message ?? "Upload failed");
+        }
       }
-    } catch (e: any) {
-      setUploadError(e?.message ?? "Upload failed");
     } finally {
       setIsUploading(false);
       if (fileInputRef.current) fileInputRef.current.value = "";
@@ -842,6 +1627,16 @@ export default function StudioPage() {
 
   // ---- Timeline editing ----
   function deleteSelection() {
+    if (selectedCaption) {
+      deleteCaption(selectedCaption.id);
+      return;
+    }
+
+    if (transcriptSelection.size) {
+      deleteTranscriptSelection();
+      return;
+    }
+
     // Delete unlinked audio clip if selected.
     if (timeline.audioLinked === false && selectedUnlinkedAudioClip && Array.isArray(timeline.audioClips)) {
       const remaining = timeline.audioClips.filter((c) => c.id !== selectedUnlinkedAudioClip.id);
@@ -931,129 +1726,6 @@ export default function StudioPage() {
   }
 
   // ---- AI ----
-  function autoEditDraft(
-    targetSeconds: number,
-    style?: "fast" | "cinematic" | "story",
-    opts?: { highlightsOnly?: boolean }
-  ) {
-    const secs = clamp(Number(targetSeconds) || 60, 10, 20 * 60);
-    if (assets.length === 0) return timeline;
-    const highlightsOnly = Boolean(opts?.highlightsOnly);
-
-    // Collect candidate segments from analysis timelines.
-    type Cand = { assetId: string; label: string; start: number; end: number; score: number };
-    const cands: Cand[] = [];
-
-    for (const a of assets) {
-      const ana = a.analysis;
-      if (!ana?.clips?.length) continue;
-      for (const c of ana.clips) {
-        if (highlightsOnly && c.kind !== "highlight") continue;
-        const len = Math.max(0, c.end - c.start);
-        if (len < 0.8) continue;
-        const mid = (c.start + c.end) / 2;
-        const pos = ana.durationSeconds > 0 ? mid / ana.durationSeconds : 0.5;
-        // Score: prefer highlights (if available), avoid intro/outro in fast mode, prefer mid.
-        const kindBoost = c.kind === "highlight" ? 2.2 : c.kind === "broll" ? 1.3 : 1.0;
-        const centerBoost = 1.0 + (1 - Math.abs(pos - 0.5)) * 0.9;
-        const labelBoost = /action|climax|highlight/i.test(c.label) ? 1.35 : /intro|outro/i.test(c.label) ? 0.9 : 1.0;
-        const lenTarget = style === "cinematic" ? 4.5 : style === "story" ? 3.5 : 2.2;
-        const lenBoost = 1.0 - Math.min(0.6, Math.abs(len - lenTarget) / Math.max(1, lenTarget));
-        const edgePenalty = style === "fast" ? 1.0 - Math.max(0, Math.abs(pos - 0.5) - 0.35) * 1.4 : 1.0;
-        const score = kindBoost * centerBoost * labelBoost * (0.7 + lenBoost) * edgePenalty;
-        cands.push({ assetId: a.assetId, label: c.label, start: c.start, end: c.end, score });
-      }
-    }
-
-    // Fallback: if analysis is missing, use full assets.
-    if (cands.length === 0) {
-      const clips = assets
-        .filter((a) => a.durationSeconds > 0)
-        .map((a) => ({
-          id: crypto.randomUUID(),
-          assetId: a.assetId,
-          label: cleanName(a.name),
-          sourceIn: 0,
-          sourceOut: Math.min(a.durationSeconds, secs)
-        }));
-      return sanitizeTimelineIfNeeded({
-        ...timeline,
-        clips,
-        audioLinked: true,
-        audioClips: undefined
-      });
-    }
-
-    // Pick segments until we hit targetSeconds, with style-dependent trimming.
-    cands.sort((a, b) => b.score - a.score);
-
-    const picked: ProjectClip[] = [];
-    let total = 0;
-    const maxClipLen = style === "cinematic" ? 6 : style === "story" ? 4.5 : 3.0;
-    const minClipLen = style === "cinematic" ? 2 : style === "story" ? 1.5 : 1.0;
-
-    for (const c of cands) {
-      if (total >= secs) break;
-      const asset = assetsById.get(c.assetId);
-      if (!asset) continue;
-      const rawLen = Math.max(0, c.end - c.start);
-      const want = clamp(rawLen, minClipLen, maxClipLen);
-      const start = clamp(c.start, 0, Math.max(0, asset.durationSeconds - want));
-      const end = clamp(start + want, start + minClipLen, asset.durationSeconds);
-      const len = end - start;
-      if (len < minClipLen) continue;
-      picked.push({
-        id: crypto.randomUUID(),
-        assetId: c.assetId,
-        label: c.label,
-        sourceIn: start,
-        sourceOut: end,
-        audioVolume: 1,
-        audioMuted: false,
-        audioFadeIn: 0.12,
-        audioFadeOut: 0.12
-      });
-      total += len;
-    }
-
-    // Ensure a clean story: if "story" style and we have enough, prepend intro + append outro if available.
-    if (style === "story") {
-      const intro = findNamedSegment("intro");
-      const outro = findNamedSegment("outro");
-      if (intro) picked.unshift(intro);
-      if (outro) picked.push(outro);
-    }
-
-    // Trim final timeline to target seconds, keeping sequence order.
-    let nextTimeline: ProjectTimeline = { ...timeline, clips: picked };
-    nextTimeline = trimProjectTimelineToTargetSeconds(nextTimeline, secs);
-    nextTimeline = { ...nextTimeline, audioLinked: true, audioClips: undefined };
-    return sanitizeTimelineIfNeeded(nextTimeline);
-
-    function findNamedSegment(name: "intro" | "outro") {
-      for (const a of assets) {
-        const ana = a.analysis;
-        const seg = ana?.clips?.find((c) => c.label.toLowerCase() === name);
-        if (!seg) continue;
-        const want = name === "intro" ? 2.5 : 2.0;
-        const start = clamp(seg.start, 0, Math.max(0, a.durationSeconds - want));
-        const end = clamp(start + want, start + 1, a.durationSeconds);
-        return {
-          id: crypto.randomUUID(),
-          assetId: a.assetId,
-          label: name === "intro" ? "Intro" : "Outro",
-          sourceIn: start,
-          sourceOut: end,
-          audioVolume: 1,
-          audioMuted: false,
-          audioFadeIn: 0.12,
-          audioFadeOut: 0.2
-        } as ProjectClip;
-      }
-      return null;
-    }
-  }
-
   async function sendToAssistant(text: string) {
     const userText = text.trim();
     if (!userText) return;
@@ -1067,122 +1739,32 @@ export default function StudioPage() {
       body: JSON.stringify({
         projectId: timeline.projectId,
         message: userText,
-        timeline
+        timeline,
+        assets: assets.map(
+          (a): AssistantAssetSummary => ({
+            assetId: a.assetId,
+            name: a.name,
+            durationSeconds: a.durationSeconds,
+            hasAudio: a.hasAudio,
+            highlightCount: a.analysis?.clips.filter((c) => c.kind === "highlight").length ?? 0,
+            transcriptExcerpt: a.analysis?.transcript ? transcriptText(a.analysis.transcript).slice(0, 400) || undefined : undefined
+          })
+        )
       })
     });
 
     const data = (await res.json()) as AssistantReply;
     setChat((prev) => [...prev, { role: "ai", text: data.reply }]);
 
-    if (data.operations?.length) {
-      let t = timeline;
-      for (const op of data.operations) {
-        if (op.op === "trim_to_target_seconds") {
-          t = trimProjectTimelineToTargetSeconds(t, op.targetSeconds);
-        } else if (op.op === "auto_edit") {
-          t = autoEditDraft(op.targetSeconds, op.style, { highlightsOnly: op.highlightsOnly });
-        } else if (op.op === "set_clip_length_profile") {
-          t = setClipLengthProfile(t, op.minSeconds, op.maxSeconds, op.avgSeconds);
-        } else if (op.op === "set_audio_fades") {
-          t = setAudioFades(t, op.fadeInSeconds, op.fadeOutSeconds);
-        } else if (op.op === "set_audio_linked") {
-          t = setAudioLinked(t, op.linked);
-        } else if (op.op === "set_track_audio") {
-          t = setTrackAudio(t, op.volume, op.muted);
-        }
-      }
-      applyWithHistory({ timeline: t, selectedClipId: t.clips[0]?.id ?? null });
-    }
-  }
-
-  function setClipLengthProfile(
-    t: ProjectTimeline,
-    minSecondsRaw: number,
-    maxSecondsRaw: number,
-    avgSecondsRaw?: number
-  ): ProjectTimeline {
-    if (t.clips.length === 0) return t;
-    const minSeconds = clamp(Number(minSecondsRaw) || 0.8, 0.2, 20);
-    const maxSeconds = clamp(Number(maxSecondsRaw) || 3.0, minSeconds, 30);
-    const avgSeconds = avgSecondsRaw == null ? (minSeconds + maxSeconds) / 2 : clamp(Number(avgSecondsRaw) || (minSeconds + maxSeconds) / 2, minSeconds, maxSeconds);
-
-    const clips = t.clips.map((c) => {
-      const asset = assetsById.get(c.assetId);
-      const maxOut = asset?.durationSeconds ?? c.sourceOut;
-      const curLen = Math.max(0.2, c.sourceOut - c.sourceIn);
-      const mid = c.sourceIn + curLen / 2;
-      // Small deterministic "variation" per clip, without randomness (stable across renders).
-      const hash = simpleHash(c.id);
-      const jitter = ((hash % 1000) / 999 - 0.5) * 0.6; // -0.3..+0.3
-      const want = clamp(avgSeconds * (1 + jitter), minSeconds, maxSeconds);
-      let start = mid - want / 2;
-      let end = mid + want / 2;
-      if (start < 0) {
-        end -= start;
-        start = 0;
-      }
-      if (end > maxOut) {
-        const over = end - maxOut;
-        start = Math.max(0, start - over);
-        end = maxOut;
-      }
-      if (end - start < 0.2) {
-        start = clamp(start, 0, Math.max(0, maxOut - 0.2));
-        end = Math.min(maxOut, start + 0.2);
-      }
-      return { ...c, sourceIn: start, sourceOut: end };
-    });
-
-    return sanitizeTimelineIfNeeded({ ...t, clips });
-  }
-
-  function setAudioFades(t: ProjectTimeline, fadeInSecondsRaw: number, fadeOutSecondsRaw: number): ProjectTimeline {
-    const fadeInSeconds = clamp(Number(fadeInSecondsRaw) || 0, 0, 2);
-    const fadeOutSeconds = clamp(Number(fadeOutSecondsRaw) || 0, 0, 2);
-    const clips = t.clips.map((c) => ({ ...c, audioFadeIn: fadeInSeconds, audioFadeOut: fadeOutSeconds }));
-    let audioClips = t.audioClips;
-    if (t.audioLinked === false && Array.isArray(t.audioClips)) {
-      audioClips = t.audioClips.map((c) => ({ ...c, fadeIn: fadeInSeconds, fadeOut: fadeOutSeconds }));
-    }
-    return sanitizeTimelineIfNeeded({ ...t, clips, audioClips });
-  }
+    // Re-check on this side too: the reply may come from an older server or a misbehaving model.
+    const { operations, rejected } = validateAssistantOperations(data.operations);
+    const allRejected = [...(Array.isArray(data.rejectedOperations) ? data.rejectedOperations : []), ...rejected];
+    if (allRejected.length) setChat((prev) => [...prev, { role: "ai", text: describeRejectedOperations(allRejected) }]);
 
-  function setTrackAudio(t: ProjectTimeline, volumeRaw?: number, muted?: boolean): ProjectTimeline {
-    const next: ProjectTimeline = { ...t };
-    if (volumeRaw != null) next.trackAudioVolume = clamp(Number(volumeRaw) || 1, 0, 2);
-    if (muted != null) next.trackAudioMuted = Boolean(muted);
-    return sanitizeTimelineIfNeeded(next);
-  }
-
-  function setAudioLinked(t: ProjectTimeline, linked: boolean): ProjectTimeline {
-    if (linked) return sanitizeTimelineIfNeeded({ ...t, audioLinked: true, audioClips: undefined });
-    // Unlink: materialize audio clips from current video clips that actually have audio.
-    const offsetsLocal = projectClipOffsets(t);
-    const nextAudio: AudioClip[] = [];
-    for (const c of t.clips) {
-      const a = assetsById.get(c.assetId);
-      if (!a?.hasAudio) continue;
-      const start = offsetsLocal.get(c.id) ?? 0;
-      nextAudio.push({
-        id: crypto.randomUUID(),
-        assetId: c.assetId,
-        label: c.label,
-        sourceIn: c.sourceIn,
-        sourceOut: c.sourceOut,
-        start,
-        volume: c.audioVolume ?? 1,
-        muted: Boolean(c.audioMuted),
-        fadeIn: c.audioFadeIn ?? 0,
-        fadeOut: c.audioFadeOut ?? 0
-      });
+    if (operations.length) {
+      const t = applyOperations(timeline, assets, operations);
+      applyWithHistory({ timeline: t, selectedClipId: t.clips[0]?.id ?? null });
     }
-    return sanitizeTimelineIfNeeded({ ...t, audioLinked: false, audioClips: nextAudio.sort((x, y) => x.start - y.start) });
-  }
-
-  function simpleHash(s: string) {
-    let h = 2166136261;
-    for (let i = 0; i < s.length; i++) h = Math.imul(h ^ s.charCodeAt(i), 16777619);
-    return (h >>> 0) as number;
   }
 
   function toggleAudioLink() {
@@ -1216,36 +1798,345 @@ export default function StudioPage() {
       });
     }
 
-    applyWithHistory({
-      timeline: { ...timeline, audioLinked: false, audioClips: nextAudio.sort((x, y) => x.start - y.start) },
-      selectedClipId,
-      selectedAudioClipId: nextAudio[0]?.id ?? null
+    applyWithHistory({
+      timeline: { ...timeline, audioLinked: false, audioClips: nextAudio.sort((x, y) => x.start - y.start) },
+      selectedClipId,
+      selectedAudioClipId: nextAudio[0]?.id ?? null
+    });
+  }
+
+  // ---- Captions (T1 lane, project time) ----
+  const selectedCaption = useMemo(() => {
+    if (!selectedCaptionId) return null;
+    return (timeline.captions ?? []).find((c) => c.id === selectedCaptionId) ?? null;
+  }, [timeline.captions, selectedCaptionId]);
+
+  const activeCaption = useMemo(
+    () => activeCaptionAt(timeline.captions, playheadProjectTime),
+    [timeline.captions, playheadProjectTime]
+  );
+
+  function updateCaptionById(t: ProjectTimeline, id: string, patch: Partial<Pick<CaptionCue, "start" | "end" | "text">>) {
+    const captions = (t.captions ?? []).map((c) => (c.id === id ? patchCaptionCue(c, patch) : c));
+    return { ...t, captions: captions.sort((a, b) => a.start - b.start) };
+  }
+
+  function addCaptionAtPlayhead() {
+    const start = clamp(playheadProjectTime, 0, Math.max(0, duration - 0.3));
+    const cue = makeCaptionCue(start);
+    const captions = [...(timeline.captions ?? []), { ...cue, end: Math.min(cue.end, Math.max(duration, start + 0.3)) }];
+    applyWithHistory({
+      timeline: { ...timeline, captions: captions.sort((a, b) => a.start - b.start) },
+      selectedClipId,
+      selectedAudioClipId
+    });
+    setSelectedCaptionId(cue.id);
+  }
+
+  function deleteCaption(id: string) {
+    const captions = (timeline.captions ?? []).filter((c) => c.id !== id);
+    applyWithHistory({ timeline: { ...timeline, captions }, selectedClipId, selectedAudioClipId });
+    setSelectedCaptionId(null);
+  }
+
+  function patchSelectedCaptionLive(patch: Partial<Pick<CaptionCue, "start" | "end" | "text">>) {
+    if (!selectedCaption) return;
+    beginLiveEdit();
+    const id = selectedCaption.id;
+    setTimeline((t) => updateCaptionById(t, id, patch));
+  }
+
+  // ---- Transcript (text-based editing) ----
+  const transcriptsByAsset = useMemo(
+    () => new Map(assets.map((a) => [a.assetId, a.analysis?.transcript ?? null])),
+    [assets]
+  );
+  const timelineWords = useMemo(() => projectWords(timeline, transcriptsByAsset), [timeline, transcriptsByAsset]);
+  const timelineSentences = useMemo(() => projectSentences(timeline, timelineWords), [timeline, timelineWords]);
+  const fillerCutRanges = useMemo(() => fillerRanges(timeline, timelineWords), [timeline, timelineWords]);
+
+  // Word keys include clip ids, so any clip edit invalidates the selection.
+  useEffect(() => {
+    setTranscriptSelection(new Set());
+    transcriptAnchorRef.current = null;
+  }, [timeline.clips]);
+
+  function selectTranscriptWord(key: string, extend: boolean) {
+    const anchor = transcriptAnchorRef.current;
+    if (extend && anchor) {
+      const a = timelineWords.findIndex((w) => w.key === anchor);
+      const b = timelineWords.findIndex((w) => w.key === key);
+      if (a !== -1 && b !== -1) {
+        const [from, to] = a < b ? [a, b] : [b, a];
+        setTranscriptSelection(new Set(timelineWords.slice(from, to + 1).map((w) => w.key)));
+        return;
+      }
+    }
+    transcriptAnchorRef.current = key;
+    setTranscriptSelection((prev) => (prev.size === 1 && prev.has(key) ? new Set() : new Set([key])));
+  }
+
+  function deleteTranscriptSelection() {
+    const ranges = selectedWordRanges(timeline, timelineWords, transcriptSelection);
+    if (!ranges.length) return;
+    applyWithHistory({ timeline: removeClipSourceRanges(timeline, ranges), selectedClipId: null, selectedAudioClipId });
+  }
+
+  function deleteSentence(sentence: ProjectSentence) {
+    const next = removeClipSourceRanges(timeline, [{ clipId: sentence.clipId, start: sentence.start, end: sentence.end }]);
+    applyWithHistory({ timeline: next, selectedClipId: null, selectedAudioClipId });
+  }
+
+  // dir -1 swaps with the sentence before, +1 with the one after.
+  function moveSentence(idx: number, dir: -1 | 1) {
+    const [moving, anchor] = dir < 0 ? [timelineSentences[idx], timelineSentences[idx - 1]] : [timelineSentences[idx + 1], timelineSentences[idx]];
+    if (!moving || !anchor) return;
+    const next = moveSourceRangeBefore(timeline, moving, anchor);
+    if (!next) return;
+    applyWithHistory({ timeline: next, selectedClipId: null, selectedAudioClipId });
+  }
+
+  // ---- Levels ----
+  const canMatchLevels = timeline.clips.length > 0 && assets.some((a) => a.analysis?.loudness);
+
+  function matchLevels() {
+    const next = matchClipLoudness(timeline, assets);
+    if (next !== timeline) applyWithHistory({ timeline: next, selectedClipId, selectedAudioClipId });
+  }
+
+  // ---- Music bed (M1) ----
+  const musicAssets = useMemo(() => assets.filter((a) => a.hasAudio), [assets]);
+  const musicBed = timeline.music ? resolveMusicBed(timeline.music) : null;
+
+  function setMusicAsset(assetId: string) {
+    if (!assetsById.get(assetId)?.hasAudio) return;
+    const music: MusicBed = timeline.music
+      ? { ...timeline.music, assetId }
+      : { assetId, volume: 0.5, loop: true, fadeIn: 1, fadeOut: 2, ducking: DEFAULT_MUSIC_DUCKING };
+    applyWithHistory({ timeline: { ...timeline, music }, selectedClipId, selectedAudioClipId });
+    setMusicPanelOpen(true);
+  }
+
+  function patchMusic(patch: Partial<MusicBed>) {
+    if (!timeline.music) return;
+    applyWithHistory({ timeline: { ...timeline, music: { ...timeline.music, ...patch } }, selectedClipId, selectedAudioClipId });
+  }
+
+  function patchMusicLive(patch: Partial<MusicBed>) {
+    if (!timeline.music) return;
+    beginLiveEdit();
+    setTimeline((t) => (t.music ? { ...t, music: { ...t.music, ...patch } } : t));
+  }
+
+  function patchMusicDuckingLive(patch: Partial<MusicDucking>) {
+    if (!timeline.music) return;
+    beginLiveEdit();
+    setTimeline((t) => (t.music ? { ...t, music: { ...t.music, ducking: { ...(t.music.ducking ?? DEFAULT_MUSIC_DUCKING), ...patch } } } : t));
+  }
+
+  function removeMusic() {
+    if (!timeline.music) return;
+    applyWithHistory({ timeline: { ...timeline, music: null }, selectedClipId, selectedAudioClipId });
+  }
+
+  function removeFillers() {
+    if (!fillerCutRanges.length) return;
+    applyWithHistory({ timeline: removeClipSourceRanges(timeline, fillerCutRanges), selectedClipId: null, selectedAudioClipId });
+  }
+
+  // ---- Reframe (non-source export aspect) ----
+  useEffect(() => {
+    const el = viewportRef.current;
+    if (!el || typeof ResizeObserver === "undefined") return;
+    const ro = new ResizeObserver(() => setViewportSize({ width: el.clientWidth, height: el.clientHeight }));
+    ro.observe(el);
+    setViewportSize({ width: el.clientWidth, height: el.clientHeight });
+    return () => ro.disconnect();
+  }, []);
+
+  // The V1 clip under the playhead: the one whose reframe the export applies to what the preview shows.
+  const playheadClip = useMemo(() => {
+    const t = playheadProjectTime;
+    const last = timeline.clips[timeline.clips.length - 1];
+    return (
+      timeline.clips.find((c) => {
+        const start = offsets.get(c.id) ?? 0;
+        return t >= start && t < start + Math.max(0, c.sourceOut - c.sourceIn);
+      }) ?? (last && t >= duration ? last : null)
+    );
+  }, [timeline.clips, offsets, playheadProjectTime, duration]);
+
+  // Frame drawn over the preview, in viewport pixels. "crop" outlines the exported window;
+  // "blur" outlines the sharp foreground that gets letterboxed over the blurred fill.
+  const reframeOverlay = useMemo(() => {
+    if (exportAspectRatio(exportSettings.aspect) == null) return null;
+    if (!playerSrc || !playerVideoSize || !viewportSize) return null;
+    const { width: vw, height: vh } = playerVideoSize;
+    const scale = Math.min(viewportSize.width / vw, viewportSize.height / vh);
+    const dw = vw * scale;
+    const dh = vh * scale;
+    const dx = (viewportSize.width - dw) / 2;
+    const dy = (viewportSize.height - dh) / 2;
+    const clip = playheadClip ?? selectedClip;
+    const mode: ReframeMode = clip?.reframe === "blur" ? "blur" : "crop";
+    if (mode === "blur") return { mode, left: dx, top: dy, width: dw, height: dh };
+    const r = reframeCropRect(vw, vh, exportSettings.aspect, clip?.reframeFocusX);
+    return { mode, left: dx + r.x * dw, top: dy + r.y * dh, width: r.width * dw, height: r.height * dh };
+  }, [exportSettings.aspect, playerSrc, playerVideoSize, viewportSize, playheadClip, selectedClip]);
+
+  function setSelectedReframeMode(mode: ReframeMode) {
+    if (!selectedClip) return;
+    const next = updateClipById(timeline, selectedClip.id, { reframe: mode });
+    applyWithHistory({ timeline: next, selectedClipId: selectedClip.id, selectedAudioClipId });
+  }
+
+  function patchSelectedFocusLive(focusX: number) {
+    if (!selectedClip) return;
+    beginLiveEdit();
+    const clipId = selectedClip.id;
+    setTimeline((t) => updateClipById(t, clipId, { reframeFocusX: clampFocusX(focusX) }));
+  }
+
+  // A still's time on screen is its source range (see lib/assetKinds.ts).
+  function setSelectedStillSecondsLive(seconds: number) {
+    if (!selectedClip || !(seconds > 0)) return;
+    beginLiveEdit();
+    const clipId = selectedClip.id;
+    const sourceIn = selectedClip.sourceIn;
+    const sourceOut = sourceIn + clamp(seconds, 0.2, STILL_SOURCE_SECONDS - sourceIn);
+    setTimeline((t) => updateClipById(t, clipId, { sourceOut }));
+  }
+
+  // ---- Export ----
+  function trackExportJob(jobId: string | null) {
+    setExportJobId(jobId);
+    rememberExportJob(jobId);
+  }
+
+  // Resume a render that was still running when the page was reloaded.
+  useEffect(() => {
+    try {
+      const jobId = window.localStorage.getItem(EXPORT_JOB_KEY);
+      if (!jobId) return;
+      setExportJobId(jobId);
+      setIsExporting(true);
+    } catch {
+      // ignore
+    }
+  }, []);
+
+  // Poll the active export job until it finishes, fails or is canceled.
+  useEffect(() => {
+    if (!exportJobId) return;
+    let stopped = false;
+    let handle = 0;
+
+    const finish = (patch: { exportUrl?: string; sidecarUrls?: string[]; loudness?: ExportLoudnessReport | null; error?: string }) => {
+      if (patch.exportUrl) {
+        setExportUrl(patch.exportUrl);
+        setExportSidecarUrls(patch.sidecarUrls ?? []);
+        setExportLoudness(patch.loudness ?? null);
+      }
+      if (patch.error) setExportError(patch.error);
+      setExportProgress(0);
+      setIsExporting(false);
+      setExportJobId(null);
+      rememberExportJob(null);
+    };
+
+    const poll = async () => {
+      let job: ExportJobStatus;
+      try {
+        const res = await fetch(`/api/export/${encodeURIComponent(exportJobId)}`, { cache: "no-store" });
+        if (stopped) return;
+        if (res.status === 404) return finish({ error: "Export job was lost (the server may have restarted)." });
+        if (!res.ok) return finish({ error: (await res.text()) || "Export failed" });
+        job = (await res.json()) as ExportJobStatus;
+      } catch {
+        // Network hiccup: keep polling.
+        if (!stopped) handle = window.setTimeout(poll, 2000);
+        return;
+      }
+      if (stopped) return;
+
+      setExportProgress(job.progress);
+      if (job.state === "running") {
+        handle = window.setTimeout(poll, 1000);
+        return;
+      }
+      if (job.state === "done" && job.exportUrl) {
+        finish({ exportUrl: job.exportUrl, sidecarUrls: job.sidecarUrls, loudness: job.loudness });
+      }
+      else if (job.state === "failed") finish({ error: job.error ?? "Export failed" });
+      else finish({});
+    };
+
+    void poll();
+    return () => {
+      stopped = true;
+      window.clearTimeout(handle);
+    };
+  }, [exportJobId]);
+
+  async function cancelExport() {
+    const jobId = exportJobId;
+    if (!jobId) return;
+    trackExportJob(null);
+    setIsExporting(false);
+    setExportProgress(0);
+    try {
+      await fetch(`/api/export/${encodeURIComponent(jobId)}`, { method: "DELETE" });
+    } catch {
+      // ignore
+    }
+  }
+
+  const exportSpec = EXPORT_FORMATS[exportSettings.format];
+  const exportSettingsError = useMemo(() => {
+    const trackVolume = Number.isFinite(timeline.trackAudioVolume as any) ? (timeline.trackAudioVolume as number) : 1;
+    // A music bed still gives the export an audio track.
+    const musicOn = Boolean(timeline.music && !timeline.music.muted && (timeline.music.volume ?? 1) > 0.0001);
+    const audioMuted = (Boolean(timeline.trackAudioMuted) || trackVolume <= 0.0001) && !musicOn;
+    return exportOptionsError(exportSettings.format, {
+      resolution: exportSettings.resolution,
+      audioMuted,
+      captions: exportSettings.captions,
+      hasCaptions: Boolean(timeline.captions?.some((c) => c.text.trim())),
+      loudness: exportSettings.loudness,
+      customLufs: exportSettings.customLufs
     });
+  }, [exportSettings, timeline.trackAudioMuted, timeline.trackAudioVolume, timeline.captions, timeline.music]);
+
+  function setExportFormat(format: ExportFormat) {
+    const coerced = coerceExportOptions(format, exportSettings);
+    setExportSettings({ ...exportSettings, format, ...coerced });
   }
 
-  // ---- Export ----
   async function onExport() {
-    if (timeline.clips.length === 0) return;
+    if (timeline.clips.length === 0 || exportSettingsError) return;
     setIsExporting(true);
     setExportError(null);
     setExportUrl(null);
+    setExportProgress(0);
     try {
       const res = await fetch("/api/export", {
         method: "POST",
         headers: { "content-type": "application/json" },
         body: JSON.stringify({
-          assets: assets.map((a) => ({ assetId: a.assetId, videoUrl: a.videoUrl })),
+          assets: assets.map((a) => ({ assetId: a.assetId, videoUrl: a.videoUrl, kind: assetKind(a) })),
           timeline,
           resolution: exportSettings.resolution,
-          format: exportSettings.format
+          format: exportSettings.format,
+          aspect: exportSettings.aspect,
+          captions: { mode: exportSettings.captions, style: exportSettings.captionStyle },
+          loudness: { target: exportSettings.loudness, lufs: exportSettings.customLufs }
         })
       });
       if (!res.ok) throw new Error(await res.text());
-      const data = (await res.json()) as { exportUrl: string };
-      setExportUrl(data.exportUrl);
+      const job = (await res.json()) as ExportJobStatus;
+      trackExportJob(job.jobId);
     } catch (e: any) {
       setExportError(e?.message ?? "Export failed");
-    } finally {
       setIsExporting(false);
     }
   }
@@ -1282,6 +2173,7 @@ export default function StudioPage() {
     const bg = bgVideoRef.current;
     if (bg) bg.pause();
     pauseAllUnlinkedAudio();
+    musicElRef.current?.pause();
     switchingRef.current = false;
   }
 
@@ -1375,6 +2267,61 @@ export default function StudioPage() {
     return () => window.cancelAnimationFrame(raf);
   }, [isPreviewing, timeline.audioLinked, timeline.trackAudioMuted, timeline.audioClips, assetsById]);
 
+  // While previewing, play the music bed from the project playhead. Ducking is approximated from A1's measured
+  // loudness (see dialogueActiveAt); the export does it properly with a sidechain compressor.
+  useEffect(() => {
+    const bed = timeline.music ? resolveMusicBed(timeline.music) : null;
+    const asset = bed ? assetsById.get(bed.assetId) : null;
+    if (!isPreviewing || !bed || bed.muted || !asset?.hasAudio) {
+      musicElRef.current?.pause();
+      musicDuckDbRef.current = 0;
+      return;
+    }
+    if (!musicElRef.current) {
+      const created = new Audio();
+      created.preload = "auto";
+      created.crossOrigin = "anonymous";
+      musicElRef.current = created;
+    }
+    const el = musicElRef.current;
+    const src = previewSrc(asset);
+    if (!el.src || !el.src.endsWith(src)) {
+      el.src = src;
+      el.load?.();
+    }
+    el.loop = bed.loop;
+    const songLen = Number.isFinite(asset.durationSeconds) && asset.durationSeconds > 0 ? asset.durationSeconds : Number.POSITIVE_INFINITY;
+    const playLen = bed.loop ? duration : Math.min(duration, songLen);
+
+    let raf = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const dt = Math.max(0, now - last);
+      last = now;
+      const t = playheadRef.current;
+      if (t >= playLen) {
+        el.pause();
+      } else {
+        const desired = bed.loop && Number.isFinite(songLen) ? t % songLen : t;
+        if (Number.isFinite(el.currentTime) && Math.abs(el.currentTime - desired) > 0.25) {
+          try {
+            el.currentTime = desired;
+          } catch {}
+        }
+        // One-pole smoothing towards the target reduction, at the attack or release speed.
+        const target = bed.ducking.enabled && dialogueActiveAt(timeline, assetsById, t) ? bed.ducking.depthDb : 0;
+        const ms = target > musicDuckDbRef.current ? bed.ducking.attackMs : bed.ducking.releaseMs;
+        musicDuckDbRef.current += (target - musicDuckDbRef.current) * (1 - Math.exp(-dt / ms));
+        const g = fadeGain(bed.fadeIn, bed.fadeOut, t, playLen);
+        el.volume = clamp((bed.volume * g * dbToGain(-musicDuckDbRef.current)) / 2, 0, 1);
+        if (el.paused) el.play().catch(() => {});
+      }
+      raf = window.requestAnimationFrame(tick);
+    };
+    raf = window.requestAnimationFrame(tick);
+    return () => window.cancelAnimationFrame(raf);
+  }, [isPreviewing, timeline, assetsById, duration, previewOriginals]);
+
   // Keep playhead visible while playing through the timeline.
   useEffect(() => {
     const el = stripRef.current;
@@ -1548,7 +2495,7 @@ export default function StudioPage() {
     const snapPoints = snapPointsByAssetId.get(clip.assetId);
     const fg = videoRef.current;
     const playheadSourceTime =
-      fg && asset && fg.currentSrc && fg.currentSrc.endsWith(asset.videoUrl) ? Number(fg.currentTime || 0) : null;
+      fg && asset && fg.currentSrc && fg.currentSrc.endsWith(previewSrc(asset)) ? Number(fg.currentTime || 0) : null;
     const doSnap = snappingEnabled && !altDownRef.current;
 
     let nextIn = clip.sourceIn;
@@ -1638,7 +2585,7 @@ export default function StudioPage() {
           const seekTo = c.sourceIn + within;
           const fg = videoRef.current;
           const bg2 = bgVideoRef.current;
-          if (fg && fg.currentSrc && fg.currentSrc.endsWith(asset.videoUrl)) {
+          if (fg && fg.currentSrc && fg.currentSrc.endsWith(previewSrc(asset))) {
             fg.currentTime = clamp(seekTo, 0, Number.isFinite(fg.duration) ? fg.duration : seekTo);
             if (bg2) bg2.currentTime = clamp(seekTo, 0, Number.isFinite(bg2.duration) ? bg2.duration : seekTo);
             return;
@@ -1672,12 +2619,186 @@ export default function StudioPage() {
         <div className="filePill">
           <span className={`statusDot ${assets.length ? "on" : ""}`} aria-hidden="true" />
           <div>
-            <div className="fileTitle">{assets.length ? "ClipGenius Studio" : "No project yet"}</div>
-            <div className="fileSub">{assets.length ? `${assets.length} assets • ${timeline.clips.length} timeline clips` : "Upload clips to start"}</div>
+            <div className="fileTitle">{project?.name ?? (assets.length ? "ClipGenius Studio" : "No project yet")}</div>
+            <div className="fileSub">
+              {assets.length ? `${assets.length} assets • ${timeline.clips.length} timeline clips` : "Upload clips to start"}
+              {projectSync === "saving" ? " • Saving…" : projectSync === "saved" ? " • Saved" : projectSync === "offline" ? " • Not synced (kept in this browser)" : ""}
+            </div>
           </div>
         </div>
 
         <div className="topActions">
+          <div className="projectPicker">
+            <button className="btn ghost" onClick={toggleProjectPicker} aria-expanded={Boolean(projectList)}>
+              Projects
+            </button>
+            {projectList ? (
+              <div className="projectMenu" role="dialog" aria-label="Projects">
+                {project ? (
+                  <label className="field">
+                    <span>Project name</span>
+                    <input
+                      key={project.id}
+                      defaultValue={project.name}
+                      onBlur={(e) => void renameProject(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") (e.target as HTMLInputElement).blur();
+                      }}
+                    />
+                  </label>
+                ) : null}
+                <button className="btn ghost full" type="button" onClick={newProject}>
+                  New project
+                </button>
+                {projectListError ? <div className="hint">{projectListError}</div> : null}
+                <div className="projectList" role="list">
+                  {projectList.map((p) => (
+                    <div key={p.id} className={`projectRow ${p.id === project?.id ? "isCurrent" : ""}`} role="listitem">
+                      <button type="button" className="projectOpen" onClick={() => void openProject(p.id)}>
+                        <span className="projectName">{p.name}</span>
+                        <span className="projectMeta">
+                          {p.clipCount} clips • rev {p.revision} • {new Date(p.updatedAt).toLocaleString()}
+                        </span>
+                      </button>
+                      <button type="button" className="projectDelete" aria-label={`Delete ${p.name}`} onClick={() => void deleteProjectById(p.id)}>
+                        ×
+                      </button>
+                    </div>
+                  ))}
+                  {projectList.length === 0 && !projectListError ? <div className="binEmpty">No saved projects yet.</div> : null}
+                </div>
+              </div>
+            ) : null}
+          </div>
+          <div className="projectPicker">
+            <button className="btn ghost" onClick={toggleHistory} aria-expanded={historyOpen}>
+              History
+            </button>
+            {historyOpen ? (
+              <div className="projectMenu historyMenu" role="dialog" aria-label="Project history">
+                {!project ? (
+                  <div className="hint">Snapshots are available once the project has been saved to the server.</div>
+                ) : (
+                  <>
+                    <div className="snapshotForm">
+                      <input
+                        value={snapshotName}
+                        placeholder="Snapshot name, e.g. v1 for client review"
+                        onChange={(e) => setSnapshotName(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") void saveNamedSnapshot();
+                        }}
+                      />
+                      <button className="btn primary" type="button" onClick={() => void saveNamedSnapshot()}>
+                        Save snapshot
+                      </button>
+                    </div>
+                    {historyError ? <div className="hint">{historyError}</div> : null}
+                    <div className="projectList" role="list">
+                      {snapshots.map((snap) => (
+                        <div
+                          key={snap.id}
+                          className={`projectRow snapshotRow ${snap.id === compareFrom || snap.id === compareTo ? "isCurrent" : ""}`}
+                          role="listitem"
+                        >
+                          <button
+                            type="button"
+                            className="projectOpen"
+                            title="Compare with the current cut"
+                            onClick={() => {
+                              setCompareFrom(snap.id);
+                              setCompareTo("current");
+                            }}
+                          >
+                            <span className="projectName">{snap.name}</span>
+                            <span className="projectMeta">
+                              rev {snap.revision} • {snap.clipCount} clips • {fmt(snap.durationSeconds)} • {new Date(snap.createdAt).toLocaleString()}
+                            </span>
+                          </button>
+                          <button type="button" className="projectAction" onClick={() => void restoreSnapshot(snap)}>
+                            Restore
+                          </button>
+                          <button
+                            type="button"
+                            className="projectDelete"
+                            aria-label={`Delete snapshot ${snap.name}`}
+                            onClick={() => void deleteSnapshotById(snap.id)}
+                          >
+                            ×
+                          </button>
+                        </div>
+                      ))}
+                      {snapshots.length === 0 && !historyError ? <div className="binEmpty">No snapshots yet.</div> : null}
+                    </div>
+                    {snapshots.length ? (
+                      <div className="historyCompare">
+                        <label className="field">
+                          <span>From</span>
+                          <select value={compareFrom} onChange={(e) => setCompareFrom(e.target.value)}>
+                            <option value="current">Current cut</option>
+                            {snapshots.map((snap) => (
+                              <option key={snap.id} value={snap.id}>
+                                {snap.name} (rev {snap.revision})
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                        <label className="field">
+                          <span>To</span>
+                          <select value={compareTo} onChange={(e) => setCompareTo(e.target.value)}>
+                            <option value="current">Current cut</option>
+                            {snapshots.map((snap) => (
+                              <option key={snap.id} value={snap.id}>
+                                {snap.name} (rev {snap.revision})
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                      </div>
+                    ) : null}
+                    {snapshots.length && compareFrom !== compareTo ? (
+                      !historyDiff ? (
+                        <div className="hint">Loading snapshot…</div>
+                      ) : isEmptyDiff(historyDiff) ? (
+                        <div className="hint">No clip changes between these two.</div>
+                      ) : (
+                        <div className="historyDiff">
+                          <div className="historyDiffSummary">
+                            +{historyDiff.added.length} added • −{historyDiff.removed.length} removed • {historyDiff.retimed.length} retimed
+                            {historyDiff.reordered ? " • reordered" : ""} • {fmt(historyDiff.durationBefore)} → {fmt(historyDiff.durationAfter)}
+                            {historyDiff.captionsBefore !== historyDiff.captionsAfter
+                              ? ` • captions ${historyDiff.captionsBefore} → ${historyDiff.captionsAfter}`
+                              : ""}
+                          </div>
+                          <ul className="historyDiffList">
+                            {historyDiff.added.map((c) => (
+                              <li key={`a:${c.track}:${c.id}`} className="diffAdded">
+                                + {c.label} {c.track === "audio" ? "(A1) " : ""}
+                                {c.sourceIn.toFixed(1)}–{c.sourceOut.toFixed(1)}s
+                              </li>
+                            ))}
+                            {historyDiff.removed.map((c) => (
+                              <li key={`r:${c.track}:${c.id}`} className="diffRemoved">
+                                − {c.label} {c.track === "audio" ? "(A1) " : ""}
+                                {c.sourceIn.toFixed(1)}–{c.sourceOut.toFixed(1)}s
+                              </li>
+                            ))}
+                            {historyDiff.retimed.map((c) => (
+                              <li key={`t:${c.track}:${c.id}`} className="diffRetimed">
+                                ~ {c.label} {c.track === "audio" ? "(A1) " : ""}
+                                {c.before.sourceIn.toFixed(1)}–{c.before.sourceOut.toFixed(1)}s → {c.after.sourceIn.toFixed(1)}–
+                                {c.after.sourceOut.toFixed(1)}s
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )
+                    ) : null}
+                  </>
+                )}
+              </div>
+            ) : null}
+          </div>
           <button className="btn ghost" onClick={undo} disabled={past.length === 0} aria-label="Undo">
             Undo
           </button>
@@ -1687,8 +2808,21 @@ export default function StudioPage() {
           <button className="btn ghost" onClick={downloadProjectJson} disabled={assets.length === 0 && timeline.clips.length === 0}>
             Save
           </button>
-          <button className="btn ghost" onClick={() => projectFileInputRef.current?.click()}>
-            Load
+          <button
+            className="btn ghost"
+            onClick={downloadProjectBundle}
+            disabled={assets.length === 0 || bundleBusy !== null}
+            title="Download the project with its media as a .zip"
+          >
+            {bundleBusy === "export" ? "Bundling…" : "Bundle"}
+          </button>
+          <button
+            className="btn ghost"
+            onClick={() => projectFileInputRef.current?.click()}
+            disabled={bundleBusy !== null}
+            title="Open a project .json or .zip bundle"
+          >
+            {bundleBusy === "import" ? "Unpacking…" : "Load"}
           </button>
           <button className="btn ghost" onClick={() => fileInputRef.current?.click()} disabled={isUploading}>
             {isUploading ? "Importing…" : "Import"}
@@ -1697,7 +2831,7 @@ export default function StudioPage() {
             ref={fileInputRef}
             className="fileInput"
             type="file"
-            accept="video/*"
+            accept={IMPORT_ACCEPT}
             multiple
             onChange={(e) => onPickFiles(e.target.files)}
           />
@@ -1705,7 +2839,7 @@ export default function StudioPage() {
             ref={projectFileInputRef}
             className="fileInput"
             type="file"
-            accept="application/json"
+            accept="application/json,.json,application/zip,.zip"
             onChange={(e) => {
               const f = e.target.files?.[0];
               if (f) loadProjectFromFile(f);
@@ -1716,15 +2850,56 @@ export default function StudioPage() {
       </header>
 
       {uploadError ? <div className="alert" role="alert">{uploadError}</div> : null}
+      {fileReport ? (
+        <div className="alert fileReport" role="alert">
+          <div className="fileReportHead">
+            <span>{fileReport.title}</span>
+            <button className="btn ghost" type="button" onClick={() => setFileReport(null)}>
+              Dismiss
+            </button>
+          </div>
+          <ul>
+            {fileReport.lines.map((line, i) => (
+              <li key={i}>{line}</li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+      {projectConflict ? (
+        <div className="alert conflictAlert" role="alert">
+          <span>
+            This project was saved somewhere else (revision {projectConflict.revision}, {new Date(projectConflict.updatedAt).toLocaleTimeString()}).
+            Autosave is paused.
+          </span>
+          <button className="btn ghost" type="button" onClick={() => showProjectRecord(projectConflict)}>
+            Load saved version
+          </button>
+          <button className="btn ghost" type="button" onClick={keepLocalProjectVersion}>
+            Keep mine
+          </button>
+        </div>
+      ) : null}
 
       <section className="shell">
         <aside className="sidebar" aria-label="Library">
           <div className="sideTitle">Library</div>
           <div className="sideNav" role="list">
-            <button className="sideItem isActive" type="button" role="listitem">
+            <button
+              className={`sideItem${libraryTab === "footage" ? " isActive" : ""}`}
+              type="button"
+              role="listitem"
+              aria-pressed={libraryTab === "footage"}
+              onClick={() => setLibraryTab("footage")}
+            >
               Footage
             </button>
-            <button className="sideItem" type="button" role="listitem" disabled>
+            <button
+              className={`sideItem${libraryTab === "audio" ? " isActive" : ""}`}
+              type="button"
+              role="listitem"
+              aria-pressed={libraryTab === "audio"}
+              onClick={() => setLibraryTab("audio")}
+            >
               Audio
             </button>
             <button className="sideItem" type="button" role="listitem" disabled>
@@ -1740,49 +2915,162 @@ export default function StudioPage() {
 
           <div className="sideBin">
             <div className="sideBinHead">
-              <div className="sideBinTitle">Clips</div>
-              <div className="sideBinMeta">{assets.length ? String(assets.length) : "—"}</div>
+              <div className="sideBinTitle">{libraryTab === "audio" ? "Audio" : "Clips"}</div>
+              <div className="sideBinMeta">{libraryAssets.length ? String(libraryAssets.length) : "—"}</div>
             </div>
+            <input
+              className="binSearch"
+              type="search"
+              placeholder="Search names & transcripts"
+              aria-label="Search library"
+              value={libraryQuery}
+              onChange={(e) => setLibraryQuery(e.target.value)}
+            />
+            {uploads.length ? (
+              <div className="uploadList" role="list" aria-label="Uploads">
+                {uploads.map((u) => (
+                  <div key={u.key} className={`uploadItem is-${u.state}`} role="listitem" title={u.error}>
+                    <div className="uploadItemHead">
+                      <span className="uploadName">{u.name}</span>
+                      <span className="uploadState">
+                        {u.state === "uploading"
+                          ? `${Math.floor((u.loaded / Math.max(1, u.total)) * 100)}%`
+                          : u.state === "processing"
+                            ? "Finishing…"
+                            : u.state === "done"
+                              ? "Done"
+                              : "Failed"}
+                      </span>
+                    </div>
+                    <div className="uploadBar">
+                      <div className="uploadBarFill" style={{ width: pct(u.loaded / Math.max(1, u.total)) }} />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : null}
             <div className="sideBinBody">
-              {assets.map((a) => (
-                <div key={a.assetId} className="binRow">
-                  <button
-                    type="button"
-                    className="binClip"
-                    draggable
-                    onDragStart={(e) => {
-                      const payload: DragPayload = { kind: "asset", assetId: a.assetId };
-                      beginDrag(payload);
-                      setDragData(e, payload);
-                    }}
-                    onDragEnd={endDrag}
-                    onClick={() => {
-                      // Seek player to start of this asset for preview convenience.
-                      ensurePlayerOnAsset(a, 0, false);
-                    }}
-                    title={a.name}
-                  >
-                    <div className="binClipTitle">{cleanName(a.name)}</div>
-                    <div className="binClipSub">{a.durationSeconds ? fmt(a.durationSeconds) : "—"} • Video</div>
-                  </button>
-                  <button
-                    type="button"
-                    className="binAdd"
-                    title="Add to timeline"
-                    onClick={() => {
-                      if (!a.durationSeconds) return;
-                      const clip = makeClipFromAsset(a);
-                      if (!clip) return;
-                      applyWithHistory({ timeline: { ...timeline, clips: [...timeline.clips, clip] }, selectedClipId: clip.id });
-                      // Immediately show this clip in the preview (without starting playback).
-                      void ensurePlayerOnAsset(a, 0, false);
-                    }}
-                  >
-                    +
-                  </button>
+              {(libraryResults ?? libraryAssets.map((asset) => ({ asset, hits: [] as TranscriptHit[] }))).map(({ asset: a, hits }) => (
+                <div key={a.assetId} className="binItem">
+                  <div className="binRow">
+                    <button
+                      type="button"
+                      className="binClip"
+                      draggable
+                      onDragStart={(e) => {
+                        const payload: DragPayload = { kind: "asset", assetId: a.assetId };
+                        beginDrag(payload);
+                        setDragData(e, payload);
+                      }}
+                      onDragEnd={endDrag}
+                      onClick={() => {
+                        // Seek player to start of this asset for preview convenience.
+                        ensurePlayerOnAsset(a, 0, false);
+                      }}
+                      title={a.name}
+                    >
+                      {a.thumbnails ? (
+                        <div className="binFilmstrip" aria-hidden="true">
+                          {Array.from({ length: BIN_FILMSTRIP_FRAMES }, (_, i) => (
+                            <div
+                              key={i}
+                              className="binFrame"
+                              style={spriteFrameStyle(a.thumbnails!, ((i + 0.5) / BIN_FILMSTRIP_FRAMES) * a.durationSeconds)}
+                            />
+                          ))}
+                        </div>
+                      ) : null}
+                      <div className="binClipTitle">{cleanName(a.name)}</div>
+                      <div className="binClipSub">
+                        {assetKind(a) === "image" ? "Still" : `${a.durationSeconds ? fmt(a.durationSeconds) : "—"} • ${assetKind(a) === "audio" ? "Audio" : "Video"}`}
+                        {a.analysis?.loudness ? ` • ${a.analysis.loudness.integratedLufs.toFixed(0)} LUFS` : ""}
+                        {a.analysis?.transcript?.words.length ? " • Transcript" : ""}
+                        {a.analysisJobId ? (
+                          <span className="binAnalyzing"> • Analyzing{analysisStages[a.analysisJobId] ? ` (${ANALYSIS_STAGE_LABELS[analysisStages[a.analysisJobId]]})` : ""}…</span>
+                        ) : null}
+                        {a.sourceHash && (assetsBySourceHash.get(a.sourceHash)?.length ?? 0) > 1 ? (
+                          <span
+                            className="binShared"
+                            title={`Same source file as: ${assetsBySourceHash
+                              .get(a.sourceHash)!
+                              .filter((b) => b.assetId !== a.assetId)
+                              .map((b) => cleanName(b.name))
+                              .join(", ")}`}
+                          >
+                            {" "}
+                            • Shared source
+                          </span>
+                        ) : null}
+                      </div>
+                    </button>
+                    <button
+                      type="button"
+                      className="binAdd"
+                      title={assetKind(a) === "audio" ? "Use as music" : "Add to timeline"}
+                      onClick={() => {
+                        if (!a.durationSeconds) return;
+                        if (assetKind(a) === "audio") {
+                          setMusicAsset(a.assetId);
+                          return;
+                        }
+                        const clip = makeClipFromAsset(a);
+                        if (!clip) return;
+                        applyWithHistory({ timeline: { ...timeline, clips: [...timeline.clips, clip] }, selectedClipId: clip.id });
+                        // Immediately show this clip in the preview (without starting playback).
+                        void ensurePlayerOnAsset(a, 0, false);
+                      }}
+                    >
+                      +
+                    </button>
+                    <button type="button" className="binRemove" title="Remove from Library" onClick={() => void removeAsset(a)}>
+                      ×
+                    </button>
+                  </div>
+                  {hits.length ? (
+                    <div className="transcriptHits" role="list" aria-label="Transcript matches">
+                      {hits.map((h) => (
+                        <button
+                          key={h.wordIndex}
+                          type="button"
+                          className="transcriptHit"
+                          role="listitem"
+                          onClick={() => void ensurePlayerOnAsset(a, h.start, false)}
+                        >
+                          <span className="transcriptHitTime">{fmt(h.start)}</span> {h.snippet}
+                        </button>
+                      ))}
+                    </div>
+                  ) : null}
+                  {!libraryResults && a.analysis?.transcript?.words.length ? (
+                    <button
+                      type="button"
+                      className="transcriptToggle"
+                      aria-expanded={transcriptAssetId === a.assetId}
+                      onClick={() => setTranscriptAssetId((id) => (id === a.assetId ? null : a.assetId))}
+                    >
+                      {transcriptAssetId === a.assetId ? "Hide transcript" : "Show transcript"}
+                    </button>
+                  ) : null}
+                  {!libraryResults && transcriptAssetId === a.assetId && a.analysis?.transcript ? (
+                    <div
+                      className="transcriptView"
+                      onClick={(e) => {
+                        // Click a word to preview from there.
+                        const t = Number((e.target as HTMLElement).dataset?.start);
+                        if (Number.isFinite(t)) void ensurePlayerOnAsset(a, t, false);
+                      }}
+                    >
+                      {a.analysis.transcript.words.map((w, i) => (
+                        <span key={i} data-start={w.start} title={fmt(w.start)}>
+                          {w.text}{" "}
+                        </span>
+                      ))}
+                    </div>
+                  ) : null}
                 </div>
               ))}
               {assets.length === 0 ? <div className="binEmpty">Import a few clips to start building.</div> : null}
+              {assets.length > 0 && libraryResults?.length === 0 ? <div className="binEmpty">No matches.</div> : null}
             </div>
           </div>
         </aside>
@@ -1790,7 +3078,7 @@ export default function StudioPage() {
         <section className="center">
           <section className="playerCard">
             <div className="player">
-              <div className="playerViewport" aria-label="Preview">
+              <div className="playerViewport" aria-label="Preview" ref={viewportRef}>
                 {playerSrc ? (
                   <div className="playerStack">
                     <video
@@ -1853,6 +3141,27 @@ export default function StudioPage() {
                     <div className="bigPlay" aria-hidden="true" />
                   </div>
                 )}
+                {activeCaption && playerSrc ? (
+                  <div className={`captionOverlay ${exportSettings.captionStyle}`} aria-live="polite">
+                    <span>{activeCaption.text}</span>
+                  </div>
+                ) : null}
+                {reframeOverlay ? (
+                  <div
+                    className={`reframeFrame ${reframeOverlay.mode}`}
+                    style={{
+                      left: `${reframeOverlay.left.toFixed(1)}px`,
+                      top: `${reframeOverlay.top.toFixed(1)}px`,
+                      width: `${reframeOverlay.width.toFixed(1)}px`,
+                      height: `${reframeOverlay.height.toFixed(1)}px`
+                    }}
+                    aria-hidden="true"
+                  >
+                    <span className="reframeTag">
+                      {exportSettings.aspect} {reframeOverlay.mode === "blur" ? "letterbox" : "crop"}
+                    </span>
+                  </div>
+                ) : null}
               </div>
             </div>
 
@@ -1886,11 +3195,278 @@ export default function StudioPage() {
               </button>
 
               <button className="tool" disabled>Transitions</button>
-              <button className="tool" disabled>Music</button>
-              <button className="tool" disabled>Captions</button>
+              <button
+                type="button"
+                className={`tool ${musicPanelOpen ? "on" : ""}`}
+                onClick={() => setMusicPanelOpen((v) => !v)}
+                aria-pressed={musicPanelOpen}
+                title="Music bed: one track under the whole cut that ducks under dialogue"
+              >
+                Music
+              </button>
+              <button className="tool" onClick={addCaptionAtPlayhead} disabled={timeline.clips.length === 0}>
+                Captions
+              </button>
+              <button
+                className="tool"
+                onClick={matchLevels}
+                disabled={!canMatchLevels}
+                title="Set clip volumes so every clip plays at the same measured loudness"
+              >
+                Match levels
+              </button>
+
+              <button
+                type="button"
+                className={`tool ${previewOriginals ? "on" : ""}`}
+                onClick={() => setPreviewOriginals((v) => !v)}
+                aria-pressed={previewOriginals}
+                title={previewOriginals ? "Preview the lightweight proxies" : "Preview full-size originals (slower to scrub)"}
+              >
+                Originals
+              </button>
 
               <div className="toolHint">Drag clip edges in the bottom timeline to trim.</div>
             </div>
+
+            {selectedClip && selectedAsset && assetKind(selectedAsset) === "image" ? (
+              <div className="trimRow" aria-label="Still">
+                <div className="trimField">
+                  <label htmlFor="stillSeconds">Still duration (s)</label>
+                  <input
+                    id="stillSeconds"
+                    type="number"
+                    min={0.2}
+                    max={STILL_SOURCE_SECONDS}
+                    step={0.5}
+                    value={Number((selectedClip.sourceOut - selectedClip.sourceIn).toFixed(2))}
+                    onChange={(e) => setSelectedStillSecondsLive(Number(e.target.value))}
+                    onBlur={commitLiveEdit}
+                  />
+                </div>
+                <div className="trimHint">{selectedClip.label}</div>
+              </div>
+            ) : null}
+
+            {exportSettings.aspect !== "source" && selectedClip ? (
+              <div className="trimRow" aria-label="Reframe">
+                <div className="trimField">
+                  <label htmlFor="reframeMode">Reframe ({exportSettings.aspect})</label>
+                  <select
+                    id="reframeMode"
+                    value={selectedClip.reframe === "blur" ? "blur" : "crop"}
+                    onChange={(e) => setSelectedReframeMode(e.target.value as ReframeMode)}
+                  >
+                    <option value="crop">Crop to fill</option>
+                    <option value="blur">Blurred letterbox</option>
+                  </select>
+                </div>
+                <div className="trimField grow">
+                  <label htmlFor="reframeFocus">Horizontal focus</label>
+                  <input
+                    id="reframeFocus"
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    value={clampFocusX(selectedClip.reframeFocusX)}
+                    disabled={selectedClip.reframe === "blur"}
+                    onChange={(e) => patchSelectedFocusLive(Number(e.target.value))}
+                    onPointerUp={commitLiveEdit}
+                    onKeyUp={commitLiveEdit}
+                    onBlur={commitLiveEdit}
+                  />
+                </div>
+                <div className="trimHint">{selectedClip.label}</div>
+              </div>
+            ) : null}
+
+            {musicPanelOpen ? (
+              <div className="trimRow" aria-label="Music bed">
+                <div className="trimField">
+                  <label htmlFor="musicAsset">Music (M1)</label>
+                  <select id="musicAsset" value={musicBed?.assetId ?? ""} onChange={(e) => setMusicAsset(e.target.value)}>
+                    <option value="" disabled>
+                      {musicAssets.length ? "Choose a track…" : "No assets with audio"}
+                    </option>
+                    {musicAssets.map((a) => (
+                      <option key={a.assetId} value={a.assetId}>
+                        {cleanName(a.name)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {musicBed ? (
+                  <>
+                    <div className="trimField">
+                      <label htmlFor="musicVolume">Volume ({Math.round(musicBed.volume * 100)}%)</label>
+                      <input
+                        id="musicVolume"
+                        type="range"
+                        min={0}
+                        max={2}
+                        step={0.01}
+                        value={musicBed.volume}
+                        onChange={(e) => patchMusicLive({ volume: Number(e.target.value) })}
+                        onPointerUp={commitLiveEdit}
+                        onKeyUp={commitLiveEdit}
+                        onBlur={commitLiveEdit}
+                      />
+                    </div>
+                    <div className="trimField">
+                      <label htmlFor="musicFadeIn">Fade in (s)</label>
+                      <input
+                        id="musicFadeIn"
+                        type="number"
+                        min={0}
+                        max={60}
+                        step={0.5}
+                        value={musicBed.fadeIn}
+                        onChange={(e) => patchMusicLive({ fadeIn: clamp(Number(e.target.value) || 0, 0, 60) })}
+                        onBlur={commitLiveEdit}
+                      />
+                    </div>
+                    <div className="trimField">
+                      <label htmlFor="musicFadeOut">Fade out (s)</label>
+                      <input
+                        id="musicFadeOut"
+                        type="number"
+                        min={0}
+                        max={60}
+                        step={0.5}
+                        value={musicBed.fadeOut}
+                        onChange={(e) => patchMusicLive({ fadeOut: clamp(Number(e.target.value) || 0, 0, 60) })}
+                        onBlur={commitLiveEdit}
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      className={`tool ${musicBed.loop ? "on" : ""}`}
+                      onClick={() => patchMusic({ loop: !musicBed.loop })}
+                      aria-pressed={musicBed.loop}
+                      title={musicBed.loop ? "Loop to the end of the cut" : "Play once, then silence"}
+                    >
+                      Loop
+                    </button>
+                    <button
+                      type="button"
+                      className={`tool ${musicBed.muted ? "on" : ""}`}
+                      onClick={() => patchMusic({ muted: !musicBed.muted })}
+                      aria-pressed={musicBed.muted}
+                    >
+                      Mute
+                    </button>
+                    <button
+                      type="button"
+                      className={`tool ${musicBed.ducking.enabled ? "on" : ""}`}
+                      onClick={() => patchMusic({ ducking: { ...musicBed.ducking, enabled: !musicBed.ducking.enabled } })}
+                      aria-pressed={musicBed.ducking.enabled}
+                      title="Lower the music while someone is talking on A1"
+                    >
+                      Duck
+                    </button>
+                    <div className="trimField">
+                      <label htmlFor="musicDuckDepth">Depth ({musicBed.ducking.depthDb.toFixed(0)} dB)</label>
+                      <input
+                        id="musicDuckDepth"
+                        type="range"
+                        min={0}
+                        max={MUSIC_DUCK_MAX_DB}
+                        step={1}
+                        value={musicBed.ducking.depthDb}
+                        disabled={!musicBed.ducking.enabled}
+                        onChange={(e) => patchMusicDuckingLive({ depthDb: Number(e.target.value) })}
+                        onPointerUp={commitLiveEdit}
+                        onKeyUp={commitLiveEdit}
+                        onBlur={commitLiveEdit}
+                      />
+                    </div>
+                    <div className="trimField">
+                      <label htmlFor="musicAttack">Attack (ms)</label>
+                      <input
+                        id="musicAttack"
+                        type="number"
+                        min={MUSIC_ATTACK_MS.min}
+                        max={MUSIC_ATTACK_MS.max}
+                        step={10}
+                        value={timeline.music?.ducking?.attackMs ?? musicBed.ducking.attackMs}
+                        disabled={!musicBed.ducking.enabled}
+                        onChange={(e) => patchMusicDuckingLive({ attackMs: Number(e.target.value) || 0 })}
+                        onBlur={() => {
+                          // Typed values are clamped once the field is left.
+                          if (timeline.music?.ducking?.attackMs !== musicBed.ducking.attackMs) patchMusicDuckingLive({ attackMs: musicBed.ducking.attackMs });
+                          commitLiveEdit();
+                        }}
+                      />
+                    </div>
+                    <div className="trimField">
+                      <label htmlFor="musicRelease">Release (ms)</label>
+                      <input
+                        id="musicRelease"
+                        type="number"
+                        min={MUSIC_RELEASE_MS.min}
+                        max={MUSIC_RELEASE_MS.max}
+                        step={50}
+                        value={timeline.music?.ducking?.releaseMs ?? musicBed.ducking.releaseMs}
+                        disabled={!musicBed.ducking.enabled}
+                        onChange={(e) => patchMusicDuckingLive({ releaseMs: Number(e.target.value) || 0 })}
+                        onBlur={() => {
+                          if (timeline.music?.ducking?.releaseMs !== musicBed.ducking.releaseMs) patchMusicDuckingLive({ releaseMs: musicBed.ducking.releaseMs });
+                          commitLiveEdit();
+                        }}
+                      />
+                    </div>
+                    <button className="tool" type="button" onClick={removeMusic}>
+                      Remove
+                    </button>
+                  </>
+                ) : (
+                  <div className="trimHint">Pick a track, or drop an asset on the M1 lane.</div>
+                )}
+              </div>
+            ) : null}
+
+            {selectedCaption ? (
+              <div className="trimRow" aria-label="Caption">
+                <div className="trimField grow">
+                  <label htmlFor="captionText">Caption text</label>
+                  <input
+                    id="captionText"
+                    value={selectedCaption.text}
+                    onChange={(e) => patchSelectedCaptionLive({ text: e.target.value })}
+                    onBlur={commitLiveEdit}
+                    autoComplete="off"
+                  />
+                </div>
+                <div className="trimField">
+                  <label htmlFor="captionStart">Start (s)</label>
+                  <input
+                    id="captionStart"
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={Number(selectedCaption.start.toFixed(2))}
+                    onChange={(e) => patchSelectedCaptionLive({ start: Number(e.target.value) })}
+                    onBlur={commitLiveEdit}
+                  />
+                </div>
+                <div className="trimField">
+                  <label htmlFor="captionEnd">End (s)</label>
+                  <input
+                    id="captionEnd"
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={Number(selectedCaption.end.toFixed(2))}
+                    onChange={(e) => patchSelectedCaptionLive({ end: Number(e.target.value) })}
+                    onBlur={commitLiveEdit}
+                  />
+                </div>
+                <button className="tool" type="button" onClick={() => deleteCaption(selectedCaption.id)}>
+                  Remove
+                </button>
+              </div>
+            ) : null}
           </section>
         </section>
 
@@ -1943,41 +3519,233 @@ export default function StudioPage() {
             </div>
           </section>
 
+          <section className="card">
+            <div className="cardHead">
+              <div className="cardTitle">Transcript</div>
+              <div className="pill muted">{timelineWords.length ? `${timelineWords.length} words` : "—"}</div>
+            </div>
+
+            {timelineSentences.length ? (
+              <div className="transcriptEditor">
+                <div className="transcriptActions">
+                  <button className="tool" type="button" onClick={removeFillers} disabled={!fillerCutRanges.length}>
+                    Remove fillers &amp; pauses{fillerCutRanges.length ? ` (${fillerCutRanges.length})` : ""}
+                  </button>
+                  <button className="tool" type="button" onClick={deleteTranscriptSelection} disabled={!transcriptSelection.size}>
+                    Delete words
+                  </button>
+                </div>
+                {timeline.audioLinked === false ? (
+                  <div className="hint">Audio is unlinked: transcript edits only cut the video lane.</div>
+                ) : null}
+                <div className="transcriptSentences" role="list" aria-label="Timeline transcript">
+                  {timelineSentences.map((sentence, idx) => (
+                    <div key={sentence.key} className="transcriptSentence" role="listitem">
+                      <div className="transcriptSentenceText">
+                        {sentence.words.map((w) => {
+                          const isCurrent = playheadProjectTime >= w.projectStart && playheadProjectTime < w.projectStart + (w.end - w.start);
+                          return (
+                            <span
+                              key={w.key}
+                              className={`transcriptWord ${transcriptSelection.has(w.key) ? "isSelected" : ""} ${isCurrent ? "isCurrent" : ""}`}
+                              onClick={(e) => {
+                                selectTranscriptWord(w.key, e.shiftKey);
+                                void scrubToProjectTime(w.projectStart, false);
+                              }}
+                            >
+                              {w.text}
+                            </span>
+                          );
+                        })}
+                      </div>
+                      <div className="transcriptSentenceTools">
+                        <button type="button" title="Move up" aria-label="Move sentence up" disabled={idx === 0} onClick={() => moveSentence(idx, -1)}>
+                          ↑
+                        </button>
+                        <button
+                          type="button"
+                          title="Move down"
+                          aria-label="Move sentence down"
+                          disabled={idx === timelineSentences.length - 1}
+                          onClick={() => moveSentence(idx, 1)}
+                        >
+                          ↓
+                        </button>
+                        <button type="button" title="Delete sentence" aria-label="Delete sentence" onClick={() => deleteSentence(sentence)}>
+                          ×
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <div className="hint">
+                {timeline.clips.length ? "No transcript for the clips on the timeline." : "Add transcribed clips to the timeline to edit by text."}
+              </div>
+            )}
+          </section>
+
           <section className="card">
             <div className="cardHead">
               <div className="cardTitle">Export Settings</div>
-              <div className="pill muted">Ready</div>
+              <div className="pill muted">{isExporting ? "Rendering" : "Ready"}</div>
             </div>
 
             <div className="form">
               <label className="field">
-                <span>Resolution</span>
+                <span>Format</span>
+                <select value={exportSettings.format} onChange={(e) => setExportFormat(e.target.value as ExportFormat)}>
+                  {EXPORT_FORMAT_LIST.map((f) => (
+                    <option key={f} value={f}>
+                      {EXPORT_FORMATS[f].label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              {exportSpec.resolutions.length ? (
+                <label className="field">
+                  <span>Resolution</span>
+                  <select
+                    value={exportSettings.resolution}
+                    onChange={(e) => setExportSettings({ ...exportSettings, resolution: e.target.value as ExportResolution })}
+                  >
+                    <option value="720p" disabled={!exportSpec.resolutions.includes("720p")}>720p</option>
+                    <option value="1080p" disabled={!exportSpec.resolutions.includes("1080p")}>1080p Full HD</option>
+                    <option value="4K" disabled={!exportSpec.resolutions.includes("4K")}>4K</option>
+                  </select>
+                </label>
+              ) : null}
+
+              {exportSpec.supportsAspect ? (
+                <label className="field">
+                  <span>Aspect ratio</span>
+                  <select
+                    value={exportSettings.aspect}
+                    onChange={(e) => setExportSettings({ ...exportSettings, aspect: e.target.value as ExportAspect })}
+                  >
+                    <option value="source">Original</option>
+                    <option value="9:16">9:16 Vertical (Reels, TikTok, Shorts)</option>
+                    <option value="1:1">1:1 Square</option>
+                    <option value="4:5">4:5 Portrait</option>
+                  </select>
+                </label>
+              ) : null}
+
+              <label className="field">
+                <span>Captions</span>
                 <select
-                  value={exportSettings.resolution}
-                  onChange={(e) => setExportSettings({ ...exportSettings, resolution: e.target.value as ExportSettings["resolution"] })}
+                  value={exportSettings.captions}
+                  onChange={(e) => setExportSettings({ ...exportSettings, captions: e.target.value as CaptionExportMode })}
                 >
-                  <option value="720p">720p</option>
-                  <option value="1080p">1080p Full HD</option>
-                  <option value="4K">4K</option>
+                  <option value="off">Off</option>
+                  <option value="burn" disabled={exportSpec.kind === "audio"}>Burn into video</option>
+                  <option value="sidecar">SRT + VTT files</option>
                 </select>
               </label>
 
+              {exportSettings.captions === "burn" ? (
+                <label className="field">
+                  <span>Caption style</span>
+                  <select
+                    value={exportSettings.captionStyle}
+                    onChange={(e) => setExportSettings({ ...exportSettings, captionStyle: e.target.value as CaptionStyle })}
+                  >
+                    {(Object.keys(CAPTION_STYLES) as CaptionStyle[]).map((k) => (
+                      <option key={k} value={k}>
+                        {CAPTION_STYLES[k].label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ) : null}
+
               <label className="field">
-                <span>Format</span>
-                <select value={exportSettings.format} onChange={() => {}}>
-                  <option value="MP4">MP4</option>
+                <span>Loudness</span>
+                <select
+                  value={exportSettings.loudness}
+                  onChange={(e) => setExportSettings({ ...exportSettings, loudness: e.target.value as LoudnessTarget })}
+                  disabled={exportSpec.kind === "gif"}
+                >
+                  <option value="off">Off (mix as set)</option>
+                  {(Object.keys(LOUDNESS_TARGETS) as Array<keyof typeof LOUDNESS_TARGETS>).map((k) => (
+                    <option key={k} value={k}>
+                      {LOUDNESS_TARGETS[k].label}
+                    </option>
+                  ))}
+                  <option value="custom">Custom…</option>
                 </select>
               </label>
 
-              <button className="btn primary full" type="button" onClick={onExport} disabled={timeline.clips.length === 0 || isExporting}>
-                {isExporting ? "Rendering…" : "Export Video"}
+              {exportSettings.loudness === "custom" ? (
+                <label className="field">
+                  <span>Target (LUFS)</span>
+                  <input
+                    type="number"
+                    min={CUSTOM_LOUDNESS_MIN}
+                    max={CUSTOM_LOUDNESS_MAX}
+                    step={0.5}
+                    value={exportSettings.customLufs}
+                    onChange={(e) => setExportSettings({ ...exportSettings, customLufs: Number(e.target.value) })}
+                  />
+                </label>
+              ) : null}
+
+              <button
+                className="btn primary full"
+                type="button"
+                onClick={onExport}
+                disabled={timeline.clips.length === 0 || isExporting || Boolean(exportSettingsError)}
+              >
+                {isExporting
+                  ? `Rendering… ${Math.round(exportProgress * 100)}%`
+                  : exportSpec.kind === "audio"
+                    ? "Export Audio"
+                    : exportSpec.kind === "gif"
+                      ? "Export GIF"
+                      : "Export Video"}
               </button>
+              {exportSettingsError ? <div className="hint">{exportSettingsError}</div> : null}
+
+              {isExporting ? (
+                <>
+                  <div
+                    className="exportProgress"
+                    role="progressbar"
+                    aria-label="Export progress"
+                    aria-valuemin={0}
+                    aria-valuemax={100}
+                    aria-valuenow={Math.round(exportProgress * 100)}
+                  >
+                    <div className="exportProgressFill" style={{ width: pct(clamp(exportProgress, 0, 1)) } as any} />
+                  </div>
+                  <button className="btn ghost full" type="button" onClick={cancelExport} disabled={!exportJobId}>
+                    Cancel export
+                  </button>
+                </>
+              ) : null}
 
               {exportError ? <div className="hint" style={{ color: "rgba(255, 162, 162, .9)" }}>{exportError}</div> : null}
               {exportUrl ? (
-                <a className="hint" href={exportUrl} target="_blank" rel="noopener">
-                  Download export
-                </a>
+                <>
+                  <a className="hint" href={exportUrl} target="_blank" rel="noopener">
+                    Download export
+                  </a>
+                  {exportSidecarUrls.map((u) => (
+                    <a key={u} className="hint" href={u} target="_blank" rel="noopener">
+                      Download {u.slice(u.lastIndexOf(".") + 1).toUpperCase()} captions
+                    </a>
+                  ))}
+                  {exportLoudness ? (
+                    <div className="hint">
+                      {exportLoudness.outputLufs != null
+                        ? `Loudness ${exportLoudness.outputLufs.toFixed(1)} LUFS (target ${exportLoudness.targetLufs}, mix was ${exportLoudness.inputLufs.toFixed(1)})` +
+                          (exportLoudness.outputTruePeakDb != null ? `, true peak ${exportLoudness.outputTruePeakDb.toFixed(1)} dBTP` : "")
+                        : "Audio was silent; loudness left unchanged."}
+                    </div>
+                  ) : null}
+                </>
               ) : (
                 <div className="hint">Exports cut &amp; stitch your timeline using FFmpeg.</div>
               )}
@@ -2022,18 +3790,27 @@ export default function StudioPage() {
               offsets={offsets}
               selectedClipId={selectedClipId}
               selectedAudioClipId={selectedAudioClipId}
+              selectedCaptionId={selectedCaptionId}
               playheadSeconds={playheadProjectTime}
               onSelect={async (id) => {
                 setSelectedClipId(id);
                 setSelectedAudioClipId(null);
+                setSelectedCaptionId(null);
                 const clip = timeline.clips.find((c) => c.id === id);
                 if (!clip) return;
                 const asset = assetsById.get(clip.assetId);
                 if (!asset) return;
                 await startClipPlayback(clip, timeline.clips.findIndex((c) => c.id === id), "sequence");
               }}
+              onSelectCaption={(id) => {
+                setSelectedCaptionId(id);
+                setSelectedClipId(null);
+                setSelectedAudioClipId(null);
+              }}
+              onPatchCaptionLive={(id, patch) => setTimeline((t) => updateCaptionById(t, id, patch))}
               onSelectAudio={(id) => {
                 setSelectedAudioClipId(id);
+                setSelectedCaptionId(null);
                 if (String(id).startsWith("linked-")) setSelectedClipId(String(id).slice("linked-".length));
                 else setSelectedClipId(null);
               }}
@@ -2102,8 +3879,14 @@ export default function StudioPage() {
                 if (payload.kind === "asset") await insertAssetAudioAtTime(payload.assetId, t);
                 if (payload.kind === "audio_clip") await reorderAudioClipToTime(payload.clipId, t);
               }}
+              onDropMusicAsset={setMusicAsset}
+              onOpenMusic={() => setMusicPanelOpen(true)}
               getGhostLenSeconds={(payload) => {
-                if (payload.kind === "asset") return assetsById.get(payload.assetId)?.durationSeconds ?? null;
+                if (payload.kind === "asset") {
+                  const a = assetsById.get(payload.assetId);
+                  if (a && assetKind(a) === "image") return STILL_DEFAULT_SECONDS;
+                  return a?.durationSeconds ?? null;
+                }
                 if (payload.kind === "clip") {
                   const c = timeline.clips.find((x) => x.id === payload.clipId);
                   if (!c) return null;
@@ -2143,8 +3926,11 @@ function TimelineStrip({
   offsets,
   selectedClipId,
   selectedAudioClipId,
+  selectedCaptionId,
   playheadSeconds,
   onSelect,
+  onSelectCaption,
+  onPatchCaptionLive,
   onSelectAudio,
   onToggleAudioLink,
   onToggleTrackMute,
@@ -2159,6 +3945,8 @@ function TimelineStrip({
   onBeginAudioDrag,
   onDropVideoPayload,
   onDropAudioPayload,
+  onDropMusicAsset,
+  onOpenMusic,
   getGhostLenSeconds,
   getDragData,
   getCurrentDrag,
@@ -2176,8 +3964,11 @@ function TimelineStrip({
   offsets: Map<string, number>;
   selectedClipId: string | null;
   selectedAudioClipId: string | null;
+  selectedCaptionId: string | null;
   playheadSeconds: number;
   onSelect: (id: string) => void;
+  onSelectCaption: (id: string) => void;
+  onPatchCaptionLive: (id: string, patch: Partial<Pick<CaptionCue, "start" | "end">>) => void;
   onSelectAudio: (id: string) => void;
   onToggleAudioLink: () => void;
   onToggleTrackMute: () => void;
@@ -2192,6 +3983,8 @@ function TimelineStrip({
   onBeginAudioDrag: (clipId: string, handle: "in" | "out", startX: number) => void;
   onDropVideoPayload: (payload: DragPayload, projectTime: number) => void;
   onDropAudioPayload: (payload: DragPayload, projectTime: number) => void;
+  onDropMusicAsset: (assetId: string) => void;
+  onOpenMusic: () => void;
   getGhostLenSeconds: (payload: DragPayload) => number | null;
   getDragData: (e: React.DragEvent) => DragPayload | null;
   getCurrentDrag: () => DragPayload | null;
@@ -2203,15 +3996,31 @@ function TimelineStrip({
   const scrubRef = useRef<null | { startX: number; moved: boolean }>(null);
   const [dropAt, setDropAt] = useState<number | null>(null);
   const [dropPayload, setDropPayload] = useState<DragPayload | null>(null);
-  const [dropLane, setDropLane] = useState<"video" | "audio">("video");
+  const [dropLane, setDropLane] = useState<"video" | "audio" | "music">("video");
   const [draggingId, setDraggingId] = useState<string | null>(null);
   const dragDepthRef = useRef(0);
   const [snapFlashAt, setSnapFlashAt] = useState<number | null>(null);
   const laneVideoRef = useRef<HTMLDivElement | null>(null);
   const laneAudioRef = useRef<HTMLDivElement | null>(null);
+  const laneMusicRef = useRef<HTMLDivElement | null>(null);
+  // Lane width in px, so filmstrips know how many frames fit in each clip (and waveforms how wide to draw).
+  const [laneWidth, setLaneWidth] = useState(0);
+  // Decoded waveform peaks by peaksUrl; null while loading or if the file is unreadable.
+  const [peaksByUrl, setPeaksByUrl] = useState<Record<string, WaveformPeaks | null>>({});
   const audioVolDragRef = useRef<null | { clipId: string; pointerId: number; prev: HistoryState }>(null);
   const trackVolDragRef = useRef<null | { pointerId: number; prev: HistoryState }>(null);
   const audioFadeDragRef = useRef<null | { clipId: string; side: "in" | "out"; pointerId: number; prev: HistoryState; startFade: number; clipLen: number }>(null);
+  const captionDragRef = useRef<null | {
+    id: string;
+    mode: "move" | "start" | "end";
+    pointerId: number;
+    startX: number;
+    startStart: number;
+    startEnd: number;
+    secondsPerPx: number;
+    prev: HistoryState;
+    moved: boolean;
+  }>(null);
 
   function clientXToProjectTime(clientX: number) {
     const el = refEl.current;
@@ -2284,6 +4093,36 @@ function TimelineStrip({
     return snapped;
   }
 
+  useEffect(() => {
+    const el = laneVideoRef.current;
+    if (!el || typeof ResizeObserver === "undefined") return;
+    const ro = new ResizeObserver(() => setLaneWidth(el.clientWidth));
+    ro.observe(el);
+    setLaneWidth(el.clientWidth);
+    return () => ro.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const urls = new Set(audioClips.map((c) => getAsset(c.assetId)?.peaksUrl).filter((u): u is string => Boolean(u)));
+    for (const url of urls) {
+      if (url in peaksByUrl) continue;
+      setPeaksByUrl((prev) => ({ ...prev, [url]: null }));
+      fetch(url)
+        .then((r) => (r.ok ? r.json() : null))
+        .then((raw) => decodeWaveformPeaks(raw))
+        .catch(() => null)
+        .then((peaks) => setPeaksByUrl((prev) => ({ ...prev, [url]: peaks })));
+    }
+  }, [audioClips, getAsset, peaksByUrl]);
+
+  // Frames of the clip's sourceIn..sourceOut, one per FILMSTRIP_TILE_PX of clip width.
+  function filmstripTimes(clip: { sourceIn: number; sourceOut: number }, clipPx: number) {
+    const len = Math.max(0.001, clip.sourceOut - clip.sourceIn);
+    const tiles = clamp(Math.ceil(clipPx / FILMSTRIP_TILE_PX), 1, 200);
+    const secondsPerTile = (len * FILMSTRIP_TILE_PX) / Math.max(1, clipPx);
+    return Array.from({ length: tiles }, (_, i) => clip.sourceIn + (i + 0.5) * secondsPerTile);
+  }
+
   function waveformStyle(asset: Asset | null, clip: { sourceIn: number; sourceOut: number }) {
     if (!asset?.hasAudio || !asset.waveformUrl || !asset.durationSeconds) return null;
     const total = asset.durationSeconds;
@@ -2298,6 +4137,52 @@ function TimelineStrip({
     } as any;
   }
 
+  function beginCaptionDrag(e: React.PointerEvent, cue: CaptionCue, mode: "move" | "start" | "end") {
+    e.stopPropagation();
+    e.preventDefault();
+    onSelectCaption(cue.id);
+    const el = refEl.current;
+    const px = el ? Math.max(1, el.scrollWidth || el.clientWidth) : 1;
+    captionDragRef.current = {
+      id: cue.id,
+      mode,
+      pointerId: e.pointerId,
+      startX: e.clientX,
+      startStart: cue.start,
+      startEnd: cue.end,
+      secondsPerPx: duration / px,
+      prev: getHistoryState(),
+      moved: false
+    };
+    (e.currentTarget as HTMLElement).setPointerCapture?.(e.pointerId);
+  }
+
+  function moveCaptionDrag(e: React.PointerEvent) {
+    const d = captionDragRef.current;
+    if (!d || d.pointerId !== e.pointerId) return;
+    const delta = (e.clientX - d.startX) * d.secondsPerPx;
+    d.moved = true;
+    if (d.mode === "move") {
+      const len = d.startEnd - d.startStart;
+      const start = clamp(d.startStart + delta, 0, Math.max(0, duration - len));
+      onPatchCaptionLive(d.id, { start, end: start + len });
+    } else if (d.mode === "start") {
+      onPatchCaptionLive(d.id, { start: clamp(d.startStart + delta, 0, d.startEnd - 0.3) });
+    } else {
+      onPatchCaptionLive(d.id, { end: clamp(d.startEnd + delta, d.startStart + 0.3, duration) });
+    }
+  }
+
+  function endCaptionDrag(e: React.PointerEvent) {
+    const d = captionDragRef.current;
+    if (!d || d.pointerId !== e.pointerId) return;
+    captionDragRef.current = null;
+    try {
+      (e.currentTarget as HTMLElement).releasePointerCapture?.(e.pointerId);
+    } catch {}
+    if (d.moved) onCommitHistory(d.prev);
+  }
+
   function isOverLane(ref: MutableRefObject<HTMLDivElement | null>, clientY: number) {
     const el = ref.current;
     if (!el) return false;
@@ -2305,13 +4190,17 @@ function TimelineStrip({
     return clientY >= r.top && clientY <= r.bottom;
   }
 
-  function resolveDropLane(payload: DragPayload, clientY: number): "video" | "audio" {
+  function resolveDropLane(payload: DragPayload, clientY: number): "video" | "audio" | "music" {
     if (payload.kind === "clip") return "video";
     if (payload.kind === "audio_clip") return "audio";
+    // The music bed takes any asset with audio, whatever the A1 mode.
+    if (isOverLane(laneMusicRef, clientY)) return getAsset(payload.assetId)?.hasAudio ? "music" : "video";
     const overAudio = isOverLane(laneAudioRef, clientY);
+    const a = getAsset(payload.assetId);
+    // Audio-only files can't go on V1: A1 when it's unlinked, else the music bed.
+    if (a && assetKind(a) === "audio") return overAudio && timeline.audioLinked === false ? "audio" : "music";
     if (!overAudio) return "video";
     if (timeline.audioLinked !== false) return "video";
-    const a = getAsset(payload.assetId);
     if (!a?.hasAudio) return "video";
     return "audio";
   }
@@ -2419,6 +4308,12 @@ function TimelineStrip({
               {timeline.audioLinked === false ? "Unlinked" : "Linked"}
             </button>
           </div>
+          <div className="trackRailRow isCompact">
+            <div className="trackLabel" aria-hidden="true">M1</div>
+          </div>
+          <div className="trackRailRow">
+            <div className="trackLabel" aria-hidden="true">T1</div>
+          </div>
         </div>
 
         <div
@@ -2430,6 +4325,7 @@ function TimelineStrip({
             if (!el) return;
             const target = e.target as HTMLElement | null;
             if (target?.closest?.(".tlHandle")) return; // let trim handles handle the drag
+            if (target?.closest?.(".captionCue")) return; // caption cues drag themselves
             scrubRef.current = { startX: e.clientX, moved: false };
             el.setPointerCapture?.(e.pointerId);
             onScrub(clientXToProjectTime(e.clientX), false);
@@ -2482,6 +4378,7 @@ function TimelineStrip({
             setDraggingId(null);
             dragDepthRef.current = 0;
             if (lane === "audio") onDropAudioPayload(payload, t);
+            else if (lane === "music" && payload.kind === "asset") onDropMusicAsset(payload.assetId);
             else onDropVideoPayload(payload, t);
             onAnyDragEnd();
           }}
@@ -2500,6 +4397,7 @@ function TimelineStrip({
                 const left = clamp(clipOffset / duration, 0, 1);
                 const width = clamp(len / duration, 0.002, 1);
                 const isSelected = c.id === selectedClipId;
+                const sprite = getAsset(c.assetId)?.thumbnails ?? null;
                 return (
                   <div
                     key={c.id}
@@ -2527,6 +4425,13 @@ function TimelineStrip({
                       onSelect(c.id);
                     }}
                   >
+                    {sprite && laneWidth > 0 ? (
+                      <div className="tlFilmstrip" aria-hidden="true">
+                        {filmstripTimes(c, width * laneWidth).map((t, i) => (
+                          <div key={i} className="tlFrame" style={spriteFrameStyle(sprite, t)} />
+                        ))}
+                      </div>
+                    ) : null}
                     <div
                       className="tlHandle left"
                       onPointerDown={(e) => {
@@ -2575,6 +4480,7 @@ function TimelineStrip({
                 const width = clamp(len / duration, 0.002, 1);
                 const asset = getAsset(c.assetId);
                 const ws = waveformStyle(asset, c);
+                const peaks = asset?.peaksUrl ? peaksByUrl[asset.peaksUrl] : null;
                 const has = Boolean(asset?.hasAudio);
                 const movable = timeline.audioLinked === false && !String(c.id).startsWith("linked-");
                 const isSelected = c.id === selectedAudioClipId;
@@ -2618,6 +4524,17 @@ function TimelineStrip({
                       onSelectAudio(c.id);
                     }}
                   >
+                    {peaks && laneWidth > 0 ? (
+                      <WaveformCanvas
+                        peaks={peaks}
+                        sourceIn={c.sourceIn}
+                        sourceOut={c.sourceOut}
+                        volume={c.volume ?? 1}
+                        fadeIn={fadeIn}
+                        fadeOut={fadeOut}
+                        widthPx={width * laneWidth}
+                      />
+                    ) : null}
                     {movable ? (
                       <>
                         <div
@@ -2812,6 +4729,68 @@ function TimelineStrip({
                 : null}
             </div>
 
+            <div className="lane laneMusic" aria-label="Music track" role="list" ref={laneMusicRef}>
+              {(() => {
+                const music = timeline.music ? resolveMusicBed(timeline.music) : null;
+                const asset = music ? getAsset(music.assetId) : null;
+                if (!music || !asset) return null;
+                // Looping fills the cut; otherwise the bar ends where the song does.
+                const len = music.loop ? duration : Math.min(duration, asset.durationSeconds || duration);
+                const notes = [music.loop ? "loop" : null, music.ducking.enabled ? `duck −${music.ducking.depthDb.toFixed(0)} dB` : null];
+                return (
+                  <div
+                    className={`musicBed ${music.muted ? "isMuted" : ""}`}
+                    style={{ left: 0, width: pct(clamp(len / duration, 0.01, 1)) } as any}
+                    role="listitem"
+                    title={`${cleanName(asset.name)}: ${Math.round(music.volume * 100)}%${music.muted ? " (muted)" : ""}`}
+                    onPointerDown={(e) => e.stopPropagation()}
+                    onClick={onOpenMusic}
+                  >
+                    <div className="tlLabel">
+                      {cleanName(asset.name)}
+                      {notes.filter(Boolean).map((n) => ` • ${n}`)}
+                    </div>
+                  </div>
+                );
+              })()}
+              {dropAt != null && dropPayload && dropLane === "music" ? (
+                <div className="ghostClip" style={{ left: 0, width: "100%" } as any} aria-hidden="true" />
+              ) : null}
+            </div>
+
+            <div className="lane laneCaptions" aria-label="Caption track" role="list">
+              {(timeline.captions ?? []).map((c) => {
+                const left = clamp(c.start / duration, 0, 1);
+                const width = clamp((c.end - c.start) / duration, 0.002, 1);
+                const isSelected = c.id === selectedCaptionId;
+                return (
+                  <div
+                    key={c.id}
+                    className={`captionCue ${isSelected ? "isSelected" : ""}`}
+                    style={{ left: pct(left), width: pct(width) } as any}
+                    role="listitem"
+                    title={`${c.text} (${fmt(c.end - c.start)})`}
+                    onPointerDown={(e) => beginCaptionDrag(e, c, "move")}
+                    onPointerMove={moveCaptionDrag}
+                    onPointerUp={endCaptionDrag}
+                    onPointerCancel={endCaptionDrag}
+                  >
+                    <div
+                      className="tlHandle left captionHandle"
+                      onPointerDown={(e) => beginCaptionDrag(e, c, "start")}
+                      aria-label="Trim caption start"
+                    />
+                    <div className="tlLabel captionLabel">{c.text}</div>
+                    <div
+                      className="tlHandle right captionHandle"
+                      onPointerDown={(e) => beginCaptionDrag(e, c, "end")}
+                      aria-label="Trim caption end"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+
             <div className="playhead" style={{ left: pct(playheadX) } as any} aria-hidden="true" />
             {dropAt != null ? (
               <div className="dropMarker" style={{ left: pct(clamp(dropAt / duration, 0, 1)) } as any} aria-hidden="true" />
@@ -2826,7 +4805,66 @@ function TimelineStrip({
   );
 }
 
-function updateClipById(t: ProjectTimeline, clipId: string, patch: Partial<Pick<ProjectClip, "sourceIn" | "sourceOut" | "label">>) {
+// Browsers refuse (or blank) very wide canvases; past this the waveform is stretched a little instead.
+const WAVEFORM_MAX_CANVAS_PX = 8192;
+
+// One audio clip's waveform, drawn from peak data at its on-screen width so zooming in adds detail.
+// Heights follow the clip volume and fade ramps, like the mix will sound.
+function WaveformCanvas({
+  peaks,
+  sourceIn,
+  sourceOut,
+  volume,
+  fadeIn,
+  fadeOut,
+  widthPx
+}: {
+  peaks: WaveformPeaks;
+  sourceIn: number;
+  sourceOut: number;
+  volume: number;
+  fadeIn: number;
+  fadeOut: number;
+  widthPx: number;
+}) {
+  const ref = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const canvas = ref.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    const dpr = window.devicePixelRatio || 1;
+    const w = Math.max(1, Math.min(WAVEFORM_MAX_CANVAS_PX, Math.round(widthPx * dpr)));
+    const h = Math.max(1, Math.round(canvas.clientHeight * dpr));
+    canvas.width = w;
+    canvas.height = h;
+    ctx.clearRect(0, 0, w, h);
+
+    const len = Math.max(0.001, sourceOut - sourceIn);
+    const secondsPerPx = len / w;
+    const level = pickPeakLevel(peaks, secondsPerPx);
+    // 100% volume fills 60% of the height; loud clips pushed past ~170% hit the edges.
+    const scale = (h / 2) * 0.6 * clamp(volume, 0, 2);
+    ctx.fillStyle = "rgba(93, 214, 255, 0.6)";
+    for (let x = 0; x < w; x++) {
+      const t = x * secondsPerPx;
+      const mid = t + secondsPerPx / 2;
+      const fade = Math.min(1, fadeIn > 0 ? mid / fadeIn : 1, fadeOut > 0 ? (len - mid) / fadeOut : 1);
+      const [min, max] = peakRange(level, peaks.sampleRate, sourceIn + t, sourceIn + t + secondsPerPx);
+      const top = clamp(h / 2 - max * scale * fade, 0, h);
+      const bottom = clamp(h / 2 - min * scale * fade, 0, h);
+      ctx.fillRect(x, top, 1, Math.max(1, bottom - top));
+    }
+  }, [peaks, sourceIn, sourceOut, volume, fadeIn, fadeOut, widthPx]);
+
+  return <canvas ref={ref} className="audioWave" aria-hidden="true" />;
+}
+
+function updateClipById(
+  t: ProjectTimeline,
+  clipId: string,
+  patch: Partial<Pick<ProjectClip, "sourceIn" | "sourceOut" | "label" | "reframe" | "reframeFocusX">>
+) {
   const minLen = 0.2;
   const clips = t.clips.map((c) => {
     if (c.id !== clipId) return c;
@@ -2839,8 +4877,15 @@ function updateClipById(t: ProjectTimeline, clipId: string, patch: Partial<Pick<
   return { ...t, clips };
 }
 
-function cleanName(name: string) {
-  return name.replace(/\.[a-z0-9]+$/i, "");
+function uploadKey(file: File) {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+// Hex SHA-256 for chunk checks. crypto.subtle only exists on secure origins (https / localhost); elsewhere chunks go unchecked.
+async function sha256Hex(buf: ArrayBuffer) {
+  if (!globalThis.crypto?.subtle) return null;
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", buf));
+  return Array.from(digest, (b) => b.toString(16).padStart(2, "0")).join("");
 }
 
 function fmt(seconds: number) {
@@ -2858,6 +4903,23 @@ function pct(n: number) {
   return `${(n * 100).toFixed(3)}%`;
 }
 
+// Matches .tlFrame's width in globals.css.
+const FILMSTRIP_TILE_PX = 120;
+const BIN_FILMSTRIP_FRAMES = 6;
+
+// Background that shows the sprite frame nearest to `seconds` (see ThumbnailSprite).
+function spriteFrameStyle(sprite: ThumbnailSprite, seconds: number) {
+  const index = clamp(Math.round(seconds / sprite.intervalSeconds), 0, sprite.count - 1);
+  const rows = Math.ceil(sprite.count / sprite.columns);
+  const col = index % sprite.columns;
+  const row = Math.floor(index / sprite.columns);
+  return {
+    backgroundImage: `url(${sprite.url})`,
+    backgroundSize: `${sprite.columns * 100}% ${rows * 100}%`,
+    backgroundPosition: `${sprite.columns > 1 ? pct(col / (sprite.columns - 1)) : "0%"} ${rows > 1 ? pct(row / (rows - 1)) : "0%"}`
+  };
+}
+
 function snapWithin(points: number[] | undefined, value: number, threshold: number, min: number, max: number) {
   const snapped = snapNearest(points, value, threshold);
   if (snapped < min || snapped > max) return value;
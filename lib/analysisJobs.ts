@@ -0,0 +1,128 @@
+import type { AnalysisJobStatus, AnalysisStage } from "./types";
+
+// Server-only: queue of background asset analyses (see lib/ingest.ts for the stages).
+// At most ANALYSIS_CONCURRENCY jobs (default 2) run at once; the rest wait in upload order.
+// MVP ONLY: jobs live in the Next server process and are lost on restart.
+
+export type AnalysisJobContext = {
+  stage(stage: AnalysisStage): void;
+  // Publishes partial results as each stage lands.
+  update(patch: Partial<Pick<AnalysisJobStatus, "videoUrl" | "waveformUrl" | "peaksUrl" | "proxyUrl" | "thumbnails" | "analysis">>): void;
+};
+
+type AnalysisJob = AnalysisJobStatus & {
+  work: (ctx: AnalysisJobContext) => Promise<void>;
+};
+
+// Finished jobs are kept around for a while so a reloaded Studio can still pick up the result.
+const FINISHED_JOB_TTL_MS = 60 * 60_000;
+
+// Route handlers are bundled separately (and re-evaluated on dev reloads), so the queue lives on globalThis.
+const registry = globalThis as typeof globalThis & {
+  __clipgeniusAnalysisJobs?: { jobs: Map<string, AnalysisJob>; queue: string[]; running: number };
+};
+
+function state() {
+  if (!registry.__clipgeniusAnalysisJobs) registry.__clipgeniusAnalysisJobs = { jobs: new Map(), queue: [], running: 0 };
+  return registry.__clipgeniusAnalysisJobs;
+}
+
+function concurrency() {
+  const n = Number(process.env.ANALYSIS_CONCURRENCY);
+  return Number.isInteger(n) && n > 0 ? n : 2;
+}
+
+export function enqueueAnalysisJob(
+  input: { assetId: string; videoUrl: string },
+  work: (ctx: AnalysisJobContext) => Promise<void>
+): AnalysisJobStatus {
+  pruneFinishedJobs();
+  const now = Date.now();
+  const job: AnalysisJob = {
+    jobId: crypto.randomUUID(),
+    assetId: input.assetId,
+    state: "queued",
+    stage: null,
+    videoUrl: input.videoUrl,
+    waveformUrl: null,
+    peaksUrl: null,
+    proxyUrl: null,
+    thumbnails: null,
+    analysis: null,
+    error: null,
+    createdAt: now,
+    updatedAt: now,
+    work
+  };
+  state().jobs.set(job.jobId, job);
+  state().queue.push(job.jobId);
+  pump();
+  return toStatus(job);
+}
+
+export function getAnalysisJob(jobId: string): AnalysisJobStatus | null {
+  const job = state().jobs.get(jobId);
+  return job ? toStatus(job) : null;
+}
+
+function pump() {
+  const s = state();
+  while (s.running < concurrency() && s.queue.length) {
+    const job = s.jobs.get(s.queue.shift()!);
+    if (!job || job.state !== "queued") continue;
+    s.running++;
+    void runJob(job).finally(() => {
+      s.running--;
+      pump();
+    });
+  }
+}
+
+async function runJob(job: AnalysisJob) {
+  job.state = "running";
+  job.updatedAt = Date.now();
+  const ctx: AnalysisJobContext = {
+    stage(stage) {
+      job.stage = stage;
+      job.updatedAt = Date.now();
+    },
+    update(patch) {
+      Object.assign(job, patch);
+      job.updatedAt = Date.now();
+    }
+  };
+  try {
+    await job.work(ctx);
+    job.state = "done";
+  } catch (err) {
+    job.state = "failed";
+    job.error = err instanceof Error ? err.message : "Analysis failed";
+  }
+  job.stage = null;
+  job.updatedAt = Date.now();
+}
+
+function pruneFinishedJobs() {
+  const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+  for (const [id, job] of state().jobs.entries()) {
+    if ((job.state === "done" || job.state === "failed") && job.updatedAt < cutoff) state().jobs.delete(id);
+  }
+}
+
+function toStatus(job: AnalysisJob): AnalysisJobStatus {
+  return {
+    jobId: job.jobId,
+    assetId: job.assetId,
+    state: job.state,
+    stage: job.stage,
+    videoUrl: job.videoUrl,
+    waveformUrl: job.waveformUrl,
+    peaksUrl: job.peaksUrl,
+    proxyUrl: job.proxyUrl,
+    thumbnails: job.thumbnails,
+    analysis: job.analysis,
+    error: job.error,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt
+  };
+}
@@ -0,0 +1,58 @@
+import type { AssetKind } from "./types";
+
+// What can be imported besides video, and how stills fit a timeline built on source ranges. Shared by the
+// upload routes, the export and the Studio.
+
+// A still is stored with this nominal source length, so its clips trim like video (sourceOut - sourceIn is the
+// time on screen) up to this long. Its preview proxy is a still video of the same length.
+export const STILL_SOURCE_SECONDS = 600;
+// Length of a still when it is first placed on the timeline.
+export const STILL_DEFAULT_SECONDS = 5;
+
+// File extension -> kind, for everything the Library imports.
+const IMPORT_EXTENSIONS: Record<string, AssetKind> = {
+  mp4: "video",
+  mov: "video",
+  webm: "video",
+  m4v: "video",
+  mp3: "audio",
+  wav: "audio",
+  m4a: "audio",
+  png: "image",
+  jpg: "image"
+};
+
+export function assetKind(asset: { kind?: AssetKind }): AssetKind {
+  return asset.kind ?? "video";
+}
+
+// Upload extension from the browser's MIME type; extFromName is the fallback.
+export function extFromMime(mime: string) {
+  const m = mime.toLowerCase();
+  if (m.startsWith("audio/")) {
+    if (m.includes("mpeg") || m.includes("mp3")) return "mp3";
+    if (m.includes("wav")) return "wav";
+    if (m.includes("mp4") || m.includes("m4a") || m.includes("aac")) return "m4a";
+    return null;
+  }
+  if (m === "image/png") return "png";
+  if (m === "image/jpeg" || m === "image/jpg") return "jpg";
+  if (m.includes("mp4")) return "mp4";
+  if (m.includes("quicktime")) return "mov";
+  if (m.includes("webm")) return "webm";
+  return null;
+}
+
+export function extFromName(name: string) {
+  const ext = name.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1] ?? "";
+  const normalized = ext === "jpeg" ? "jpg" : ext;
+  return normalized in IMPORT_EXTENSIONS ? normalized : null;
+}
+
+// Whether the Library takes this file (by MIME type, or by name for types like application/octet-stream).
+export function isImportableFile(mime: string, name: string) {
+  return mime.startsWith("video/") || extFromMime(mime) != null || extFromName(name) != null;
+}
+
+// The file picker's accept list.
+export const IMPORT_ACCEPT = "video/*,audio/mpeg,audio/wav,audio/x-wav,audio/mp4,audio/x-m4a,image/png,image/jpeg,.mp3,.wav,.m4a,.png,.jpg,.jpeg";
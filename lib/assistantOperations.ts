@@ -0,0 +1,178 @@
+import type { AssistantOperation, RejectedAssistantOperation } from "./types";
+
+// Runtime checks for AssistantOperation. Shared by /api/assistant (before responding) and the Studio (before applying),
+// so a bad op from a model, an old server or a hand-written request never reaches the timeline.
+
+export const ASSISTANT_LIMITS = {
+  targetSeconds: { min: 5, max: 20 * 60 },
+  clipSeconds: { min: 0.2, max: 30 },
+  fadeSeconds: { min: 0, max: 5 },
+  trackVolume: { min: 0, max: 2 }
+} as const;
+
+export const ASSISTANT_OPERATION_NAMES: AssistantOperation["op"][] = [
+  "trim_to_target_seconds",
+  "auto_edit",
+  "set_clip_length_profile",
+  "set_audio_fades",
+  "set_audio_linked",
+  "set_track_audio"
+];
+
+const STYLES = ["fast", "cinematic", "story"] as const;
+
+export type OperationCheck = { ok: true; op: AssistantOperation } | { ok: false; error: string };
+
+export function validateAssistantOperation(raw: unknown): OperationCheck {
+  if (!raw || typeof raw !== "object") return { ok: false, error: "not an object" };
+  const o = raw as Record<string, unknown>;
+  const L = ASSISTANT_LIMITS;
+
+  switch (o.op) {
+    case "trim_to_target_seconds": {
+      const err = rangeError("targetSeconds", o.targetSeconds, L.targetSeconds);
+      if (err) return { ok: false, error: err };
+      return { ok: true, op: { op: o.op, targetSeconds: o.targetSeconds as number } };
+    }
+    case "auto_edit": {
+      const err = rangeError("targetSeconds", o.targetSeconds, L.targetSeconds);
+      if (err) return { ok: false, error: err };
+      if (o.style != null && !STYLES.includes(o.style as any)) return { ok: false, error: `style must be one of ${STYLES.join(", ")}` };
+      if (o.highlightsOnly != null && typeof o.highlightsOnly !== "boolean") return { ok: false, error: "highlightsOnly must be a boolean" };
+      return {
+        ok: true,
+        op: {
+          op: o.op,
+          targetSeconds: o.targetSeconds as number,
+          ...(o.style != null ? { style: o.style as (typeof STYLES)[number] } : {}),
+          ...(o.highlightsOnly != null ? { highlightsOnly: o.highlightsOnly as boolean } : {})
+        }
+      };
+    }
+    case "set_clip_length_profile": {
+      const err =
+        rangeError("minSeconds", o.minSeconds, L.clipSeconds) ??
+        rangeError("maxSeconds", o.maxSeconds, L.clipSeconds) ??
+        (o.avgSeconds != null ? rangeError("avgSeconds", o.avgSeconds, L.clipSeconds) : null);
+      if (err) return { ok: false, error: err };
+      const min = o.minSeconds as number;
+      const max = o.maxSeconds as number;
+      const avg = o.avgSeconds as number | undefined;
+      if (min > max) return { ok: false, error: "minSeconds must be <= maxSeconds" };
+      if (avg != null && (avg < min || avg > max)) return { ok: false, error: "avgSeconds must be between minSeconds and maxSeconds" };
+      return { ok: true, op: { op: o.op, minSeconds: min, maxSeconds: max, ...(avg != null ? { avgSeconds: avg } : {}) } };
+    }
+    case "set_audio_fades": {
+      const err = rangeError("fadeInSeconds", o.fadeInSeconds, L.fadeSeconds) ?? rangeError("fadeOutSeconds", o.fadeOutSeconds, L.fadeSeconds);
+      if (err) return { ok: false, error: err };
+      return { ok: true, op: { op: o.op, fadeInSeconds: o.fadeInSeconds as number, fadeOutSeconds: o.fadeOutSeconds as number } };
+    }
+    case "set_audio_linked": {
+      if (typeof o.linked !== "boolean") return { ok: false, error: "linked must be a boolean" };
+      return { ok: true, op: { op: o.op, linked: o.linked } };
+    }
+    case "set_track_audio": {
+      if (o.volume == null && o.muted == null) return { ok: false, error: "needs volume or muted" };
+      const err = o.volume != null ? rangeError("volume", o.volume, L.trackVolume) : null;
+      if (err) return { ok: false, error: err };
+      if (o.muted != null && typeof o.muted !== "boolean") return { ok: false, error: "muted must be a boolean" };
+      return {
+        ok: true,
+        op: {
+          op: o.op,
+          ...(o.volume != null ? { volume: o.volume as number } : {}),
+          ...(o.muted != null ? { muted: o.muted as boolean } : {})
+        }
+      };
+    }
+    default:
+      return { ok: false, error: typeof o.op === "string" ? "unknown operation" : "missing op" };
+  }
+}
+
+// Splits a reply's operations into the ones safe to apply and the ones to report back to the user.
+export function validateAssistantOperations(list: unknown): {
+  operations: AssistantOperation[];
+  rejected: RejectedAssistantOperation[];
+} {
+  const operations: AssistantOperation[] = [];
+  const rejected: RejectedAssistantOperation[] = [];
+  if (list == null) return { operations, rejected };
+  if (!Array.isArray(list)) return { operations, rejected: [{ op: "operations", reason: "must be a list" }] };
+  for (const raw of list) {
+    const check = validateAssistantOperation(raw);
+    if (check.ok) operations.push(check.op);
+    else rejected.push({ op: typeof (raw as any)?.op === "string" ? (raw as any).op : "?", reason: check.error });
+  }
+  return { operations, rejected };
+}
+
+export function describeRejectedOperations(rejected: RejectedAssistantOperation[]) {
+  const list = rejected.map((r) => `${r.op} (${r.reason})`).join("; ");
+  return `I skipped ${rejected.length === 1 ? "one change" : `${rejected.length} changes`} that didn't pass validation: ${list}.`;
+}
+
+function rangeError(name: string, value: unknown, range: { min: number; max: number }) {
+  if (typeof value !== "number" || !Number.isFinite(value)) return `${name} must be a number`;
+  if (value < range.min || value > range.max) return `${name} must be between ${range.min} and ${range.max}`;
+  return null;
+}
+
+// JSON schema for AssistantOperation (lib/types.ts), sent to models so they only propose ops that pass the checks above.
+export const ASSISTANT_OPERATION_SCHEMA = {
+  oneOf: [
+    {
+      type: "object",
+      properties: {
+        op: { const: "trim_to_target_seconds" },
+        targetSeconds: { type: "number", minimum: ASSISTANT_LIMITS.targetSeconds.min, maximum: ASSISTANT_LIMITS.targetSeconds.max }
+      },
+      required: ["op", "targetSeconds"]
+    },
+    {
+      type: "object",
+      properties: {
+        op: { const: "auto_edit" },
+        targetSeconds: { type: "number", minimum: ASSISTANT_LIMITS.targetSeconds.min, maximum: ASSISTANT_LIMITS.targetSeconds.max },
+        style: { enum: STYLES },
+        highlightsOnly: { type: "boolean" }
+      },
+      required: ["op", "targetSeconds"]
+    },
+    {
+      type: "object",
+      description: "Re-time every clip around its midpoint. minSeconds <= avgSeconds <= maxSeconds.",
+      properties: {
+        op: { const: "set_clip_length_profile" },
+        minSeconds: { type: "number", minimum: ASSISTANT_LIMITS.clipSeconds.min, maximum: ASSISTANT_LIMITS.clipSeconds.max },
+        maxSeconds: { type: "number", minimum: ASSISTANT_LIMITS.clipSeconds.min, maximum: ASSISTANT_LIMITS.clipSeconds.max },
+        avgSeconds: { type: "number", minimum: ASSISTANT_LIMITS.clipSeconds.min, maximum: ASSISTANT_LIMITS.clipSeconds.max }
+      },
+      required: ["op", "minSeconds", "maxSeconds"]
+    },
+    {
+      type: "object",
+      properties: {
+        op: { const: "set_audio_fades" },
+        fadeInSeconds: { type: "number", minimum: ASSISTANT_LIMITS.fadeSeconds.min, maximum: ASSISTANT_LIMITS.fadeSeconds.max },
+        fadeOutSeconds: { type: "number", minimum: ASSISTANT_LIMITS.fadeSeconds.min, maximum: ASSISTANT_LIMITS.fadeSeconds.max }
+      },
+      required: ["op", "fadeInSeconds", "fadeOutSeconds"]
+    },
+    {
+      type: "object",
+      properties: { op: { const: "set_audio_linked" }, linked: { type: "boolean" } },
+      required: ["op", "linked"]
+    },
+    {
+      type: "object",
+      description: "Needs at least one of volume or muted.",
+      properties: {
+        op: { const: "set_track_audio" },
+        volume: { type: "number", minimum: ASSISTANT_LIMITS.trackVolume.min, maximum: ASSISTANT_LIMITS.trackVolume.max },
+        muted: { type: "boolean" }
+      },
+      required: ["op"]
+    }
+  ]
+} as const;
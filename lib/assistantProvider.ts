@@ -0,0 +1,124 @@
+import type { AssistantAssetSummary, AssistantReply, ProjectTimeline } from "./types";
+import { ASSISTANT_OPERATION_SCHEMA } from "./assistantOperations";
+
+// Server-only: LLM backend for /api/assistant.
+// Talks to any OpenAI-compatible chat completions endpoint (OpenAI, a local llama.cpp/vLLM server, or a mock).
+// Configure with ASSISTANT_API_KEY (or OPENAI_API_KEY), ASSISTANT_BASE_URL and ASSISTANT_MODEL.
+// With no key configured the route keeps using its rules parser.
+
+export type AssistantRequest = {
+  message: string;
+  timeline: ProjectTimeline | null;
+  assets: AssistantAssetSummary[];
+};
+
+export type AssistantProvider = {
+  name: string;
+  reply(req: AssistantRequest): Promise<AssistantReply>;
+};
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_MODEL = "gpt-4o-mini";
+
+export function getAssistantProvider(): AssistantProvider | null {
+  const apiKey = (process.env.ASSISTANT_API_KEY || process.env.OPENAI_API_KEY || "").trim();
+  if (!apiKey) return null;
+  return createOpenAICompatibleProvider({
+    apiKey,
+    baseUrl: process.env.ASSISTANT_BASE_URL?.trim() || DEFAULT_BASE_URL,
+    model: process.env.ASSISTANT_MODEL?.trim() || DEFAULT_MODEL,
+    timeoutMs: Number(process.env.ASSISTANT_TIMEOUT_MS) || 30_000
+  });
+}
+
+export function createOpenAICompatibleProvider(opts: {
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+  timeoutMs: number;
+}): AssistantProvider {
+  const url = `${opts.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  return {
+    name: "openai-compatible",
+    async reply(req) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), opts.timeoutMs);
+      try {
+        const res = await fetch(url, {
+          method: "POST",
+          headers: { "content-type": "application/json", authorization: `Bearer ${opts.apiKey}` },
+          body: JSON.stringify({
+            model: opts.model,
+            temperature: 0.2,
+            response_format: { type: "json_object" },
+            messages: [
+              { role: "system", content: SYSTEM_PROMPT },
+              { role: "user", content: `Project:\n${summarizeProject(req)}\n\nRequest:\n${req.message}` }
+            ]
+          }),
+          signal: controller.signal
+        });
+        if (!res.ok) throw new Error(`Assistant backend returned ${res.status}: ${(await res.text()).slice(0, 300)}`);
+        const data = (await res.json()) as any;
+        const content = data?.choices?.[0]?.message?.content;
+        if (typeof content !== "string") throw new Error("Assistant backend returned no message");
+        return parseModelReply(content);
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  };
+}
+
+export function parseModelReply(content: string): AssistantReply {
+  let json: any;
+  try {
+    // Some models wrap JSON in a ``` fence even in JSON mode.
+    json = JSON.parse(content.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ""));
+  } catch {
+    throw new Error("Assistant backend did not return JSON");
+  }
+  const reply = typeof json?.reply === "string" && json.reply.trim() ? json.reply.trim() : "Done.";
+  // Raw ops; the route validates them (lib/assistantOperations.ts) before responding.
+  return { reply, operations: Array.isArray(json?.operations) ? json.operations : [] };
+}
+
+const SYSTEM_PROMPT = [
+  "You are the editing assistant inside a short-form video editor.",
+  "Reply with a single JSON object: {\"reply\": string, \"operations\": AssistantOperation[]}.",
+  "\"reply\" is one or two friendly sentences for the user. \"operations\" are applied to the timeline in order;",
+  "leave it empty when you are only asking a question or the request can't be done with these operations.",
+  "Durations are in seconds. auto_edit rebuilds the cut from the Library, so only use it when the user wants a new draft.",
+  `AssistantOperation JSON schema: ${JSON.stringify(ASSISTANT_OPERATION_SCHEMA)}`
+].join("\n");
+
+// Compact, token-cheap view of the project. Long timelines are truncated.
+function summarizeProject(req: AssistantRequest) {
+  const t = req.timeline;
+  const clips = t?.clips ?? [];
+  const total = clips.reduce((sum, c) => sum + Math.max(0, c.sourceOut - c.sourceIn), 0);
+  const summary = {
+    durationSeconds: round2(total),
+    clips: clips.slice(0, 60).map((c) => ({ label: c.label, assetId: c.assetId, in: round2(c.sourceIn), out: round2(c.sourceOut) })),
+    clipsOmitted: Math.max(0, clips.length - 60),
+    audio: {
+      linked: t?.audioLinked !== false,
+      muted: Boolean(t?.trackAudioMuted),
+      volume: t?.trackAudioVolume ?? 1
+    },
+    captions: t?.captions?.length ?? 0,
+    library: req.assets.slice(0, 30).map((a) => ({
+      assetId: a.assetId,
+      name: a.name,
+      durationSeconds: round2(a.durationSeconds),
+      hasAudio: a.hasAudio,
+      highlights: a.highlightCount,
+      transcript: a.transcriptExcerpt
+    }))
+  };
+  return JSON.stringify(summary);
+}
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
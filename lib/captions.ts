@@ -0,0 +1,87 @@
+import type { CaptionCue, CaptionExportMode, CaptionStyle } from "./types";
+
+export const CAPTION_STYLES: Record<CaptionStyle, { label: string }> = {
+  clean: { label: "Clean (white, thin outline)" },
+  bold: { label: "Bold (large, heavy outline)" },
+  boxed: { label: "Boxed (text on dark box)" }
+};
+
+export const DEFAULT_CAPTION_SECONDS = 2.5;
+const MIN_CUE_SECONDS = 0.3;
+
+export function isCaptionStyle(value: unknown): value is CaptionStyle {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(CAPTION_STYLES, value);
+}
+
+export function isCaptionExportMode(value: unknown): value is CaptionExportMode {
+  return value === "off" || value === "burn" || value === "sidecar";
+}
+
+// Drops malformed/empty cues, clips them to [0, maxSeconds] and sorts by start.
+export function normalizeCaptionCues(cues: unknown, maxSeconds: number): CaptionCue[] {
+  if (!Array.isArray(cues)) return [];
+  const out: CaptionCue[] = [];
+  for (const c of cues) {
+    if (!c || typeof c.id !== "string" || typeof c.text !== "string") continue;
+    const text = cueText(c.text);
+    const start = Math.max(0, Number(c.start));
+    const end = Math.min(maxSeconds, Number(c.end));
+    if (!text || !Number.isFinite(start) || !Number.isFinite(end)) continue;
+    if (end - start < 0.05) continue;
+    out.push({ id: c.id, start, end, text });
+  }
+  return out.sort((a, b) => a.start - b.start);
+}
+
+// One line of plain text: a blank line or "-->" would start a new cue in SRT/VTT.
+function cueText(text: string) {
+  return text.replace(/\s*[\r\n]+\s*/g, " ").replace(/-->/g, "->").trim();
+}
+
+export function makeCaptionCue(start: number, text = "New caption"): CaptionCue {
+  const s = Math.max(0, start);
+  return { id: crypto.randomUUID(), start: s, end: s + DEFAULT_CAPTION_SECONDS, text };
+}
+
+// Applies a start/end patch while keeping the cue at least MIN_CUE_SECONDS long and >= 0.
+export function patchCaptionCue(cue: CaptionCue, patch: Partial<Pick<CaptionCue, "start" | "end" | "text">>): CaptionCue {
+  const startRaw = patch.start != null ? patch.start : cue.start;
+  const endRaw = patch.end != null ? patch.end : cue.end;
+  const start = Math.max(0, Number.isFinite(startRaw) ? startRaw : cue.start);
+  const end = Math.max(start + MIN_CUE_SECONDS, Number.isFinite(endRaw) ? endRaw : cue.end);
+  return { ...cue, ...patch, start, end };
+}
+
+export function activeCaptionAt(cues: CaptionCue[] | undefined, t: number) {
+  if (!cues?.length) return null;
+  return cues.find((c) => t >= c.start && t < c.end) ?? null;
+}
+
+export function toSrt(cues: CaptionCue[]) {
+  return cues
+    .map((c, i) => `${i + 1}\n${srtTime(c.start)} --> ${srtTime(c.end)}\n${c.text}\n`)
+    .join("\n");
+}
+
+export function toVtt(cues: CaptionCue[]) {
+  const body = cues.map((c) => `${vttTime(c.start)} --> ${vttTime(c.end)}\n${c.text}\n`).join("\n");
+  return `WEBVTT\n\n${body}`;
+}
+
+function srtTime(seconds: number) {
+  return clockTime(seconds).replace(".", ",");
+}
+
+function vttTime(seconds: number) {
+  return clockTime(seconds);
+}
+
+// HH:MM:SS.mmm
+function clockTime(seconds: number) {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(ms / 3_600_000);
+  const m = Math.floor((ms % 3_600_000) / 60_000);
+  const s = Math.floor((ms % 60_000) / 1000);
+  const r = ms % 1000;
+  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}.${String(r).padStart(3, "0")}`;
+}
@@ -0,0 +1,105 @@
+import type { CaptionExportMode, ExportAspect, ExportFormat, ExportResolution, LoudnessTarget } from "./types";
+
+// Shared by the export route (validation + output naming) and the Studio export form.
+
+export type ExportFormatKind = "video" | "gif" | "audio";
+
+export type ExportFormatSpec = {
+  label: string;
+  extension: string;
+  kind: ExportFormatKind;
+  resolutions: ExportResolution[];
+  // Whether 9:16 / 1:1 / 4:5 reframing applies (audio-only outputs have no frame).
+  supportsAspect: boolean;
+};
+
+// GIFs get big fast: keep them small and choppy on purpose.
+export const GIF_MAX_FPS = 15;
+export const GIF_MAX_WIDTH = 640;
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatSpec> = {
+  MP4: { label: "MP4 (H.264 / AAC)", extension: "mp4", kind: "video", resolutions: ["720p", "1080p", "4K"], supportsAspect: true },
+  WebM: { label: "WebM (VP9 / Opus)", extension: "webm", kind: "video", resolutions: ["720p", "1080p", "4K"], supportsAspect: true },
+  MOV: { label: "MOV (ProRes 422 / PCM)", extension: "mov", kind: "video", resolutions: ["720p", "1080p", "4K"], supportsAspect: true },
+  GIF: { label: `GIF (max ${GIF_MAX_WIDTH}px, ${GIF_MAX_FPS} fps)`, extension: "gif", kind: "gif", resolutions: ["720p"], supportsAspect: true },
+  M4A: { label: "M4A audio (AAC)", extension: "m4a", kind: "audio", resolutions: [], supportsAspect: false },
+  WAV: { label: "WAV audio (PCM)", extension: "wav", kind: "audio", resolutions: [], supportsAspect: false }
+};
+
+// Integrated loudness targets. Every target shares the true-peak ceiling below.
+export const LOUDNESS_TARGETS: Record<Exclude<LoudnessTarget, "off" | "custom">, { label: string; lufs: number }> = {
+  streaming: { label: "Streaming (-14 LUFS)", lufs: -14 },
+  podcast: { label: "Podcast (-16 LUFS)", lufs: -16 },
+  broadcast: { label: "Broadcast (-23 LUFS, EBU R128)", lufs: -23 }
+};
+export const LOUDNESS_TRUE_PEAK_DB = -1;
+// loudnorm's accepted range for I.
+export const CUSTOM_LOUDNESS_MIN = -70;
+export const CUSTOM_LOUDNESS_MAX = -5;
+
+export const EXPORT_FORMAT_LIST = Object.keys(EXPORT_FORMATS) as ExportFormat[];
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, value);
+}
+
+export function isLoudnessTarget(value: unknown): value is LoudnessTarget {
+  return value === "off" || value === "custom" || (typeof value === "string" && Object.prototype.hasOwnProperty.call(LOUDNESS_TARGETS, value));
+}
+
+// Target LUFS, or null when normalization is off (or the custom value is unusable).
+export function loudnessTargetLufs(target: LoudnessTarget, customLufs?: number) {
+  if (target === "off") return null;
+  if (target !== "custom") return LOUDNESS_TARGETS[target].lufs;
+  return typeof customLufs === "number" && customLufs >= CUSTOM_LOUDNESS_MIN && customLufs <= CUSTOM_LOUDNESS_MAX ? customLufs : null;
+}
+
+export function isExportResolution(value: unknown): value is ExportResolution {
+  return value === "720p" || value === "1080p" || value === "4K";
+}
+
+// Returns a user-facing reason when the combination can't be exported, or null when it's fine.
+export function exportOptionsError(
+  format: ExportFormat,
+  opts: {
+    resolution: ExportResolution;
+    audioMuted: boolean;
+    captions: CaptionExportMode;
+    hasCaptions: boolean;
+    loudness?: LoudnessTarget;
+    customLufs?: number;
+  }
+) {
+  const spec = EXPORT_FORMATS[format];
+  if (opts.captions !== "off" && !opts.hasCaptions) return "Add captions to the timeline first (or turn captions off).";
+  if (opts.loudness && opts.loudness !== "off") {
+    if (spec.kind === "gif") return "GIFs have no audio; turn loudness normalization off.";
+    if (opts.audioMuted && spec.kind !== "audio") return "Loudness normalization needs audio, but the audio track is muted.";
+    if (loudnessTargetLufs(opts.loudness, opts.customLufs) == null) {
+      return `Custom loudness must be between ${CUSTOM_LOUDNESS_MIN} and ${CUSTOM_LOUDNESS_MAX} LUFS.`;
+    }
+  }
+  if (spec.kind === "audio") {
+    if (opts.audioMuted) return `${format} is audio-only, but the audio track is muted.`;
+    if (opts.captions === "burn") return `Captions can't be burned into ${format} (audio-only); use SRT/VTT files instead.`;
+    return null;
+  }
+  if (!spec.resolutions.includes(opts.resolution)) {
+    return `${format} supports ${spec.resolutions.join(", ")} only.`;
+  }
+  return null;
+}
+
+// Nearest valid settings after switching format (keeps what still applies).
+export function coerceExportOptions(
+  format: ExportFormat,
+  opts: { resolution: ExportResolution; aspect: ExportAspect; captions: CaptionExportMode; loudness: LoudnessTarget }
+) {
+  const spec = EXPORT_FORMATS[format];
+  return {
+    resolution: spec.resolutions.length === 0 || spec.resolutions.includes(opts.resolution) ? opts.resolution : spec.resolutions[0],
+    aspect: spec.supportsAspect ? opts.aspect : ("source" as ExportAspect),
+    captions: spec.kind === "audio" && opts.captions === "burn" ? ("sidecar" as CaptionExportMode) : opts.captions,
+    loudness: spec.kind === "gif" ? ("off" as LoudnessTarget) : opts.loudness
+  };
+}
@@ -0,0 +1,130 @@
+import type { ChildProcess } from "node:child_process";
+import type { ExportJobStatus, ExportLoudnessReport } from "./types";
+
+// Server-only: in-memory registry of export renders (one ffmpeg child per job).
+// MVP ONLY: jobs live in the Next server process and are lost on restart.
+
+type ExportJob = ExportJobStatus & {
+  durationSeconds: number;
+  child: ChildProcess | null;
+};
+
+// Finished jobs are kept around for a while so a reloaded Studio can still pick up the result.
+const FINISHED_JOB_TTL_MS = 60 * 60_000;
+
+// Route handlers are bundled separately (and re-evaluated on dev reloads), so the registry lives on globalThis.
+const registry = globalThis as typeof globalThis & { __clipgeniusExportJobs?: Map<string, ExportJob> };
+
+function jobs() {
+  if (!registry.__clipgeniusExportJobs) registry.__clipgeniusExportJobs = new Map();
+  return registry.__clipgeniusExportJobs;
+}
+
+export function createExportJob(durationSeconds: number): ExportJobStatus {
+  pruneFinishedJobs();
+  const now = Date.now();
+  const job: ExportJob = {
+    jobId: crypto.randomUUID(),
+    state: "running",
+    progress: 0,
+    exportUrl: null,
+    sidecarUrls: [],
+    loudness: null,
+    error: null,
+    createdAt: now,
+    updatedAt: now,
+    durationSeconds: Math.max(0.001, durationSeconds),
+    child: null
+  };
+  jobs().set(job.jobId, job);
+  return toStatus(job);
+}
+
+export function getExportJob(jobId: string): ExportJobStatus | null {
+  const job = jobs().get(jobId);
+  return job ? toStatus(job) : null;
+}
+
+export function isExportJobActive(jobId: string) {
+  return jobs().get(jobId)?.state === "running";
+}
+
+export function attachExportProcess(jobId: string, child: ChildProcess) {
+  const job = jobs().get(jobId);
+  if (!job) return;
+  job.child = child;
+  // Cancel may have raced the spawn.
+  if (job.state !== "running") child.kill("SIGKILL");
+}
+
+export function reportExportProgress(jobId: string, outTimeSeconds: number) {
+  const job = jobs().get(jobId);
+  if (!job || job.state !== "running") return;
+  if (!Number.isFinite(outTimeSeconds) || outTimeSeconds < 0) return;
+  // Hold back the last percent until ffmpeg has actually exited.
+  const progress = Math.min(0.99, outTimeSeconds / job.durationSeconds);
+  if (progress <= job.progress) return;
+  job.progress = progress;
+  job.updatedAt = Date.now();
+}
+
+export function completeExportJob(
+  jobId: string,
+  exportUrl: string,
+  sidecarUrls: string[] = [],
+  loudness: ExportLoudnessReport | null = null
+) {
+  const job = jobs().get(jobId);
+  if (!job || job.state !== "running") return;
+  job.state = "done";
+  job.progress = 1;
+  job.exportUrl = exportUrl;
+  job.sidecarUrls = sidecarUrls;
+  job.loudness = loudness;
+  job.child = null;
+  job.updatedAt = Date.now();
+}
+
+export function failExportJob(jobId: string, error: string) {
+  const job = jobs().get(jobId);
+  if (!job || job.state !== "running") return;
+  job.state = "failed";
+  job.error = error;
+  job.child = null;
+  job.updatedAt = Date.now();
+}
+
+export function cancelExportJob(jobId: string): ExportJobStatus | null {
+  const job = jobs().get(jobId);
+  if (!job) return null;
+  if (job.state === "running") {
+    job.state = "canceled";
+    job.updatedAt = Date.now();
+    try {
+      job.child?.kill("SIGKILL");
+    } catch {}
+    job.child = null;
+  }
+  return toStatus(job);
+}
+
+function pruneFinishedJobs() {
+  const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+  for (const [id, job] of jobs().entries()) {
+    if (job.state !== "running" && job.updatedAt < cutoff) jobs().delete(id);
+  }
+}
+
+function toStatus(job: ExportJob): ExportJobStatus {
+  return {
+    jobId: job.jobId,
+    state: job.state,
+    progress: job.progress,
+    exportUrl: job.exportUrl,
+    sidecarUrls: job.sidecarUrls,
+    loudness: job.loudness,
+    error: job.error,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt
+  };
+}
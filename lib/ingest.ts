@@ -0,0 +1,863 @@
+import { spawn } from "node:child_process";
+import { rm, stat } from "node:fs/promises";
+import type { AnalysisTimeline, AnalysisClip, AssetKind, AudioLoudness, ThumbnailSprite } from "./types";
+import { enqueueAnalysisJob, getAnalysisJob } from "./analysisJobs";
+import type { AnalysisJobContext } from "./analysisJobs";
+import { STILL_SOURCE_SECONDS } from "./assetKinds";
+import { LOUDNESS_FLOOR_LUFS, silenceThresholdDb } from "./loudness";
+import { findMediaByHash, saveMediaEntry, updateMediaEntry } from "./mediaIndex";
+import type { MediaIndexEntry } from "./mediaIndex";
+import { getStorage, releaseWorkPath, storageUrl, workPath } from "./storage";
+import { getTranscriptionProvider } from "./transcription";
+import { PEAKS_SAMPLE_RATE, createPeakBuilder, encodeWaveformPeaks } from "./waveformPeaks";
+import type { WaveformPeaks } from "./waveformPeaks";
+
+// Server-only: what happens to an upload once its bytes are on local disk (rotation fix, scene cuts, loudness,
+// highlights, waveform peaks, filmstrip thumbnails, preview proxy, transcript). Audio-only files skip the
+// picture stages; images only get a still proxy and a one-frame filmstrip. Shared by POST /api/upload and chunked uploads (/api/uploads).
+// Files are written to workPath() and handed to lib/storage.ts, so the same code runs on local disk and S3.
+
+export type UploadResult = {
+  assetId: string;
+  kind: AssetKind;
+  videoUrl: string;
+  durationSeconds: number;
+  hasAudio: boolean;
+  waveformUrl: string | null;
+  peaksUrl: string | null;
+  proxyUrl: string | null;
+  thumbnails: ThumbnailSprite | null;
+  analysis: AnalysisTimeline | null;
+  // Background analysis to poll (GET /api/analysis/<jobId>); null if the file couldn't be probed.
+  analysisJobId: string | null;
+  // SHA-256 of the uploaded bytes.
+  sourceHash: string | null;
+  // True if the same bytes were already stored: the earlier file and its analysis were reused.
+  deduplicated: boolean;
+};
+
+// Storage key for an upload named `${assetId}.${ext}` (or one of its derived files).
+export function uploadKey(filename: string) {
+  return `uploads/${filename}`;
+}
+
+// `src` is the uploaded file at workPath(uploadKey(filename)), named `${assetId}.${ext}`, and `sha256` its hash.
+// A file seen before (lib/mediaIndex.ts) is dropped in favour of the stored one. Otherwise it's stored right away;
+// only a quick probe runs here, the rest is queued (lib/analysisJobs.ts) and the response carries the job id to poll.
+export async function processUpload(assetId: string, src: string, filename: string, sha256: string): Promise<UploadResult> {
+  const known = await findMediaByHash(sha256);
+  if (known && (await getStorage().exists(known.key).catch(() => false))) {
+    await rm(src, { force: true });
+    return reuseUpload(assetId, known);
+  }
+
+  const key = uploadKey(filename);
+  await getStorage().putFile(key, src);
+  const videoUrl = storageUrl(key);
+  let kind: AssetKind = "video";
+  let rotationDegrees = 0;
+  let hasAudio = false;
+  let durationSeconds = 0;
+  try {
+    const info = await getVideoStreamInfo(src);
+    kind = info.kind;
+    rotationDegrees = info.rotationDegrees;
+    hasAudio = info.hasAudio;
+    // Images have no duration of their own; see STILL_SOURCE_SECONDS.
+    durationSeconds = kind === "image" ? STILL_SOURCE_SECONDS : await getDurationSeconds(src);
+  } catch {
+    // Not something ffprobe can read: return the upload without analysis.
+    await releaseWorkPath(key);
+    return {
+      assetId,
+      kind,
+      videoUrl,
+      durationSeconds,
+      hasAudio,
+      waveformUrl: null,
+      peaksUrl: null,
+      proxyUrl: null,
+      thumbnails: null,
+      analysis: null,
+      analysisJobId: null,
+      sourceHash: sha256,
+      deduplicated: false
+    };
+  }
+
+  // The index entry follows the job, so a re-import after it finishes gets the full analysis.
+  const results: Parameters<AnalysisJobContext["update"]>[0] = {};
+  const job = enqueueAnalysisJob({ assetId, videoUrl }, (ctx) =>
+    analyzeUpload(
+      { assetId, kind, filePath: src, rotationDegrees, hasAudio, durationSeconds },
+      {
+        stage: ctx.stage,
+        update(patch) {
+          Object.assign(results, patch);
+          ctx.update(patch);
+        }
+      }
+    ).finally(async () => {
+      await releaseWorkPath(key);
+      await updateMediaEntry(sha256, { ...results, analysisJobId: null }).catch(() => {});
+    })
+  );
+  const { size } = await stat(src).catch(() => ({ size: 0 }));
+  await saveMediaEntry({
+    sha256,
+    key,
+    assetId,
+    kind,
+    size,
+    videoUrl,
+    durationSeconds,
+    hasAudio,
+    waveformUrl: null,
+    peaksUrl: null,
+    proxyUrl: null,
+    thumbnails: null,
+    analysis: null,
+    analysisJobId: job.jobId
+  }).catch(() => {});
+  return {
+    assetId,
+    kind,
+    videoUrl,
+    durationSeconds,
+    hasAudio,
+    waveformUrl: null,
+    peaksUrl: null,
+    proxyUrl: null,
+    thumbnails: null,
+    analysis: null,
+    analysisJobId: job.jobId,
+    sourceHash: sha256,
+    deduplicated: false
+  };
+}
+
+// A new asset on an already-stored file. If the first upload is still being analyzed, the caller polls that job.
+function reuseUpload(assetId: string, known: MediaIndexEntry): UploadResult {
+  const job = known.analysisJobId ? getAnalysisJob(known.analysisJobId) : null;
+  const running = job?.state === "queued" || job?.state === "running";
+  const analysis = (running ? job.analysis : null) ?? known.analysis;
+  return {
+    assetId,
+    kind: known.kind ?? "video",
+    videoUrl: (running ? job.videoUrl : null) ?? known.videoUrl,
+    durationSeconds: known.durationSeconds,
+    hasAudio: known.hasAudio,
+    waveformUrl: (running ? job.waveformUrl : null) ?? known.waveformUrl,
+    peaksUrl: (running ? job.peaksUrl : null) ?? known.peaksUrl ?? null,
+    proxyUrl: (running ? job.proxyUrl : null) ?? known.proxyUrl ?? null,
+    thumbnails: (running ? job.thumbnails : null) ?? known.thumbnails ?? null,
+    analysis: analysis ? { ...analysis, assetId } : null,
+    analysisJobId: running ? job.jobId : null,
+    sourceHash: known.sha256,
+    deduplicated: true
+  };
+}
+
+// Each stage is optional: a failed stage is skipped and the next one still runs on what we have.
+async function analyzeUpload(
+  input: { assetId: string; kind: AssetKind; filePath: string; rotationDegrees: number; hasAudio: boolean; durationSeconds: number },
+  job: AnalysisJobContext
+) {
+  const { assetId } = input;
+  if (input.kind === "image") return analyzeStill(assetId, input.filePath, job);
+
+  // Normalize iPhone/QuickTime rotation metadata for browser preview.
+  // Many .mov files store portrait footage as landscape pixels + a rotation tag.
+  // Browsers can render that inconsistently; we bake the rotation into frames.
+  let analyzePath = input.filePath;
+  const normKey = uploadKey(`${assetId}_norm.mp4`);
+  if (input.rotationDegrees !== 0) {
+    job.stage("normalize");
+    try {
+      const normalizedPath = await workPath(normKey);
+      await normalizeRotation(input.filePath, normalizedPath, input.rotationDegrees);
+      await getStorage().putFile(normKey, normalizedPath);
+      analyzePath = normalizedPath;
+      job.update({ videoUrl: storageUrl(normKey) });
+    } catch {
+      // Non-fatal; fall back to original file.
+    }
+  }
+
+  try {
+    await analyzeFile({ ...input, analyzePath }, job);
+  } finally {
+    await releaseWorkPath(normKey);
+  }
+}
+
+// Scene cuts, loudness, highlights, waveform, thumbnails, proxy and transcript, all read from `analyzePath` (the normalized file if there is one).
+async function analyzeFile(
+  input: { assetId: string; kind: AssetKind; analyzePath: string; hasAudio: boolean; durationSeconds: number },
+  job: AnalysisJobContext
+) {
+  const { assetId, analyzePath, hasAudio } = input;
+  const hasPicture = input.kind === "video";
+
+  // Auto timeline generation (scene cuts). Uses the normalized file (if generated), so cuts match preview.
+  job.stage("scenes");
+  const durationSeconds = await getDurationSeconds(analyzePath).catch(() => input.durationSeconds);
+  let sceneTimes: number[] = [];
+  try {
+    // Audio-only files get evenly split clips.
+    if (hasPicture) sceneTimes = await detectSceneCuts(analyzePath, { threshold: 0.25, maxCuts: 24 });
+  } catch {
+    // Keep going — we can still build a usable fallback timeline.
+    sceneTimes = [];
+  }
+  let clips = buildClipsFromCuts(durationSeconds, sceneTimes, { minClipSeconds: 2, maxClips: 12 });
+  let analysis: AnalysisTimeline = { assetId, durationSeconds, clips, transcript: null };
+  job.update({ analysis });
+
+  // EBU R128 loudness: lets the Studio match clip levels, and sets this file's silence threshold below.
+  if (hasAudio) {
+    job.stage("loudness");
+    try {
+      analysis = { ...analysis, loudness: await measureLoudness(analyzePath, durationSeconds) };
+      job.update({ analysis });
+    } catch {
+      // Non-fatal; highlights fall back to a fixed threshold.
+    }
+  }
+
+  // If we have audio, detect non-silent regions and mark those clips as "highlight".
+  // This makes "Focus on action scenes" / "highlights only" drafts much more reliable
+  // even when visual scene-cut detection is noisy.
+  if (hasAudio) {
+    job.stage("highlights");
+    try {
+      const silences = await detectSilences(analyzePath, {
+        thresholdDb: silenceThresholdDb(analysis.loudness),
+        minSilenceSeconds: 0.35,
+        timeoutMs: 120_000
+      });
+      const nonSilent = invertIntervals({ start: 0, end: durationSeconds }, silences).filter((s) => s.end - s.start >= 0.6);
+      clips = clips.map((c, idx) => {
+        // Keep intro/outro as source for story structure.
+        if (idx === 0 || idx === clips.length - 1) return { ...c, kind: "source" };
+        const len = Math.max(0.001, c.end - c.start);
+        const nonSilentOverlap = overlapSeconds({ start: c.start, end: c.end }, nonSilent);
+        const frac = nonSilentOverlap / len;
+        return { ...c, kind: frac >= 0.6 ? ("highlight" as const) : ("source" as const) };
+      });
+      analysis = { ...analysis, clips };
+      job.update({ analysis });
+    } catch {
+      // Non-fatal.
+    }
+  }
+
+  // Waveform peaks for the audio lane (optional).
+  if (hasAudio) {
+    job.stage("waveform");
+    try {
+      const peaksKey = uploadKey(`${assetId}_peaks.json`);
+      const peaks = await generatePeaks(analyzePath);
+      await getStorage().put(peaksKey, JSON.stringify(encodeWaveformPeaks(peaks)));
+      job.update({ peaksUrl: storageUrl(peaksKey) });
+    } catch {
+      // Non-fatal.
+    }
+  }
+
+  if (hasPicture) {
+    await storeThumbnails(assetId, analyzePath, durationSeconds, job);
+
+    // Preview proxy: scrubbing big or HEVC originals in <video> is choppy. Exports keep using the original.
+    job.stage("proxy");
+    const proxyKey = uploadKey(`${assetId}_proxy.mp4`);
+    try {
+      const proxyPath = await workPath(proxyKey);
+      await generateProxy(analyzePath, proxyPath, hasAudio);
+      await getStorage().putFile(proxyKey, proxyPath);
+      job.update({ proxyUrl: storageUrl(proxyKey) });
+    } catch {
+      // Non-fatal; the Studio previews the original.
+    } finally {
+      await releaseWorkPath(proxyKey);
+    }
+  }
+
+  // Word-level transcript (optional). Last, since a model can take a while.
+  if (hasAudio) {
+    try {
+      const provider = getTranscriptionProvider();
+      if (provider) {
+        job.stage("transcript");
+        const transcript = await provider.transcribe(analyzePath, { durationSeconds });
+        job.update({ analysis: { ...analysis, transcript } });
+      }
+    } catch {
+      // Non-fatal; the asset just has no transcript.
+    }
+  }
+}
+
+// Images: a still video of STILL_SOURCE_SECONDS, so the Studio previews, scrubs and trims stills in the same
+// <video> player as footage, and a one-frame filmstrip. No analysis timeline (auto-edit skips stills).
+async function analyzeStill(assetId: string, filePath: string, job: AnalysisJobContext) {
+  job.stage("proxy");
+  const proxyKey = uploadKey(`${assetId}_proxy.mp4`);
+  try {
+    const proxyPath = await workPath(proxyKey);
+    await generateStillProxy(filePath, proxyPath);
+    await getStorage().putFile(proxyKey, proxyPath);
+    job.update({ proxyUrl: storageUrl(proxyKey) });
+  } finally {
+    // Without a proxy the Studio can't show the still, so this one fails the job.
+    await releaseWorkPath(proxyKey);
+  }
+  await storeThumbnails(assetId, filePath, 1, job);
+}
+
+// Filmstrip for the video lane and the Library: one sprite sheet instead of a request per frame.
+async function storeThumbnails(assetId: string, src: string, durationSeconds: number, job: AnalysisJobContext) {
+  job.stage("thumbnails");
+  const thumbsKey = uploadKey(`${assetId}_thumbs.jpg`);
+  try {
+    const thumbsPath = await workPath(thumbsKey);
+    const sprite = await generateThumbnailSprite(src, thumbsPath, durationSeconds);
+    await getStorage().putFile(thumbsKey, thumbsPath);
+    job.update({ thumbnails: { url: storageUrl(thumbsKey), ...sprite } });
+  } catch {
+    // Non-fatal; clips are drawn without frames.
+  } finally {
+    await releaseWorkPath(thumbsKey);
+  }
+}
+
+function run(cmd: string, args: string[], opts?: { timeoutMs?: number }) {
+  const timeoutMs = opts?.timeoutMs ?? 60_000;
+
+  return new Promise<{ stdout: string; stderr: string }>((resolve, reject) => {
+    const child = spawn(cmd, args, { stdio: ["ignore", "pipe", "pipe"] });
+    const chunksOut: Buffer[] = [];
+    const chunksErr: Buffer[] = [];
+
+    const timer = setTimeout(() => {
+      child.kill("SIGKILL");
+      reject(new Error(`Command timed out: ${cmd}`));
+    }, timeoutMs);
+
+    child.stdout.on("data", (d) => chunksOut.push(Buffer.from(d)));
+    child.stderr.on("data", (d) => chunksErr.push(Buffer.from(d)));
+
+    child.on("error", (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      const stdout = Buffer.concat(chunksOut).toString("utf8");
+      const stderr = Buffer.concat(chunksErr).toString("utf8");
+      if (code === 0) resolve({ stdout, stderr });
+      else reject(new Error(stderr || `Command failed: ${cmd} (${code})`));
+    });
+  });
+}
+
+async function getDurationSeconds(filePath: string) {
+  const { stdout } = await run(
+    "ffprobe",
+    ["-v", "error", "-show_entries", "format=duration", "-of", "default=nw=1:nk=1", filePath],
+    { timeoutMs: 30_000 }
+  );
+
+  const n = Number(String(stdout).trim());
+  if (!Number.isFinite(n) || n <= 0) throw new Error("Could not determine duration");
+  return n;
+}
+
+async function getVideoStreamInfo(filePath: string) {
+  const { stdout } = await run(
+    "ffprobe",
+    [
+      "-v",
+      "error",
+      "-show_streams",
+      "-show_format",
+      "-of",
+      "json",
+      filePath
+    ],
+    { timeoutMs: 30_000 }
+  );
+
+  const json = JSON.parse(stdout || "{}") as any;
+  const streams = Array.isArray(json?.streams) ? json.streams : [];
+  // Cover art in MP3/M4A files shows up as a one-frame video stream; it doesn't make the file a video.
+  const stream = streams.find((s: any) => s?.codec_type === "video" && s?.disposition?.attached_pic !== 1) ?? null;
+  const width = Number(stream?.width ?? 0);
+  const height = Number(stream?.height ?? 0);
+
+  let rot = 0;
+  const tagRot = stream?.tags?.rotate;
+  if (tagRot != null) rot = Number(tagRot) || 0;
+
+  // Some builds of ffprobe expose rotation in side_data_list.
+  if (!rot && Array.isArray(stream?.side_data_list)) {
+    for (const sd of stream.side_data_list) {
+      if (sd && sd.rotation != null) {
+        rot = Number(sd.rotation) || 0;
+        break;
+      }
+    }
+  }
+
+  // Normalize to {0,90,180,270}.
+  rot = ((rot % 360) + 360) % 360;
+  if (rot > 315 || rot < 45) rot = 0;
+  else if (rot >= 45 && rot < 135) rot = 90;
+  else if (rot >= 135 && rot < 225) rot = 180;
+  else rot = 270;
+
+  // Detect if an audio stream exists.
+  const hasAudio = streams.some((s: any) => s?.codec_type === "audio");
+
+  // PNG/JPEG open through the image demuxers ("png_pipe", "jpeg_pipe", "image2"), as one frame with no duration.
+  const formatName = String(json?.format?.format_name ?? "");
+  const isImage = Boolean(stream) && !hasAudio && /(^|,)(image2|png_pipe|jpeg_pipe)(,|$)/.test(formatName);
+  if (!stream && !hasAudio) throw new Error("No audio or video streams");
+  const kind: AssetKind = isImage ? "image" : stream ? "video" : "audio";
+
+  return { kind, width, height, rotationDegrees: isImage ? 0 : rot, hasAudio };
+}
+
+async function normalizeRotation(src: string, dst: string, rotationDegrees: number) {
+  let vf = "";
+  if (rotationDegrees === 90) vf = "transpose=1";
+  else if (rotationDegrees === 270) vf = "transpose=2";
+  else if (rotationDegrees === 180) vf = "transpose=2,transpose=2";
+  else return;
+
+  await run(
+    "ffmpeg",
+    [
+      "-hide_banner",
+      "-y",
+      "-i",
+      src,
+      "-vf",
+      vf,
+      "-c:v",
+      "libx264",
+      "-preset",
+      "veryfast",
+      "-crf",
+      "20",
+      "-c:a",
+      "aac",
+      "-b:a",
+      "128k",
+      "-metadata:s:v:0",
+      "rotate=0",
+      "-movflags",
+      "+faststart",
+      dst
+    ],
+    { timeoutMs: 10 * 60_000 }
+  );
+}
+
+// 540p on the short side (never upscaled), H.264 with a keyframe every 12 frames so seeks land fast.
+async function generateProxy(src: string, dst: string, hasAudio: boolean) {
+  await run(
+    "ffmpeg",
+    [
+      "-hide_banner",
+      "-y",
+      "-i",
+      src,
+      "-map",
+      "0:v:0",
+      ...(hasAudio ? ["-map", "0:a:0"] : []),
+      "-vf",
+      "scale='if(gt(iw,ih),-2,min(540,iw))':'if(gt(iw,ih),min(540,ih),-2)'",
+      "-c:v",
+      "libx264",
+      "-preset",
+      "veryfast",
+      "-crf",
+      "28",
+      "-g",
+      "12",
+      "-keyint_min",
+      "12",
+      "-sc_threshold",
+      "0",
+      "-pix_fmt",
+      "yuv420p",
+      ...(hasAudio ? ["-c:a", "aac", "-b:a", "96k", "-ac", "2"] : ["-an"]),
+      "-movflags",
+      "+faststart",
+      dst
+    ],
+    { timeoutMs: 20 * 60_000 }
+  );
+}
+
+// About one frame per second (at most THUMB_MAX_FRAMES, spread evenly over longer assets), each letterboxed to
+// THUMB_WIDTH x THUMB_HEIGHT and tiled THUMB_COLUMNS per row into a single JPEG.
+const THUMB_WIDTH = 128;
+const THUMB_HEIGHT = 72;
+const THUMB_COLUMNS = 10;
+const THUMB_MAX_FRAMES = 100;
+
+// STILL_SOURCE_SECONDS of one image at 1 fps: a few KB of H.264, scaled like generateProxy (and to even sizes).
+async function generateStillProxy(src: string, dst: string) {
+  await run(
+    "ffmpeg",
+    [
+      "-hide_banner",
+      "-y",
+      "-loop",
+      "1",
+      "-framerate",
+      "1",
+      "-t",
+      String(STILL_SOURCE_SECONDS),
+      "-i",
+      src,
+      "-vf",
+      "scale='if(gt(iw,ih),-2,min(540,iw))':'if(gt(iw,ih),min(540,ih),-2)',scale=trunc(iw/2)*2:trunc(ih/2)*2,format=yuv420p",
+      "-c:v",
+      "libx264",
+      "-preset",
+      "veryfast",
+      "-tune",
+      "stillimage",
+      "-crf",
+      "28",
+      "-g",
+      "10",
+      "-an",
+      "-movflags",
+      "+faststart",
+      dst
+    ],
+    { timeoutMs: 5 * 60_000 }
+  );
+}
+
+async function generateThumbnailSprite(src: string, dst: string, durationSeconds: number): Promise<Omit<ThumbnailSprite, "url">> {
+  const count = clamp(Math.ceil(durationSeconds), 1, THUMB_MAX_FRAMES);
+  const intervalSeconds = durationSeconds / count;
+  const columns = Math.min(THUMB_COLUMNS, count);
+  const rows = Math.ceil(count / columns);
+  const vf = [
+    `fps=${(1 / intervalSeconds).toFixed(6)}`,
+    `scale=${THUMB_WIDTH}:${THUMB_HEIGHT}:force_original_aspect_ratio=decrease`,
+    `pad=${THUMB_WIDTH}:${THUMB_HEIGHT}:(ow-iw)/2:(oh-ih)/2:color=black`,
+    `tile=${columns}x${rows}`
+  ].join(",");
+  await run(
+    "ffmpeg",
+    ["-hide_banner", "-y", "-i", src, "-an", "-vf", vf, "-frames:v", "1", "-q:v", "5", dst],
+    { timeoutMs: 5 * 60_000 }
+  );
+  return { frameWidth: THUMB_WIDTH, frameHeight: THUMB_HEIGHT, columns, count, intervalSeconds };
+}
+
+// Decodes the audio to mono 8 kHz PCM on stdout and folds it into peaks as it streams (never buffered whole).
+function generatePeaks(src: string, timeoutMs = 5 * 60_000) {
+  return new Promise<WaveformPeaks>((resolve, reject) => {
+    const child = spawn(
+      "ffmpeg",
+      ["-hide_banner", "-v", "error", "-i", src, "-vn", "-ac", "1", "-ar", String(PEAKS_SAMPLE_RATE), "-f", "s16le", "-"],
+      { stdio: ["ignore", "pipe", "pipe"] }
+    );
+    const builder = createPeakBuilder();
+    let carry: Buffer | null = null;
+    let stderr = "";
+
+    const timer = setTimeout(() => {
+      child.kill("SIGKILL");
+      reject(new Error("Command timed out: ffmpeg"));
+    }, timeoutMs);
+
+    child.stdout.on("data", (d: Buffer) => {
+      const buf: Buffer = carry ? Buffer.concat([carry, d]) : d;
+      const even = buf.length - (buf.length % 2);
+      carry = even < buf.length ? buf.subarray(even) : null;
+      // Copy into a fresh Int16Array: chunk offsets aren't guaranteed to be 2-byte aligned. s16le = host order here.
+      const samples = new Int16Array(even / 2);
+      new Uint8Array(samples.buffer).set(buf.subarray(0, even));
+      builder.push(samples);
+    });
+    child.stderr.on("data", (d) => (stderr += String(d)));
+    child.on("error", (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      if (code === 0) resolve(builder.finish());
+      else reject(new Error(stderr || `Command failed: ffmpeg (${code})`));
+    });
+  });
+}
+
+async function detectSceneCuts(
+  filePath: string,
+  opts: { threshold: number; maxCuts: number }
+): Promise<number[]> {
+  // NOTE: showinfo prints to stderr.
+  const vf = `select='gt(scene,${opts.threshold})',showinfo`;
+  const { stderr } = await run("ffmpeg", ["-hide_banner", "-i", filePath, "-vf", vf, "-f", "null", "-"], {
+    timeoutMs: 120_000
+  });
+
+  const times: number[] = [];
+  const re = /pts_time:([0-9.]+)/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(stderr))) {
+    const t = Number(m[1]);
+    if (Number.isFinite(t)) times.push(t);
+    if (times.length >= opts.maxCuts) break;
+  }
+
+  // De-dupe + sort + remove very-close cuts.
+  times.sort((a, b) => a - b);
+  const out: number[] = [];
+  for (const t of times) {
+    if (out.length === 0 || t - out[out.length - 1] > 0.6) out.push(t);
+  }
+  return out;
+}
+
+function buildClipsFromCuts(
+  durationSeconds: number,
+  cuts: number[],
+  opts: { minClipSeconds: number; maxClips: number }
+): AnalysisClip[] {
+  const times = [0, ...cuts.filter((t) => t > 0.3 && t < durationSeconds - 0.3), durationSeconds];
+  times.sort((a, b) => a - b);
+
+  let clips: AnalysisClip[] = [];
+  for (let i = 0; i < times.length - 1; i++) {
+    const start = times[i];
+    const end = times[i + 1];
+    if (end - start < 0.25) continue;
+    clips.push({
+      id: crypto.randomUUID(),
+      label: `Scene ${i + 1}`,
+      // We refine this later using audio non-silence detection (if available),
+      // but defaulting mid scenes to highlights makes the editor feel "smart"
+      // even when silence detection isn't available.
+      kind: "highlight",
+      start,
+      end
+    });
+  }
+
+  // Merge tiny clips into the next clip to keep the UI clean.
+  const minLen = Math.max(0.5, opts.minClipSeconds);
+  const merged: AnalysisClip[] = [];
+  for (let i = 0; i < clips.length; i++) {
+    const c = clips[i];
+    const len = c.end - c.start;
+    if (len >= minLen || merged.length === 0) {
+      merged.push(c);
+      continue;
+    }
+    // Merge into previous clip.
+    const prev = merged[merged.length - 1];
+    merged[merged.length - 1] = { ...prev, end: c.end };
+  }
+  clips = merged;
+
+  // Cap the number of clips by merging the shortest until we fit.
+  while (clips.length > opts.maxClips) {
+    let smallestIdx = -1;
+    let smallestLen = Number.POSITIVE_INFINITY;
+    for (let i = 0; i < clips.length; i++) {
+      const len = clips[i].end - clips[i].start;
+      if (len < smallestLen) {
+        smallestLen = len;
+        smallestIdx = i;
+      }
+    }
+    if (smallestIdx <= 0) {
+      // Merge first into second
+      const a = clips[0];
+      const b = clips[1];
+      clips.splice(0, 2, { ...b, start: a.start });
+    } else {
+      const a = clips[smallestIdx - 1];
+      const b = clips[smallestIdx];
+      clips.splice(smallestIdx - 1, 2, { ...a, end: b.end });
+    }
+  }
+
+  // Friendlier labels for the first/last clip.
+  if (clips.length >= 2) {
+    clips[0] = { ...clips[0], label: "Intro", kind: "source" };
+    clips[clips.length - 1] = { ...clips[clips.length - 1], label: "Outro", kind: "source" };
+  }
+
+  // If scene detection didn't find useful cuts (common for some MOVs),
+  // fall back to a clean, "concept-like" 5-part timeline so the UI is still usable.
+  if (clips.length <= 1 && durationSeconds > 6) {
+    const parts = [
+      { label: "Intro", kind: "source" as const },
+      { label: "Action Peak", kind: "highlight" as const },
+      { label: "Highlight", kind: "highlight" as const },
+      { label: "Climax", kind: "highlight" as const },
+      { label: "Outro", kind: "source" as const }
+    ];
+    const seg = durationSeconds / parts.length;
+    clips = parts.map((p, i) => {
+      const start = i * seg;
+      const end = i === parts.length - 1 ? durationSeconds : (i + 1) * seg;
+      return {
+        id: crypto.randomUUID(),
+        label: p.label,
+        kind: p.kind,
+        start,
+        end
+      };
+    });
+  }
+
+  return clips;
+}
+
+// At most this many points in the short-term loudness curve (1 per second for files up to 10 minutes).
+const LOUDNESS_CURVE_MAX_POINTS = 600;
+
+async function measureLoudness(filePath: string, durationSeconds: number): Promise<AudioLoudness> {
+  // ebur128 logs one line per 100 ms (framelog=info) and a summary at the end, all on stderr.
+  const { stderr } = await run(
+    "ffmpeg",
+    ["-hide_banner", "-nostats", "-i", filePath, "-vn", "-af", "ebur128=peak=true:framelog=info", "-f", "null", "-"],
+    { timeoutMs: 5 * 60_000 }
+  );
+
+  // "-inf" (and anything unparsable) reads as silence.
+  const level = (s: string) => (Number.isFinite(Number(s)) ? Math.max(LOUDNESS_FLOOR_LUFS, Number(s)) : LOUDNESS_FLOOR_LUFS);
+  const frames: Array<{ t: number; s: number }> = [];
+  const reFrame = /\bt:\s*([0-9.]+)\s+TARGET:\S+\s+LUFS\s+M:\s*(-?[0-9.]+|-inf)\s+S:\s*(-?[0-9.]+|-inf)/g;
+  let m: RegExpExecArray | null;
+  while ((m = reFrame.exec(stderr))) frames.push({ t: Number(m[1]), s: level(m[3]) });
+
+  const summary = stderr.slice(stderr.lastIndexOf("Summary:"));
+  const integrated = summary.match(/I:\s*(-?[0-9.]+|-inf)\s*LUFS/);
+  const range = summary.match(/LRA:\s*(-?[0-9.]+)\s*LU\b/);
+  const peak = summary.match(/Peak:\s*(-?[0-9.]+|-inf)\s*dBFS/);
+  if (!integrated || !frames.length) throw new Error("Could not measure loudness");
+
+  const intervalSeconds = Math.max(1, durationSeconds / LOUDNESS_CURVE_MAX_POINTS);
+  const values: number[] = [];
+  for (const f of frames) {
+    const i = Math.floor(f.t / intervalSeconds);
+    // Keep the first frame at or after each sample point.
+    if (i >= values.length) values.push(Math.round(f.s * 10) / 10);
+  }
+
+  const audible = frames.map((f) => f.s).filter((s) => s > LOUDNESS_FLOOR_LUFS).sort((a, b) => a - b);
+  const noiseFloorLufs = audible.length ? audible[Math.floor(audible.length * 0.1)] : LOUDNESS_FLOOR_LUFS;
+
+  return {
+    integratedLufs: level(integrated[1]),
+    rangeLu: Number(range?.[1]) || 0,
+    peakDb: peak && peak[1] !== "-inf" ? Number(peak[1]) : LOUDNESS_FLOOR_LUFS,
+    noiseFloorLufs,
+    shortTerm: { intervalSeconds, values }
+  };
+}
+
+type Interval = { start: number; end: number };
+
+async function detectSilences(
+  filePath: string,
+  opts: { thresholdDb: number; minSilenceSeconds: number; timeoutMs: number }
+): Promise<Interval[]> {
+  const thr = Number(opts.thresholdDb);
+  const d = Number(opts.minSilenceSeconds);
+  const { stderr } = await run(
+    "ffmpeg",
+    ["-hide_banner", "-i", filePath, "-af", `silencedetect=n=${thr}dB:d=${d}`, "-f", "null", "-"],
+    { timeoutMs: opts.timeoutMs }
+  );
+
+  const silences: Interval[] = [];
+  const reStart = /silence_start:\s*([0-9.]+)/g;
+  const reEnd = /silence_end:\s*([0-9.]+)/g;
+
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let m: RegExpExecArray | null;
+  while ((m = reStart.exec(stderr))) {
+    const t = Number(m[1]);
+    if (Number.isFinite(t)) starts.push(t);
+  }
+  while ((m = reEnd.exec(stderr))) {
+    const t = Number(m[1]);
+    if (Number.isFinite(t)) ends.push(t);
+  }
+
+  // Pair starts/ends in order. If an end is missing (silence runs to EOF), we drop it here;
+  // the caller can clamp with the known duration by complementing intervals.
+  const n = Math.min(starts.length, ends.length);
+  for (let i = 0; i < n; i++) {
+    const s = starts[i];
+    const e = ends[i];
+    if (!Number.isFinite(s) || !Number.isFinite(e)) continue;
+    if (!(e > s)) continue;
+    silences.push({ start: s, end: e });
+  }
+
+  silences.sort((a, b) => a.start - b.start);
+  return mergeIntervals(silences, 0.05);
+}
+
+function mergeIntervals(list: Interval[], pad: number) {
+  const out: Interval[] = [];
+  for (const it of list) {
+    const s = it.start - pad;
+    const e = it.end + pad;
+    if (out.length === 0) {
+      out.push({ start: s, end: e });
+      continue;
+    }
+    const prev = out[out.length - 1];
+    if (s <= prev.end) prev.end = Math.max(prev.end, e);
+    else out.push({ start: s, end: e });
+  }
+  return out;
+}
+
+function invertIntervals(domain: Interval, silences: Interval[]): Interval[] {
+  const out: Interval[] = [];
+  const a = domain.start;
+  const b = domain.end;
+  let cur = a;
+  for (const s of silences) {
+    const ss = clamp(s.start, a, b);
+    const ee = clamp(s.end, a, b);
+    if (ss > cur) out.push({ start: cur, end: ss });
+    cur = Math.max(cur, ee);
+  }
+  if (cur < b) out.push({ start: cur, end: b });
+  return out.filter((x) => x.end > x.start);
+}
+
+function overlapSeconds(interval: Interval, list: Interval[]) {
+  let sum = 0;
+  for (const it of list) {
+    const s = Math.max(interval.start, it.start);
+    const e = Math.min(interval.end, it.end);
+    if (e > s) sum += e - s;
+  }
+  return sum;
+}
+
+function clamp(n: number, a: number, b: number) {
+  return Math.max(a, Math.min(b, n));
+}
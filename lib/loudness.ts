@@ -0,0 +1,42 @@
+import type { AudioLoudness } from "./types";
+
+// Helpers over an asset's loudness measurements (AnalysisTimeline.loudness, measured during upload analysis).
+// Shared by upload analysis (silence threshold) and the Studio (clip gain matching).
+
+// ebur128 reports true silence far below this; everything under it counts as -70.
+export const LOUDNESS_FLOOR_LUFS = -70;
+const DEFAULT_SILENCE_THRESHOLD_DB = -35;
+
+// Audio below this level counts as silence for highlight detection. Sits a little above the file's own noise
+// floor (so hiss and room tone aren't "speech"), but well under its programme loudness.
+export function silenceThresholdDb(loudness: AudioLoudness | null | undefined) {
+  if (!loudness || !Number.isFinite(loudness.integratedLufs)) return DEFAULT_SILENCE_THRESHOLD_DB;
+  const aboveFloor = loudness.noiseFloorLufs + 8;
+  const belowProgramme = loudness.integratedLufs - 10;
+  return clamp(Math.min(aboveFloor, belowProgramme), -60, -20);
+}
+
+// Loudness of source range t0..t1 from the short-term curve (power average, silence gated out); null if silent.
+export function rangeLoudness(loudness: AudioLoudness | null | undefined, t0: number, t1: number) {
+  const curve = loudness?.shortTerm;
+  if (!curve?.values.length || !(curve.intervalSeconds > 0)) return null;
+  const from = clamp(Math.floor(t0 / curve.intervalSeconds), 0, curve.values.length - 1);
+  const to = clamp(Math.ceil(t1 / curve.intervalSeconds), from + 1, curve.values.length);
+  let power = 0;
+  let n = 0;
+  for (let i = from; i < to; i++) {
+    const v = curve.values[i];
+    if (v <= LOUDNESS_FLOOR_LUFS) continue;
+    power += Math.pow(10, v / 10);
+    n++;
+  }
+  return n ? 10 * Math.log10(power / n) : null;
+}
+
+export function dbToGain(db: number) {
+  return Math.pow(10, db / 20);
+}
+
+function clamp(n: number, a: number, b: number) {
+  return Math.max(a, Math.min(b, n));
+}
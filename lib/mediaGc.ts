@@ -0,0 +1,144 @@
+import path from "node:path";
+import type { AssetDeleteResult, MediaGcReport, ProjectAsset, ProjectDocument } from "./types";
+import { deleteMediaEntry, listMediaEntries } from "./mediaIndex";
+import { getProject, getSnapshot, listProjects, listSnapshots } from "./projectStore";
+import { getStorage, storageKeyFromUrl } from "./storage";
+
+// Server-only: removes stored media nothing points at any more.
+// - uploads not referenced by a saved project or snapshot, once older than UPLOAD_GC_GRACE_HOURS (default 24),
+//   so files from a Studio that hasn't autosaved yet (or an analysis still running) survive;
+// - exports older than EXPORT_RETENTION_HOURS (default 168; exports are one-off downloads, never referenced);
+// - media index entries (lib/mediaIndex.ts) whose file is gone.
+// Uploads are grouped by asset: "<assetId>.mp4", "<assetId>_norm.mp4", "<assetId>_peaks.json"... are kept or
+// removed together, so a referenced normalized copy also keeps its original.
+
+const GC_INTERVAL_MS = 6 * 60 * 60_000;
+
+function hours(name: string, fallback: number) {
+  const n = Number(process.env[name]);
+  return (Number.isFinite(n) && n >= 0 ? n : fallback) * 60 * 60_000;
+}
+
+// "uploads/<assetId>_peaks.json" -> "<assetId>".
+function uploadStem(key: string) {
+  return path.basename(key).match(/^[^._]+/)?.[0] ?? null;
+}
+
+export function assetMediaUrls(asset: ProjectAsset) {
+  return [asset.videoUrl, asset.waveformUrl, asset.peaksUrl, asset.proxyUrl, asset.thumbnails?.url];
+}
+
+function addDocumentStems(stems: Set<string>, doc: ProjectDocument) {
+  for (const asset of doc.assets ?? []) addUrlStems(stems, assetMediaUrls(asset));
+}
+
+function addUrlStems(stems: Set<string>, urls: Array<string | null | undefined>) {
+  for (const url of urls) {
+    const key = storageKeyFromUrl(url);
+    const stem = key?.startsWith("uploads/") ? uploadStem(key) : null;
+    if (stem) stems.add(stem);
+  }
+}
+
+// Upload stems used by saved projects and their snapshots. `exceptProjectId`'s current document is skipped
+// (the caller knows better what it still uses); its snapshots still count.
+async function referencedUploadStems(exceptProjectId?: string) {
+  const stems = new Set<string>();
+  for (const summary of await listProjects()) {
+    if (summary.id !== exceptProjectId) {
+      const project = await getProject(summary.id);
+      if (project) addDocumentStems(stems, project.document);
+    }
+    for (const snap of await listSnapshots(summary.id)) {
+      const snapshot = await getSnapshot(summary.id, snap.id);
+      if (snapshot) addDocumentStems(stems, snapshot.document);
+    }
+  }
+  return stems;
+}
+
+export async function collectGarbage(opts: { dryRun?: boolean } = {}): Promise<MediaGcReport> {
+  const dryRun = Boolean(opts.dryRun);
+  const storage = getStorage();
+  const now = Date.now();
+  const uploadCutoff = now - hours("UPLOAD_GC_GRACE_HOURS", 24);
+  const exportCutoff = now - hours("EXPORT_RETENTION_HOURS", 168);
+  const referenced = await referencedUploadStems();
+
+  const deleted: string[] = [];
+  let bytesFreed = 0;
+  let keptUploads = 0;
+  const remove = async (key: string, size: number) => {
+    if (!dryRun) await storage.delete(key);
+    deleted.push(key);
+    bytesFreed += size;
+  };
+
+  for (const obj of await storage.list("uploads/")) {
+    const stem = uploadStem(obj.key);
+    if (!stem || referenced.has(stem) || obj.modifiedAt > uploadCutoff) keptUploads++;
+    else await remove(obj.key, obj.size);
+  }
+  for (const obj of await storage.list("exports/")) {
+    if (obj.modifiedAt <= exportCutoff) await remove(obj.key, obj.size);
+  }
+
+  const gone = new Set(deleted);
+  let prunedIndexEntries = 0;
+  for (const entry of await listMediaEntries()) {
+    if (gone.has(entry.key) || !(await storage.exists(entry.key).catch(() => true))) {
+      if (!dryRun) await deleteMediaEntry(entry.sha256);
+      prunedIndexEntries++;
+    }
+  }
+
+  lastRun().at = now;
+  return { dryRun, deleted, bytesFreed, keptUploads, prunedIndexEntries, ranAt: now };
+}
+
+// Starts a collection in the background if the last one was more than 6 hours ago. Called after uploads and exports.
+export function maybeCollectGarbage() {
+  const state = lastRun();
+  if (state.running || Date.now() - state.at < GC_INTERVAL_MS) return;
+  state.running = true;
+  state.at = Date.now();
+  void collectGarbage()
+    .catch(() => {
+      // Tried again on the next schedule.
+    })
+    .finally(() => {
+      state.running = false;
+    });
+}
+
+// Deletes the files uploaded for `assetId` unless something else still uses them: another saved project,
+// any snapshot, or `keepUrls` (the media of the assets left in the caller's project).
+export async function deleteAssetMedia(
+  assetId: string,
+  opts: { projectId?: string; keepUrls?: string[] } = {}
+): Promise<AssetDeleteResult> {
+  const referenced = await referencedUploadStems(opts.projectId);
+  addUrlStems(referenced, opts.keepUrls ?? []);
+  if (referenced.has(assetId)) return { deleted: [], inUse: true };
+
+  const storage = getStorage();
+  const deleted: string[] = [];
+  for (const obj of await storage.list("uploads/")) {
+    if (uploadStem(obj.key) !== assetId) continue;
+    await storage.delete(obj.key);
+    deleted.push(obj.key);
+  }
+  const gone = new Set(deleted);
+  for (const entry of await listMediaEntries()) {
+    if (gone.has(entry.key)) await deleteMediaEntry(entry.sha256);
+  }
+  return { deleted, inUse: false };
+}
+
+// Route handlers are bundled separately, so the schedule lives on globalThis.
+const registry = globalThis as typeof globalThis & { __clipgeniusMediaGc?: { at: number; running: boolean } };
+
+function lastRun() {
+  if (!registry.__clipgeniusMediaGc) registry.__clipgeniusMediaGc = { at: 0, running: false };
+  return registry.__clipgeniusMediaGc;
+}
@@ -0,0 +1,86 @@
+import { mkdir, readFile, readdir, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { AnalysisTimeline, AssetKind, ThumbnailSprite } from "./types";
+
+// Server-only: uploads indexed by the SHA-256 of their bytes, one JSON file each under MEDIA_INDEX_DIR
+// (default ./data/media). Lets a re-import of the same file reuse the stored copy and its analysis.
+// MVP ONLY: two identical uploads racing each other are both stored; the later one wins the index.
+
+export type MediaIndexEntry = {
+  sha256: string;
+  // Storage key of the original (see lib/storage.ts) and the asset it was first uploaded as.
+  key: string;
+  assetId: string;
+  // Absent on entries from before audio and image import (all video).
+  kind?: AssetKind;
+  size: number;
+  videoUrl: string;
+  durationSeconds: number;
+  hasAudio: boolean;
+  waveformUrl: string | null;
+  peaksUrl?: string | null;
+  proxyUrl?: string | null;
+  thumbnails?: ThumbnailSprite | null;
+  analysis: AnalysisTimeline | null;
+  // Set while the first upload's analysis is still running.
+  analysisJobId: string | null;
+  createdAt: number;
+  updatedAt: number;
+};
+
+const SHA256_RE = /^[a-f0-9]{64}$/;
+
+function indexDir() {
+  return process.env.MEDIA_INDEX_DIR?.trim() || path.join(process.cwd(), "data", "media");
+}
+
+function entryPath(sha256: string) {
+  return path.join(indexDir(), `${sha256}.json`);
+}
+
+export async function findMediaByHash(sha256: string): Promise<MediaIndexEntry | null> {
+  if (!SHA256_RE.test(sha256)) return null;
+  try {
+    return JSON.parse(await readFile(entryPath(sha256), "utf8")) as MediaIndexEntry;
+  } catch {
+    return null;
+  }
+}
+
+export async function saveMediaEntry(entry: Omit<MediaIndexEntry, "createdAt" | "updatedAt">): Promise<MediaIndexEntry> {
+  const now = Date.now();
+  const saved: MediaIndexEntry = { ...entry, createdAt: now, updatedAt: now };
+  await writeJsonAtomic(entryPath(entry.sha256), saved);
+  return saved;
+}
+
+export async function updateMediaEntry(
+  sha256: string,
+  patch: Partial<Pick<MediaIndexEntry, "videoUrl" | "waveformUrl" | "peaksUrl" | "proxyUrl" | "thumbnails" | "analysis" | "analysisJobId">>
+) {
+  const entry = await findMediaByHash(sha256);
+  if (!entry) return;
+  await writeJsonAtomic(entryPath(sha256), { ...entry, ...patch, updatedAt: Date.now() });
+}
+
+export async function listMediaEntries(): Promise<MediaIndexEntry[]> {
+  const names = await readdir(indexDir()).catch(() => [] as string[]);
+  const out: MediaIndexEntry[] = [];
+  for (const name of names) {
+    if (!name.endsWith(".json")) continue;
+    const entry = await findMediaByHash(name.slice(0, -5));
+    if (entry) out.push(entry);
+  }
+  return out;
+}
+
+export async function deleteMediaEntry(sha256: string) {
+  if (SHA256_RE.test(sha256)) await rm(entryPath(sha256), { force: true });
+}
+
+async function writeJsonAtomic(dst: string, value: unknown) {
+  await mkdir(path.dirname(dst), { recursive: true });
+  const tmp = `${dst}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(value));
+  await rename(tmp, dst);
+}
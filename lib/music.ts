@@ -0,0 +1,62 @@
+import type { MusicBed, MusicDucking, ProjectTimeline, TimelineAsset } from "./types";
+import { rangeLoudness, silenceThresholdDb } from "./loudness";
+
+// Music bed (M1) settings, shared by the export filter graph and the Studio's preview approximation.
+
+export const MUSIC_DUCK_MAX_DB = 30;
+export const MUSIC_ATTACK_MS = { min: 5, max: 2000 };
+export const MUSIC_RELEASE_MS = { min: 20, max: 5000 };
+export const DEFAULT_MUSIC_DUCKING: MusicDucking = { enabled: true, depthDb: 12, attackMs: 150, releaseMs: 600 };
+
+// The bed with every setting filled in and clamped to its range.
+export function resolveMusicBed(bed: MusicBed) {
+  const d = bed.ducking ?? DEFAULT_MUSIC_DUCKING;
+  return {
+    assetId: bed.assetId,
+    volume: clamp(num(bed.volume, 1), 0, 2),
+    muted: Boolean(bed.muted),
+    loop: bed.loop !== false,
+    fadeIn: clamp(num(bed.fadeIn, 0), 0, 60),
+    fadeOut: clamp(num(bed.fadeOut, 0), 0, 60),
+    ducking: {
+      enabled: Boolean(d.enabled),
+      depthDb: clamp(num(d.depthDb, DEFAULT_MUSIC_DUCKING.depthDb), 0, MUSIC_DUCK_MAX_DB),
+      attackMs: clamp(num(d.attackMs, DEFAULT_MUSIC_DUCKING.attackMs), MUSIC_ATTACK_MS.min, MUSIC_ATTACK_MS.max),
+      releaseMs: clamp(num(d.releaseMs, DEFAULT_MUSIC_DUCKING.releaseMs), MUSIC_RELEASE_MS.min, MUSIC_RELEASE_MS.max)
+    }
+  };
+}
+
+// Whether A1 plays dialogue at project time `t`, for ducking the music in preview. Uses the clip's measured
+// loudness when the asset has it (so pauses between sentences let the music back up), else any unmuted audio.
+export function dialogueActiveAt(timeline: ProjectTimeline, assetsById: Map<string, TimelineAsset>, t: number) {
+  if (timeline.trackAudioMuted) return false;
+  const unlinked = timeline.audioLinked === false && Array.isArray(timeline.audioClips);
+  let acc = 0;
+  const ranges = unlinked
+    ? timeline.audioClips!.map((c) => ({ assetId: c.assetId, sourceIn: c.sourceIn, sourceOut: c.sourceOut, start: c.start, muted: c.muted }))
+    : timeline.clips.map((c) => {
+        const start = acc;
+        acc += Math.max(0, c.sourceOut - c.sourceIn);
+        return { assetId: c.assetId, sourceIn: c.sourceIn, sourceOut: c.sourceOut, start, muted: c.audioMuted };
+      });
+  for (const r of ranges) {
+    if (r.muted || t < r.start || t >= r.start + (r.sourceOut - r.sourceIn)) continue;
+    const asset = assetsById.get(r.assetId);
+    if (!asset?.hasAudio) continue;
+    const loudness = asset.analysis?.loudness;
+    if (!loudness) return true;
+    const at = r.sourceIn + (t - r.start);
+    const level = rangeLoudness(loudness, at - 0.2, at + 0.2);
+    if (level != null && level > silenceThresholdDb(loudness)) return true;
+  }
+  return false;
+}
+
+function num(v: unknown, fallback: number) {
+  return typeof v === "number" && Number.isFinite(v) ? v : fallback;
+}
+
+function clamp(n: number, a: number, b: number) {
+  return Math.max(a, Math.min(b, n));
+}
@@ -0,0 +1,221 @@
+import { createHash } from "node:crypto";
+import path from "node:path";
+import type { ProjectAsset, ProjectBundleImport, ProjectDocument, ProjectFileIssue } from "./types";
+import { findMediaByHash, saveMediaEntry } from "./mediaIndex";
+import { parseProjectFile, toProjectFile } from "./projectFile";
+import { getStorage, storageKeyFromUrl, storageUrl } from "./storage";
+import { createZip, readZip } from "./zip";
+
+// Server-only: portable project bundles. A bundle is a .zip with
+//   project.json     - the project file (lib/projectFile.ts), media URLs rewritten to "media/<file>"
+//   media/<file>     - every upload the project references (video, waveform peaks, preview proxy, thumbnails)
+// Analysis and transcripts travel inside project.json with their asset.
+// MVP ONLY: bundles are built and read in memory, like uploads.
+
+const PROJECT_ENTRY = "project.json";
+const MEDIA_PREFIX = "media/";
+// Asset ids become upload file names (see mediaGc's upload stems); anything else gets a fresh id on import.
+const ASSET_ID_RE = /^[A-Za-z0-9-]+$/;
+
+// Unpacked size limit for an imported bundle, BUNDLE_MAX_MB (default 2048).
+function bundleMaxBytes() {
+  const mb = Number(process.env.BUNDLE_MAX_MB);
+  return (Number.isFinite(mb) && mb > 0 ? mb : 2048) * 1024 * 1024;
+}
+
+// Upload URL (see storageUrl) -> "<file>". Anything else (external URLs) isn't ours to bundle.
+function uploadFileName(url: string | null) {
+  const key = storageKeyFromUrl(url);
+  return key?.startsWith("uploads/") ? key.slice("uploads/".length) : null;
+}
+
+export async function buildProjectBundle(doc: ProjectDocument): Promise<{ zip: Buffer; missing: string[] }> {
+  const media = new Map<string, Buffer>();
+  const missing: string[] = [];
+
+  const bundleUrl = async (url: string | null) => {
+    const name = uploadFileName(url);
+    if (!name) return url;
+    if (!media.has(name)) {
+      const data = await getStorage()
+        .get(`uploads/${name}`)
+        .catch(() => null);
+      if (!data) {
+        missing.push(name);
+        return url;
+      }
+      media.set(name, data);
+    }
+    return `${MEDIA_PREFIX}${name}`;
+  };
+
+  const assets: ProjectAsset[] = [];
+  for (const asset of doc.assets) {
+    assets.push({
+      ...asset,
+      videoUrl: (await bundleUrl(asset.videoUrl)) ?? asset.videoUrl,
+      waveformUrl: await bundleUrl(asset.waveformUrl),
+      ...(asset.peaksUrl ? { peaksUrl: await bundleUrl(asset.peaksUrl) } : {}),
+      ...(asset.proxyUrl ? { proxyUrl: await bundleUrl(asset.proxyUrl) } : {}),
+      ...(asset.thumbnails ? { thumbnails: { ...asset.thumbnails, url: (await bundleUrl(asset.thumbnails.url)) ?? asset.thumbnails.url } } : {})
+    });
+  }
+
+  const projectJson = JSON.stringify(toProjectFile({ ...doc, assets }), null, 2);
+  const zip = createZip([
+    { name: PROJECT_ENTRY, data: Buffer.from(projectJson, "utf8") },
+    ...[...media].map(([name, data]) => ({ name: `${MEDIA_PREFIX}${name}`, data }))
+  ]);
+  return { zip, missing };
+}
+
+export type BundleImportResult = { ok: true; result: ProjectBundleImport } | { ok: false; error: string };
+
+// Unpacks media into uploads storage and returns the project re-linked to it. Asset ids that already exist on this
+// server get a fresh id (files, analysis and timeline clips follow), so importing never overwrites an upload.
+export async function importProjectBundle(buf: Buffer): Promise<BundleImportResult> {
+  let entries: Map<string, Buffer>;
+  try {
+    entries = readZip(buf, bundleMaxBytes());
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : "Not a zip file" };
+  }
+  const projectJson = entries.get(PROJECT_ENTRY);
+  if (!projectJson) return { ok: false, error: `Bundle has no ${PROJECT_ENTRY}` };
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(projectJson.toString("utf8"));
+  } catch {
+    return { ok: false, error: `${PROJECT_ENTRY} is not valid JSON` };
+  }
+  const parsed = parseProjectFile(raw);
+  if (!parsed.ok) return { ok: false, error: parsed.error };
+  const issues: ProjectFileIssue[] = [...parsed.issues];
+
+  const storage = getStorage();
+  const existing = (await storage.list("uploads/")).map((o) => o.key.slice("uploads/".length));
+  const taken = (id: string) => existing.some((name) => name.startsWith(id));
+
+  const assetIds = new Map<string, string>();
+  // Bundle entry -> stored URL. Assets that shared one (deduplicated) upload share it again after import.
+  const unpacked = new Map<string, string>();
+  const assets: ProjectAsset[] = [];
+  let remappedAssets = 0;
+  for (const [i, asset] of parsed.document.assets.entries()) {
+    const videoEntry = bundledEntryName(asset.videoUrl);
+    if (!videoEntry || !entries.has(videoEntry)) {
+      issues.push({ path: `assets[${i}]`, message: `dropped (${videoEntry ?? asset.videoUrl} is not in the bundle)` });
+      continue;
+    }
+    const assetId = !ASSET_ID_RE.test(asset.assetId) || taken(asset.assetId) ? crypto.randomUUID() : asset.assetId;
+    if (assetId !== asset.assetId) remappedAssets++;
+    assetIds.set(asset.assetId, assetId);
+
+    const unpack = async (entryName: string) => {
+      const done = unpacked.get(entryName);
+      if (done) return done;
+      const name = entryName.slice(MEDIA_PREFIX.length).replace(/[^A-Za-z0-9._-]/g, "_");
+      const nextName = name.startsWith(asset.assetId) ? `${assetId}${name.slice(asset.assetId.length)}` : `${assetId}_${name}`;
+      await storage.put(`uploads/${nextName}`, entries.get(entryName)!);
+      existing.push(nextName);
+      const url = storageUrl(`uploads/${nextName}`);
+      unpacked.set(entryName, url);
+      return url;
+    };
+
+    let waveformUrl: string | null = null;
+    const waveEntry = bundledEntryName(asset.waveformUrl);
+    if (waveEntry && entries.has(waveEntry)) waveformUrl = await unpack(waveEntry);
+    else if (asset.waveformUrl) issues.push({ path: `assets[${i}].waveformUrl`, message: "reset to null (not in the bundle)" });
+
+    const peaksEntry = bundledEntryName(asset.peaksUrl ?? null);
+    let peaksUrl: string | null = null;
+    if (peaksEntry && entries.has(peaksEntry)) peaksUrl = await unpack(peaksEntry);
+    else if (asset.peaksUrl) issues.push({ path: `assets[${i}].peaksUrl`, message: "reset to null (not in the bundle)" });
+
+    // No proxy or thumbnails is fine: the Studio previews the original and draws clips without frames.
+    const proxyEntry = bundledEntryName(asset.proxyUrl ?? null);
+    const proxyUrl = proxyEntry && entries.has(proxyEntry) ? await unpack(proxyEntry) : null;
+    const thumbsEntry = bundledEntryName(asset.thumbnails?.url ?? null);
+    const thumbnails =
+      asset.thumbnails && thumbsEntry && entries.has(thumbsEntry) ? { ...asset.thumbnails, url: await unpack(thumbsEntry) } : null;
+
+    // The original goes through the media index like an upload (lib/mediaIndex.ts): a file already stored here is
+    // reused, and a new one is indexed so importing or uploading it again reuses it.
+    const videoData = entries.get(videoEntry)!;
+    const sha256 = createHash("sha256").update(videoData).digest("hex");
+    let videoUrl = unpacked.get(videoEntry);
+    if (!videoUrl) {
+      const known = await findMediaByHash(sha256);
+      if (known && (await storage.exists(known.key).catch(() => false))) {
+        videoUrl = known.videoUrl;
+        unpacked.set(videoEntry, videoUrl);
+      } else {
+        videoUrl = await unpack(videoEntry);
+        await saveMediaEntry({
+          sha256,
+          key: storageKeyFromUrl(videoUrl)!,
+          assetId,
+          ...(asset.kind ? { kind: asset.kind } : {}),
+          size: videoData.length,
+          videoUrl,
+          durationSeconds: asset.durationSeconds,
+          hasAudio: asset.hasAudio,
+          waveformUrl,
+          peaksUrl,
+          proxyUrl,
+          thumbnails,
+          analysis: asset.analysis ? { ...asset.analysis, assetId } : null,
+          analysisJobId: null
+        }).catch(() => {});
+      }
+    }
+
+    // The exporting server's analysis job means nothing here.
+    const { analysisJobId: _staleJob, ...bundled } = asset;
+    assets.push({
+      ...bundled,
+      assetId,
+      videoUrl,
+      waveformUrl,
+      peaksUrl,
+      proxyUrl,
+      thumbnails,
+      analysis: asset.analysis ? { ...asset.analysis, assetId } : null,
+      sourceHash: sha256
+    });
+  }
+
+  const relink = <T extends { assetId: string }>(clips: T[]) =>
+    clips.filter((c) => assetIds.has(c.assetId)).map((c) => ({ ...c, assetId: assetIds.get(c.assetId)! }));
+  const { timeline } = parsed.document;
+  const dropped = timeline.clips.length - relink(timeline.clips).length;
+  if (dropped > 0) issues.push({ path: "timeline.clips", message: `dropped ${dropped} clip(s) whose media was missing` });
+
+  return {
+    ok: true,
+    result: {
+      document: {
+        ...parsed.document,
+        assets,
+        timeline: {
+          ...timeline,
+          clips: relink(timeline.clips),
+          ...(timeline.audioClips ? { audioClips: relink(timeline.audioClips) } : {}),
+          ...(timeline.music ? { music: relink([timeline.music])[0] ?? null } : {})
+        }
+      },
+      fromVersion: parsed.fromVersion,
+      issues,
+      remappedAssets
+    }
+  };
+}
+
+// "media/<file>" -> the zip entry name, guarding against paths that climb out of media/.
+function bundledEntryName(url: string | null) {
+  if (!url || !url.startsWith(MEDIA_PREFIX)) return null;
+  const name = url.slice(MEDIA_PREFIX.length);
+  return name && path.basename(name) === name ? url : null;
+}
@@ -0,0 +1,98 @@
+import type { AudioClip, ProjectClip, ProjectTimeline } from "./types";
+
+// Clip-level diff of two timelines for the history browser. Clips are matched by id, so a split shows up as
+// the original clip retimed plus a new clip added.
+
+export type DiffClip = {
+  track: "video" | "audio";
+  id: string;
+  label: string;
+  sourceIn: number;
+  sourceOut: number;
+};
+
+export type RetimedClip = {
+  track: "video" | "audio";
+  id: string;
+  label: string;
+  before: { sourceIn: number; sourceOut: number };
+  after: { sourceIn: number; sourceOut: number };
+};
+
+export type TimelineDiff = {
+  added: DiffClip[];
+  removed: DiffClip[];
+  retimed: RetimedClip[];
+  // Clips present in both timelines play in a different order.
+  reordered: boolean;
+  durationBefore: number;
+  durationAfter: number;
+  captionsBefore: number;
+  captionsAfter: number;
+};
+
+// Differences below this are float noise from trimming, not an edit.
+const EPSILON = 0.005;
+
+export function diffTimelines(before: ProjectTimeline, after: ProjectTimeline): TimelineDiff {
+  const video = diffTrack("video", before.clips, after.clips);
+  const audio = diffTrack("audio", before.audioClips ?? [], after.audioClips ?? []);
+  return {
+    added: [...video.added, ...audio.added],
+    removed: [...video.removed, ...audio.removed],
+    retimed: [...video.retimed, ...audio.retimed],
+    reordered: video.reordered || audio.reordered,
+    durationBefore: trackDuration(before.clips),
+    durationAfter: trackDuration(after.clips),
+    captionsBefore: before.captions?.length ?? 0,
+    captionsAfter: after.captions?.length ?? 0
+  };
+}
+
+export function isEmptyDiff(diff: TimelineDiff) {
+  return (
+    diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.retimed.length === 0 &&
+    !diff.reordered &&
+    diff.captionsBefore === diff.captionsAfter
+  );
+}
+
+function diffTrack(track: DiffClip["track"], before: Array<ProjectClip | AudioClip>, after: Array<ProjectClip | AudioClip>) {
+  const beforeById = new Map(before.map((c) => [c.id, c]));
+  const afterIds = new Set(after.map((c) => c.id));
+  const toDiffClip = (c: ProjectClip | AudioClip): DiffClip => ({
+    track,
+    id: c.id,
+    label: c.label,
+    sourceIn: c.sourceIn,
+    sourceOut: c.sourceOut
+  });
+
+  const added = after.filter((c) => !beforeById.has(c.id)).map(toDiffClip);
+  const removed = before.filter((c) => !afterIds.has(c.id)).map(toDiffClip);
+  const retimed: RetimedClip[] = [];
+  for (const c of after) {
+    const prev = beforeById.get(c.id);
+    if (!prev) continue;
+    if (Math.abs(prev.sourceIn - c.sourceIn) > EPSILON || Math.abs(prev.sourceOut - c.sourceOut) > EPSILON) {
+      retimed.push({
+        track,
+        id: c.id,
+        label: c.label,
+        before: { sourceIn: prev.sourceIn, sourceOut: prev.sourceOut },
+        after: { sourceIn: c.sourceIn, sourceOut: c.sourceOut }
+      });
+    }
+  }
+
+  const keptBefore = before.filter((c) => afterIds.has(c.id)).map((c) => c.id);
+  const keptAfter = after.filter((c) => beforeById.has(c.id)).map((c) => c.id);
+  const reordered = keptBefore.some((id, i) => keptAfter[i] !== id);
+  return { added, removed, retimed, reordered };
+}
+
+function trackDuration(clips: ProjectClip[]) {
+  return clips.reduce((sum, c) => sum + Math.max(0, c.sourceOut - c.sourceIn), 0);
+}
@@ -0,0 +1,306 @@
+import type {
+  AudioClip,
+  ChatMessage,
+  MusicBed,
+  ProjectAsset,
+  ProjectClip,
+  ProjectDocument,
+  ProjectFile,
+  ProjectFileIssue,
+  ProjectFileV1,
+  ProjectFileV2,
+  ProjectTimeline,
+  ThumbnailSprite
+} from "./types";
+import { normalizeCaptionCues } from "./captions";
+import { DEFAULT_MUSIC_DUCKING, MUSIC_ATTACK_MS, MUSIC_DUCK_MAX_DB, MUSIC_RELEASE_MS } from "./music";
+
+// Reads and writes project files (see ProjectFile in lib/types.ts). Older files are upgraded one version at a time
+// through MIGRATIONS, then checked field by field: unusable entries are dropped or reset and reported as issues,
+// so one bad clip doesn't make the whole file unreadable.
+
+export const PROJECT_FILE_VERSION = 3;
+export const PROJECT_FILE_APP = "clipgenius-studio";
+
+export type ProjectFileParseResult =
+  | { ok: true; document: ProjectDocument; fromVersion: number; issues: ProjectFileIssue[] }
+  | { ok: false; error: string };
+
+type RawFile = Record<string, any>;
+
+// MIGRATIONS[n] upgrades a v(n) file to v(n + 1). Steps see plain JSON and must not throw.
+const MIGRATIONS: Record<number, (file: RawFile) => RawFile> = {
+  // v2: caption lane and chat log are always present; files are tagged with `app`.
+  1: (file: Partial<ProjectFileV1>) => ({
+    ...file,
+    v: 2,
+    app: PROJECT_FILE_APP,
+    chat: Array.isArray(file.chat) ? file.chat : [],
+    timeline: isObject(file.timeline)
+      ? { ...file.timeline, captions: Array.isArray(file.timeline.captions) ? file.timeline.captions : [] }
+      : file.timeline
+  }),
+  // v3: asset `kind` defaults to "video" and `timeline.music` to null.
+  2: (file: Partial<ProjectFileV2>) => ({
+    ...file,
+    v: 3,
+    assets: Array.isArray(file.assets) ? file.assets.map((a: unknown) => (isObject(a) ? { ...a, kind: a.kind ?? "video" } : a)) : file.assets,
+    timeline: isObject(file.timeline) ? { ...file.timeline, music: file.timeline.music ?? null } : file.timeline
+  })
+};
+
+export function toProjectFile(doc: ProjectDocument): ProjectFile {
+  return { v: PROJECT_FILE_VERSION, app: PROJECT_FILE_APP, savedAt: Date.now(), ...doc };
+}
+
+export function parseProjectFile(raw: unknown): ProjectFileParseResult {
+  if (!isObject(raw)) return { ok: false, error: "Not a ClipGenius project file." };
+  if (raw.app != null && raw.app !== PROJECT_FILE_APP) return { ok: false, error: "Not a ClipGenius project file." };
+  const fromVersion = raw.v;
+  if (!Number.isInteger(fromVersion) || fromVersion < 1) return { ok: false, error: "Missing or invalid file version (v)." };
+  if (fromVersion > PROJECT_FILE_VERSION) {
+    return {
+      ok: false,
+      error: `This file was saved by a newer Studio (format v${fromVersion}; this Studio reads up to v${PROJECT_FILE_VERSION}).`
+    };
+  }
+
+  let file: RawFile = raw;
+  for (let v = fromVersion; v < PROJECT_FILE_VERSION; v++) {
+    const step = MIGRATIONS[v];
+    if (!step) return { ok: false, error: `No migration from format v${v}.` };
+    file = step(file);
+  }
+
+  if (!Array.isArray(file.assets)) return { ok: false, error: "assets: must be a list." };
+  if (!isObject(file.timeline)) return { ok: false, error: "timeline: missing." };
+
+  const issues: ProjectFileIssue[] = [];
+  const assets = readAssets(file.assets, issues);
+  const timeline = readTimeline(file.timeline, new Map(assets.map((a) => [a.assetId, a])), issues);
+  const chat = readChat(file.chat, issues);
+  return { ok: true, document: { assets, timeline, chat }, fromVersion, issues };
+}
+
+export function describeProjectFileIssues(issues: ProjectFileIssue[], max = 12) {
+  const lines = issues.slice(0, max).map((i) => `${i.path}: ${i.message}`);
+  if (issues.length > max) lines.push(`…and ${issues.length - max} more`);
+  return lines;
+}
+
+function readAssets(list: unknown[], issues: ProjectFileIssue[]) {
+  const out: ProjectAsset[] = [];
+  const seen = new Set<string>();
+  list.forEach((raw, i) => {
+    const path = `assets[${i}]`;
+    if (!isObject(raw)) return issues.push({ path, message: "dropped (not an object)" });
+    if (!nonEmptyString(raw.assetId)) return issues.push({ path, message: "dropped (missing assetId)" });
+    if (seen.has(raw.assetId)) return issues.push({ path, message: `dropped (duplicate assetId ${raw.assetId})` });
+    if (!nonEmptyString(raw.videoUrl)) return issues.push({ path, message: "dropped (missing videoUrl)" });
+    if (!(typeof raw.durationSeconds === "number" && raw.durationSeconds > 0 && Number.isFinite(raw.durationSeconds))) {
+      return issues.push({ path, message: "dropped (invalid durationSeconds)" });
+    }
+    seen.add(raw.assetId);
+
+    const asset: ProjectAsset = {
+      assetId: raw.assetId,
+      name: typeof raw.name === "string" ? raw.name : reset(issues, `${path}.name`, "Untitled"),
+      videoUrl: raw.videoUrl,
+      durationSeconds: raw.durationSeconds,
+      hasAudio: typeof raw.hasAudio === "boolean" ? raw.hasAudio : reset(issues, `${path}.hasAudio`, false),
+      waveformUrl:
+        raw.waveformUrl === null || typeof raw.waveformUrl === "string" ? raw.waveformUrl : reset(issues, `${path}.waveformUrl`, null),
+      analysis:
+        raw.analysis === null || (isObject(raw.analysis) && Array.isArray(raw.analysis.clips))
+          ? raw.analysis
+          : reset(issues, `${path}.analysis`, null),
+      ...(raw.kind === "audio" || raw.kind === "image" ? { kind: raw.kind } : {}),
+      ...(typeof raw.peaksUrl === "string" ? { peaksUrl: raw.peaksUrl } : {}),
+      ...(typeof raw.proxyUrl === "string" ? { proxyUrl: raw.proxyUrl } : {}),
+      ...(isThumbnailSprite(raw.thumbnails) ? { thumbnails: raw.thumbnails } : {}),
+      ...(typeof raw.analysisJobId === "string" ? { analysisJobId: raw.analysisJobId } : {}),
+      ...(typeof raw.sourceHash === "string" ? { sourceHash: raw.sourceHash } : {})
+    };
+    out.push(asset);
+  });
+  return out;
+}
+
+function readTimeline(raw: RawFile, assets: Map<string, ProjectAsset>, issues: ProjectFileIssue[]): ProjectTimeline {
+  const clips = readClips("timeline.clips", raw.clips, assets, issues, readVideoClipOptions);
+  const timeline: ProjectTimeline = {
+    projectId: nonEmptyString(raw.projectId) ? raw.projectId : "local",
+    clips,
+    captions: readCaptions(raw.captions, issues),
+    audioLinked: optionalBoolean(raw, "audioLinked", "timeline", issues) ?? true,
+    trackAudioMuted: optionalBoolean(raw, "trackAudioMuted", "timeline", issues) ?? false,
+    trackAudioVolume: optionalNumber(raw, "trackAudioVolume", "timeline", issues, 0, 2) ?? 1,
+    trackVideoHidden: optionalBoolean(raw, "trackVideoHidden", "timeline", issues) ?? false
+  };
+  if (raw.audioClips != null) {
+    timeline.audioClips = readClips("timeline.audioClips", raw.audioClips, assets, issues, readAudioClipOptions);
+  }
+  if (raw.music != null) timeline.music = readMusicBed(raw.music, assets, issues);
+  return timeline;
+}
+
+function readMusicBed(raw: unknown, assets: Map<string, ProjectAsset>, issues: ProjectFileIssue[]): MusicBed | null {
+  const path = "timeline.music";
+  if (!isObject(raw)) return reset(issues, path, null);
+  if (!nonEmptyString(raw.assetId) || !assets.has(raw.assetId)) {
+    issues.push({ path, message: `dropped (unknown asset ${String(raw.assetId)})` });
+    return null;
+  }
+  const bed: MusicBed = stripUndefined({
+    assetId: raw.assetId,
+    volume: optionalNumber(raw, "volume", path, issues, 0, 2),
+    muted: optionalBoolean(raw, "muted", path, issues),
+    loop: optionalBoolean(raw, "loop", path, issues),
+    fadeIn: optionalNumber(raw, "fadeIn", path, issues, 0, 60),
+    fadeOut: optionalNumber(raw, "fadeOut", path, issues, 0, 60)
+  });
+  if (raw.ducking != null) {
+    const d = isObject(raw.ducking) ? raw.ducking : {};
+    const enabled = optionalBoolean(d, "enabled", `${path}.ducking`, issues);
+    const depthDb = optionalNumber(d, "depthDb", `${path}.ducking`, issues, 0, MUSIC_DUCK_MAX_DB);
+    const attackMs = optionalNumber(d, "attackMs", `${path}.ducking`, issues, MUSIC_ATTACK_MS.min, MUSIC_ATTACK_MS.max);
+    const releaseMs = optionalNumber(d, "releaseMs", `${path}.ducking`, issues, MUSIC_RELEASE_MS.min, MUSIC_RELEASE_MS.max);
+    bed.ducking = {
+      enabled: enabled ?? DEFAULT_MUSIC_DUCKING.enabled,
+      depthDb: depthDb ?? DEFAULT_MUSIC_DUCKING.depthDb,
+      attackMs: attackMs ?? DEFAULT_MUSIC_DUCKING.attackMs,
+      releaseMs: releaseMs ?? DEFAULT_MUSIC_DUCKING.releaseMs
+    };
+  }
+  return bed;
+}
+
+// Shared checks for video and audio clips: unique id, known asset, a source range inside the asset.
+function readClips<T extends ProjectClip | AudioClip>(
+  path: string,
+  list: unknown,
+  assets: Map<string, ProjectAsset>,
+  issues: ProjectFileIssue[],
+  readOptions: (raw: RawFile, path: string, issues: ProjectFileIssue[]) => Partial<T>
+): T[] {
+  if (list == null) return [];
+  if (!Array.isArray(list)) {
+    issues.push({ path, message: "reset to empty (not a list)" });
+    return [];
+  }
+  const out: T[] = [];
+  const seen = new Set<string>();
+  list.forEach((raw, i) => {
+    const p = `${path}[${i}]`;
+    if (!isObject(raw)) return issues.push({ path: p, message: "dropped (not an object)" });
+    if (!nonEmptyString(raw.id) || seen.has(raw.id)) return issues.push({ path: p, message: "dropped (missing or duplicate id)" });
+    const asset = nonEmptyString(raw.assetId) ? assets.get(raw.assetId) : undefined;
+    if (!asset) return issues.push({ path: p, message: `dropped (unknown asset ${String(raw.assetId)})` });
+    if (!Number.isFinite(raw.sourceIn) || !Number.isFinite(raw.sourceOut)) {
+      return issues.push({ path: p, message: "dropped (invalid sourceIn/sourceOut)" });
+    }
+    const sourceIn = Math.max(0, Math.min(raw.sourceIn, asset.durationSeconds));
+    const sourceOut = Math.max(0, Math.min(raw.sourceOut, asset.durationSeconds));
+    if (sourceOut - sourceIn < 0.05) return issues.push({ path: p, message: "dropped (empty source range)" });
+    if (sourceIn !== raw.sourceIn || sourceOut !== raw.sourceOut) {
+      issues.push({ path: p, message: `trimmed to the asset length (${asset.durationSeconds.toFixed(2)}s)` });
+    }
+    seen.add(raw.id);
+    out.push({
+      id: raw.id,
+      assetId: asset.assetId,
+      label: typeof raw.label === "string" ? raw.label : asset.name,
+      sourceIn,
+      sourceOut,
+      ...readOptions(raw, p, issues)
+    } as T);
+  });
+  return out;
+}
+
+function readVideoClipOptions(raw: RawFile, path: string, issues: ProjectFileIssue[]): Partial<ProjectClip> {
+  const out: Partial<ProjectClip> = {
+    audioVolume: optionalNumber(raw, "audioVolume", path, issues, 0, 2),
+    audioMuted: optionalBoolean(raw, "audioMuted", path, issues),
+    audioFadeIn: optionalNumber(raw, "audioFadeIn", path, issues, 0, 60),
+    audioFadeOut: optionalNumber(raw, "audioFadeOut", path, issues, 0, 60),
+    reframeFocusX: optionalNumber(raw, "reframeFocusX", path, issues, 0, 1)
+  };
+  if (raw.reframe != null) {
+    if (raw.reframe === "crop" || raw.reframe === "blur") out.reframe = raw.reframe;
+    else issues.push({ path: `${path}.reframe`, message: "dropped (must be crop or blur)" });
+  }
+  return stripUndefined(out);
+}
+
+function readAudioClipOptions(raw: RawFile, path: string, issues: ProjectFileIssue[]): Partial<AudioClip> {
+  return stripUndefined({
+    volume: optionalNumber(raw, "volume", path, issues, 0, 2),
+    muted: optionalBoolean(raw, "muted", path, issues),
+    fadeIn: optionalNumber(raw, "fadeIn", path, issues, 0, 60),
+    fadeOut: optionalNumber(raw, "fadeOut", path, issues, 0, 60)
+  });
+}
+
+function readCaptions(raw: unknown, issues: ProjectFileIssue[]) {
+  if (!Array.isArray(raw)) {
+    if (raw != null) issues.push({ path: "timeline.captions", message: "reset to empty (not a list)" });
+    return [];
+  }
+  const cues = normalizeCaptionCues(raw, Number.POSITIVE_INFINITY);
+  const dropped = raw.length - cues.length;
+  if (dropped > 0) {
+    issues.push({ path: "timeline.captions", message: `dropped ${dropped} cue${dropped === 1 ? "" : "s"} (empty text or invalid timing)` });
+  }
+  return cues;
+}
+
+function readChat(raw: unknown, issues: ProjectFileIssue[]): ChatMessage[] {
+  if (!Array.isArray(raw)) return [];
+  const chat = raw.filter(
+    (m): m is ChatMessage => isObject(m) && (m.role === "ai" || m.role === "user") && typeof m.text === "string"
+  );
+  if (chat.length < raw.length) issues.push({ path: "chat", message: `dropped ${raw.length - chat.length} invalid message(s)` });
+  return chat;
+}
+
+function optionalNumber(raw: RawFile, key: string, path: string, issues: ProjectFileIssue[], min: number, max: number) {
+  const v = raw[key];
+  if (v == null) return undefined;
+  if (typeof v === "number" && Number.isFinite(v) && v >= min && v <= max) return v;
+  issues.push({ path: `${path}.${key}`, message: `dropped (must be a number between ${min} and ${max})` });
+  return undefined;
+}
+
+function optionalBoolean(raw: RawFile, key: string, path: string, issues: ProjectFileIssue[]) {
+  const v = raw[key];
+  if (v == null) return undefined;
+  if (typeof v === "boolean") return v;
+  issues.push({ path: `${path}.${key}`, message: "dropped (must be true or false)" });
+  return undefined;
+}
+
+function reset<T>(issues: ProjectFileIssue[], path: string, value: T): T {
+  issues.push({ path, message: `reset to ${JSON.stringify(value)}` });
+  return value;
+}
+
+function stripUndefined<T extends object>(o: T): T {
+  return Object.fromEntries(Object.entries(o).filter(([, v]) => v !== undefined)) as T;
+}
+
+function isThumbnailSprite(v: unknown): v is ThumbnailSprite {
+  return (
+    isObject(v) &&
+    nonEmptyString(v.url) &&
+    ["frameWidth", "frameHeight", "columns", "count", "intervalSeconds"].every((k) => typeof v[k] === "number" && v[k] > 0)
+  );
+}
+
+function isObject(v: unknown): v is RawFile {
+  return Boolean(v) && typeof v === "object" && !Array.isArray(v);
+}
+
+function nonEmptyString(v: unknown): v is string {
+  return typeof v === "string" && v.length > 0;
+}
@@ -0,0 +1,214 @@
+import { mkdir, readFile, readdir, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { ProjectDocument, ProjectRecord, ProjectSnapshot, ProjectSnapshotSummary, ProjectSummary } from "./types";
+
+// Server-only: projects as one JSON file each under PROJECTS_DIR (default ./data/projects).
+// Named snapshots live next to their project in <id>.snapshots/<snapshotId>.json.
+// MVP ONLY: a single Next process owns the directory; writes are serialized per project in memory.
+
+export type ProjectUpdate = {
+  // Revision the client last saw. Must match the stored one.
+  baseRevision: number;
+  name?: string;
+  document?: ProjectDocument;
+};
+
+export type ProjectUpdateResult =
+  | { ok: true; project: ProjectRecord }
+  | { ok: false; reason: "not_found" }
+  | { ok: false; reason: "conflict"; project: ProjectRecord };
+
+const ID_RE = /^[a-zA-Z0-9-]{1,64}$/;
+
+function projectsDir() {
+  return process.env.PROJECTS_DIR?.trim() || path.join(process.cwd(), "data", "projects");
+}
+
+function projectPath(id: string) {
+  return path.join(projectsDir(), `${id}.json`);
+}
+
+function snapshotsDir(projectId: string) {
+  return path.join(projectsDir(), `${projectId}.snapshots`);
+}
+
+export function isProjectId(value: unknown): value is string {
+  return typeof value === "string" && ID_RE.test(value);
+}
+
+// Shape check for request bodies (not a full schema; the Studio sanitizes timelines on load).
+export function isProjectDocument(value: unknown): value is ProjectDocument {
+  const d = value as ProjectDocument | null;
+  return Boolean(
+    d &&
+      typeof d === "object" &&
+      Array.isArray(d.assets) &&
+      d.timeline &&
+      typeof d.timeline === "object" &&
+      Array.isArray(d.timeline.clips) &&
+      Array.isArray(d.chat)
+  );
+}
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+  let names: string[] = [];
+  try {
+    names = await readdir(projectsDir());
+  } catch {
+    return [];
+  }
+  const out: ProjectSummary[] = [];
+  for (const name of names) {
+    if (!name.endsWith(".json")) continue;
+    const project = await getProject(name.slice(0, -5));
+    if (project) out.push(toSummary(project));
+  }
+  return out.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getProject(id: string): Promise<ProjectRecord | null> {
+  if (!isProjectId(id)) return null;
+  try {
+    return JSON.parse(await readFile(projectPath(id), "utf8")) as ProjectRecord;
+  } catch {
+    return null;
+  }
+}
+
+export async function createProject(input: { name: string; document: ProjectDocument }): Promise<ProjectRecord> {
+  const now = Date.now();
+  const id = crypto.randomUUID();
+  const project: ProjectRecord = {
+    id,
+    name: input.name,
+    revision: 1,
+    createdAt: now,
+    updatedAt: now,
+    document: { ...input.document, timeline: { ...input.document.timeline, projectId: id } }
+  };
+  await withProjectLock(id, () => writeProject(project));
+  return project;
+}
+
+export async function updateProject(id: string, update: ProjectUpdate): Promise<ProjectUpdateResult> {
+  return withProjectLock(id, async () => {
+    const current = await getProject(id);
+    if (!current) return { ok: false, reason: "not_found" };
+    if (current.revision !== update.baseRevision) return { ok: false, reason: "conflict", project: current };
+    const next: ProjectRecord = {
+      ...current,
+      name: update.name ?? current.name,
+      revision: current.revision + 1,
+      updatedAt: Date.now(),
+      document: update.document ? { ...update.document, timeline: { ...update.document.timeline, projectId: id } } : current.document
+    };
+    await writeProject(next);
+    return { ok: true, project: next };
+  });
+}
+
+export async function deleteProject(id: string): Promise<boolean> {
+  if (!isProjectId(id)) return false;
+  return withProjectLock(id, async () => {
+    if (!(await getProject(id))) return false;
+    await rm(projectPath(id), { force: true });
+    await rm(snapshotsDir(id), { recursive: true, force: true });
+    return true;
+  });
+}
+
+export function toSummary(project: ProjectRecord): ProjectSummary {
+  const { document, ...meta } = project;
+  return { ...meta, assetCount: document.assets?.length ?? 0, clipCount: document.timeline?.clips?.length ?? 0 };
+}
+
+export async function listSnapshots(projectId: string): Promise<ProjectSnapshotSummary[]> {
+  if (!isProjectId(projectId)) return [];
+  let names: string[] = [];
+  try {
+    names = await readdir(snapshotsDir(projectId));
+  } catch {
+    return [];
+  }
+  const out: ProjectSnapshotSummary[] = [];
+  for (const name of names) {
+    if (!name.endsWith(".json")) continue;
+    const snapshot = await getSnapshot(projectId, name.slice(0, -5));
+    if (snapshot) out.push(toSnapshotSummary(snapshot));
+  }
+  return out.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function getSnapshot(projectId: string, snapshotId: string): Promise<ProjectSnapshot | null> {
+  if (!isProjectId(projectId) || !isProjectId(snapshotId)) return null;
+  try {
+    return JSON.parse(await readFile(path.join(snapshotsDir(projectId), `${snapshotId}.json`), "utf8")) as ProjectSnapshot;
+  } catch {
+    return null;
+  }
+}
+
+// Snapshots the given document, or the stored one when none is passed. null if the project doesn't exist.
+export async function createSnapshot(
+  projectId: string,
+  input: { name: string; document?: ProjectDocument }
+): Promise<ProjectSnapshot | null> {
+  return withProjectLock(projectId, async () => {
+    const project = await getProject(projectId);
+    if (!project) return null;
+    const snapshot: ProjectSnapshot = {
+      id: crypto.randomUUID(),
+      projectId,
+      name: input.name,
+      revision: project.revision,
+      createdAt: Date.now(),
+      document: input.document ?? project.document
+    };
+    await writeJsonAtomic(path.join(snapshotsDir(projectId), `${snapshot.id}.json`), snapshot);
+    return snapshot;
+  });
+}
+
+export async function deleteSnapshot(projectId: string, snapshotId: string): Promise<boolean> {
+  if (!isProjectId(projectId) || !isProjectId(snapshotId)) return false;
+  return withProjectLock(projectId, async () => {
+    if (!(await getSnapshot(projectId, snapshotId))) return false;
+    await rm(path.join(snapshotsDir(projectId), `${snapshotId}.json`), { force: true });
+    return true;
+  });
+}
+
+export function toSnapshotSummary(snapshot: ProjectSnapshot): ProjectSnapshotSummary {
+  const { document, ...meta } = snapshot;
+  const clips = document.timeline?.clips ?? [];
+  const durationSeconds = clips.reduce((sum, c) => sum + Math.max(0, c.sourceOut - c.sourceIn), 0);
+  return { ...meta, clipCount: clips.length, durationSeconds };
+}
+
+async function writeProject(project: ProjectRecord) {
+  await writeJsonAtomic(projectPath(project.id), project);
+}
+
+// Write to a temp file and rename, so a crash mid-write never leaves half a file behind.
+async function writeJsonAtomic(dst: string, value: unknown) {
+  await mkdir(path.dirname(dst), { recursive: true });
+  const tmp = `${dst}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(value));
+  await rename(tmp, dst);
+}
+
+// Route handlers are bundled separately, so the lock table lives on globalThis (same as lib/exportJobs.ts).
+const registry = globalThis as typeof globalThis & { __clipgeniusProjectLocks?: Map<string, Promise<unknown>> };
+
+async function withProjectLock<T>(id: string, fn: () => Promise<T>): Promise<T> {
+  if (!registry.__clipgeniusProjectLocks) registry.__clipgeniusProjectLocks = new Map();
+  const locks = registry.__clipgeniusProjectLocks;
+  const prev = locks.get(id) ?? Promise.resolve();
+  const run = prev.catch(() => {}).then(fn);
+  locks.set(id, run);
+  try {
+    return await run;
+  } finally {
+    if (locks.get(id) === run) locks.delete(id);
+  }
+}
@@ -0,0 +1,47 @@
+import type { ExportAspect } from "./types";
+
+// Shared by the export route (ffmpeg crop/pad math) and the Studio preview (crop frame overlay),
+// so what the preview frames is what the export renders.
+
+export const EXPORT_ASPECTS: ExportAspect[] = ["source", "9:16", "1:1", "4:5"];
+
+export function isExportAspect(value: unknown): value is ExportAspect {
+  return typeof value === "string" && (EXPORT_ASPECTS as string[]).includes(value);
+}
+
+// Width / height, or null for "source".
+export function exportAspectRatio(aspect: ExportAspect) {
+  if (aspect === "9:16") return 9 / 16;
+  if (aspect === "1:1") return 1;
+  if (aspect === "4:5") return 4 / 5;
+  return null;
+}
+
+// Output frame size for a reframed export: the short side matches the resolution preset
+// (720p => 720x1280 for 9:16, 720x720 for 1:1, 720x900 for 4:5).
+export function reframeOutputSize(aspect: ExportAspect, shortSide: number) {
+  const ratio = exportAspectRatio(aspect);
+  if (ratio == null) return null;
+  const even = (n: number) => Math.max(2, Math.round(n / 2) * 2);
+  if (ratio <= 1) return { width: even(shortSide), height: even(shortSide / ratio) };
+  return { width: even(shortSide * ratio), height: even(shortSide) };
+}
+
+export function clampFocusX(focusX: number | undefined) {
+  const f = Number.isFinite(focusX as any) ? (focusX as number) : 0.5;
+  return Math.max(0, Math.min(1, f));
+}
+
+// Crop window for a source frame, as fractions of the source (0..1 on both axes).
+// Wider sources crop horizontally around focusX; taller sources crop vertically, centred.
+export function reframeCropRect(sourceWidth: number, sourceHeight: number, aspect: ExportAspect, focusX?: number) {
+  const ratio = exportAspectRatio(aspect);
+  if (ratio == null || !(sourceWidth > 0) || !(sourceHeight > 0)) return { x: 0, y: 0, width: 1, height: 1 };
+  const sourceRatio = sourceWidth / sourceHeight;
+  if (sourceRatio > ratio) {
+    const width = ratio / sourceRatio;
+    return { x: (1 - width) * clampFocusX(focusX), y: 0, width, height: 1 };
+  }
+  const height = sourceRatio / ratio;
+  return { x: 0, y: (1 - height) / 2, width: 1, height };
+}
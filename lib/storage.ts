@@ -0,0 +1,416 @@
+import { createHash, createHmac } from "node:crypto";
+import { createReadStream, createWriteStream } from "node:fs";
+import { copyFile, mkdir, readFile, readdir, rm, stat, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+
+// Server-only: where uploads and exports live. Keys look like "uploads/<file>" or "exports/<file>".
+// STORAGE_DRIVER=local (default) keeps them under public/ so Next serves them as static files.
+// STORAGE_DRIVER=s3 keeps them in an S3-compatible bucket (AWS S3, R2, MinIO); see s3Config() for the env vars.
+// ffmpeg only reads and writes local files, so remote media goes through workPath()/localCopy() temp files.
+
+export type StorageDriver = "local" | "s3";
+
+export type StorageObject = { key: string; size: number; modifiedAt: number };
+
+export type Storage = {
+  driver: StorageDriver;
+  put(key: string, data: Buffer | string): Promise<void>;
+  // Uploads a file from disk (streamed, never buffered whole).
+  putFile(key: string, filePath: string): Promise<void>;
+  // null if there is no such object.
+  get(key: string): Promise<Buffer | null>;
+  stream(key: string): Promise<Readable | null>;
+  exists(key: string): Promise<boolean>;
+  // Objects under `prefix` (e.g. "uploads/").
+  list(prefix: string): Promise<StorageObject[]>;
+  delete(key: string): Promise<void>;
+  // A URL the browser can fetch directly. Remote ones expire; don't save them in projects (use storageUrl()).
+  signedUrl(key: string, expiresSeconds?: number): Promise<string>;
+  // Where the object sits on this machine, or null if it isn't on local disk.
+  localPath(key: string): string | null;
+};
+
+const KEY_RE = /^(uploads|exports)\/[A-Za-z0-9][A-Za-z0-9._-]*$/;
+const SIGNED_URL_SECONDS = 60 * 60;
+
+export function isStorageKey(key: unknown): key is string {
+  return typeof key === "string" && KEY_RE.test(key) && !key.includes("..");
+}
+
+let cached: { driver: StorageDriver; storage: Storage } | null = null;
+
+export function getStorage(): Storage {
+  const driver: StorageDriver = process.env.STORAGE_DRIVER?.trim().toLowerCase() === "s3" ? "s3" : "local";
+  if (cached?.driver !== driver) cached = { driver, storage: driver === "s3" ? createS3Storage(s3Config()) : createLocalStorage() };
+  return cached.storage;
+}
+
+// The URL saved in projects. Local files are served from public/; remote ones go through /api/media,
+// which redirects to a fresh signed URL (or S3_PUBLIC_URL, for a public bucket or CDN).
+export function storageUrl(key: string) {
+  if (getStorage().driver === "local") return `/${key}`;
+  const publicBase = process.env.S3_PUBLIC_URL?.trim().replace(/\/+$/, "");
+  return publicBase ? `${publicBase}/${key}` : `/api/media/${key}`;
+}
+
+// Inverse of storageUrl(). Accepts the URLs of either driver so projects keep working after a switch.
+export function storageKeyFromUrl(url: string | null | undefined): string | null {
+  if (!url) return null;
+  let rest = url;
+  const publicBase = process.env.S3_PUBLIC_URL?.trim().replace(/\/+$/, "");
+  if (publicBase && rest.startsWith(`${publicBase}/`)) rest = rest.slice(publicBase.length + 1);
+  else if (rest.startsWith("/api/media/")) rest = rest.slice("/api/media/".length);
+  else if (rest.startsWith("/")) rest = rest.slice(1);
+  else return null;
+  return isStorageKey(rest) ? rest : null;
+}
+
+function workDir() {
+  return path.join(os.tmpdir(), "clipgenius-media");
+}
+
+// A local file to write `key` into before putFile(): the object itself for local storage, a temp file otherwise.
+export async function workPath(key: string) {
+  const filePath = getStorage().localPath(key) ?? path.join(workDir(), path.basename(key));
+  await mkdir(path.dirname(filePath), { recursive: true });
+  return filePath;
+}
+
+// Drops the temp file behind workPath() once it has been stored. No-op for local storage.
+export async function releaseWorkPath(key: string) {
+  if (getStorage().localPath(key)) return;
+  await rm(path.join(workDir(), path.basename(key)), { force: true });
+}
+
+export type LocalCopy = { path: string; release(): Promise<void> };
+
+// A file ffmpeg can read. Remote objects are downloaded to a temp file; call release() when done.
+export async function localCopy(key: string): Promise<LocalCopy> {
+  const storage = getStorage();
+  const local = storage.localPath(key);
+  if (local) return { path: local, release: async () => {} };
+
+  const source = await storage.stream(key);
+  if (!source) throw new Error(`Missing media: ${key}`);
+  await mkdir(workDir(), { recursive: true });
+  const filePath = path.join(workDir(), `${crypto.randomUUID()}_${path.basename(key)}`);
+  try {
+    await pipeline(source, createWriteStream(filePath));
+  } catch (err) {
+    await rm(filePath, { force: true });
+    throw err;
+  }
+  return { path: filePath, release: () => rm(filePath, { force: true }) };
+}
+
+export function contentTypeFor(key: string) {
+  const ext = path.extname(key).slice(1).toLowerCase();
+  const types: Record<string, string> = {
+    mp4: "video/mp4",
+    m4v: "video/mp4",
+    mov: "video/quicktime",
+    webm: "video/webm",
+    gif: "image/gif",
+    png: "image/png",
+    jpg: "image/jpeg",
+    mp3: "audio/mpeg",
+    m4a: "audio/mp4",
+    wav: "audio/wav",
+    srt: "application/x-subrip",
+    vtt: "text/vtt",
+    json: "application/json"
+  };
+  return types[ext] ?? "application/octet-stream";
+}
+
+// ---- Local disk ----
+
+function createLocalStorage(): Storage {
+  const root = path.join(process.cwd(), "public");
+  const file = (key: string) => {
+    if (!isStorageKey(key)) throw new Error(`Invalid storage key: ${key}`);
+    return path.join(root, key);
+  };
+  const ensureDir = (key: string) => mkdir(path.dirname(file(key)), { recursive: true });
+
+  return {
+    driver: "local",
+    async put(key, data) {
+      await ensureDir(key);
+      await writeFile(file(key), data);
+    },
+    async putFile(key, filePath) {
+      if (path.resolve(filePath) === file(key)) return;
+      await ensureDir(key);
+      await copyFile(filePath, file(key));
+    },
+    async get(key) {
+      return readFile(file(key)).catch(() => null);
+    },
+    async stream(key) {
+      return (await this.exists(key)) ? createReadStream(file(key)) : null;
+    },
+    async exists(key) {
+      return stat(file(key)).then(
+        (s) => s.isFile(),
+        () => false
+      );
+    },
+    async list(prefix) {
+      const dir = prefix.replace(/\/+$/, "");
+      const names = await readdir(path.join(root, dir)).catch(() => [] as string[]);
+      const out: StorageObject[] = [];
+      for (const key of names.map((name) => `${dir}/${name}`).filter(isStorageKey)) {
+        const s = await stat(file(key)).catch(() => null);
+        if (s?.isFile()) out.push({ key, size: s.size, modifiedAt: s.mtimeMs });
+      }
+      return out;
+    },
+    async delete(key) {
+      await rm(file(key), { force: true });
+    },
+    async signedUrl(key) {
+      return `/${key}`;
+    },
+    localPath(key) {
+      return file(key);
+    }
+  };
+}
+
+// ---- S3-compatible (SigV4 over fetch) ----
+
+export type S3Config = {
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // http://host/bucket/key instead of http://bucket.host/key. MinIO and most local stand-ins need this.
+  pathStyle: boolean;
+};
+
+// S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY (required), S3_REGION (default us-east-1),
+// S3_ENDPOINT (default AWS; e.g. http://localhost:9000 for MinIO), S3_FORCE_PATH_STYLE (default on with a custom endpoint).
+function s3Config(): S3Config {
+  const bucket = process.env.S3_BUCKET?.trim();
+  const accessKeyId = process.env.S3_ACCESS_KEY_ID?.trim();
+  const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY?.trim();
+  if (!bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error("STORAGE_DRIVER=s3 needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY");
+  }
+  const region = process.env.S3_REGION?.trim() || "us-east-1";
+  const customEndpoint = process.env.S3_ENDPOINT?.trim().replace(/\/+$/, "");
+  const pathStyleEnv = process.env.S3_FORCE_PATH_STYLE?.trim().toLowerCase();
+  return {
+    endpoint: customEndpoint || `https://s3.${region}.amazonaws.com`,
+    bucket,
+    region,
+    accessKeyId,
+    secretAccessKey,
+    pathStyle: pathStyleEnv ? pathStyleEnv === "true" || pathStyleEnv === "1" : Boolean(customEndpoint)
+  };
+}
+
+const UNSIGNED_PAYLOAD = "UNSIGNED-PAYLOAD";
+
+export function createS3Storage(config: S3Config): Storage {
+  const send = async (
+    method: string,
+    key: string | null,
+    opts: { query?: Record<string, string>; body?: Buffer | Readable; bodyHash?: string; headers?: Record<string, string> } = {}
+  ) => {
+    const target = s3Target(config, key, opts.query ?? {});
+    const headers = signS3Request(config, {
+      method,
+      target,
+      headers: opts.headers ?? {},
+      payloadHash: opts.bodyHash ?? sha256Hex("")
+    });
+    const body = opts.body instanceof Readable ? (Readable.toWeb(opts.body) as any) : opts.body ? new Uint8Array(opts.body) : undefined;
+    return fetch(target.url, { method, headers, body, cache: "no-store", ...(body ? { duplex: "half" } : {}) } as RequestInit);
+  };
+  const fail = async (res: Response, what: string) => {
+    const detail = (await res.text().catch(() => "")).match(/<Code>([^<]+)<\/Code>/)?.[1];
+    return new Error(`S3 ${what} failed (${res.status}${detail ? ` ${detail}` : ""})`);
+  };
+  const checkKey = (key: string) => {
+    if (!isStorageKey(key)) throw new Error(`Invalid storage key: ${key}`);
+    return key;
+  };
+
+  return {
+    driver: "s3",
+    async put(key, data) {
+      const body = typeof data === "string" ? Buffer.from(data, "utf8") : data;
+      const res = await send("PUT", checkKey(key), {
+        body,
+        bodyHash: sha256Hex(body),
+        headers: { "content-type": contentTypeFor(key), "content-length": String(body.length) }
+      });
+      if (!res.ok) throw await fail(res, `PUT ${key}`);
+    },
+    // Single PUT, so objects top out at 5 GB (S3's limit without multipart).
+    async putFile(key, filePath) {
+      const { size } = await stat(filePath);
+      const res = await send("PUT", checkKey(key), {
+        body: createReadStream(filePath),
+        bodyHash: UNSIGNED_PAYLOAD,
+        headers: { "content-type": contentTypeFor(key), "content-length": String(size) }
+      });
+      if (!res.ok) throw await fail(res, `PUT ${key}`);
+    },
+    async get(key) {
+      const res = await send("GET", checkKey(key));
+      if (res.status === 404) return null;
+      if (!res.ok) throw await fail(res, `GET ${key}`);
+      return Buffer.from(await res.arrayBuffer());
+    },
+    async stream(key) {
+      const res = await send("GET", checkKey(key));
+      if (res.status === 404) return null;
+      if (!res.ok || !res.body) throw await fail(res, `GET ${key}`);
+      return Readable.fromWeb(res.body as any);
+    },
+    async exists(key) {
+      const res = await send("HEAD", checkKey(key));
+      if (res.status === 404) return false;
+      if (!res.ok) throw await fail(res, `HEAD ${key}`);
+      return true;
+    },
+    async list(prefix) {
+      const out: StorageObject[] = [];
+      let token: string | null = null;
+      do {
+        const query: Record<string, string> = { "list-type": "2", prefix };
+        if (token) query["continuation-token"] = token;
+        const res = await send("GET", null, { query });
+        if (!res.ok) throw await fail(res, `LIST ${prefix}`);
+        const xml = await res.text();
+        for (const [, item] of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+          const key = unescapeXml(item.match(/<Key>([^<]*)<\/Key>/)?.[1] ?? "");
+          const size = Number(item.match(/<Size>(\d+)<\/Size>/)?.[1] ?? 0);
+          const modifiedAt = Date.parse(item.match(/<LastModified>([^<]*)<\/LastModified>/)?.[1] ?? "") || 0;
+          if (isStorageKey(key)) out.push({ key, size, modifiedAt });
+        }
+        token = /<IsTruncated>true<\/IsTruncated>/.test(xml)
+          ? unescapeXml(xml.match(/<NextContinuationToken>([^<]*)<\/NextContinuationToken>/)?.[1] ?? "") || null
+          : null;
+      } while (token);
+      return out;
+    },
+    async delete(key) {
+      const res = await send("DELETE", checkKey(key));
+      if (!res.ok && res.status !== 404) throw await fail(res, `DELETE ${key}`);
+    },
+    async signedUrl(key, expiresSeconds = SIGNED_URL_SECONDS) {
+      return presignS3Url(config, "GET", checkKey(key), expiresSeconds);
+    },
+    localPath() {
+      return null;
+    }
+  };
+}
+
+type S3Target = { url: string; host: string; canonicalUri: string; query: Record<string, string> };
+
+function s3Target(config: S3Config, key: string | null, query: Record<string, string>): S3Target {
+  const endpoint = new URL(config.endpoint);
+  const host = config.pathStyle ? endpoint.host : `${config.bucket}.${endpoint.host}`;
+  const segments = [...(config.pathStyle ? [config.bucket] : []), ...(key ? key.split("/") : [])];
+  const canonicalUri = `/${segments.map(encodeRfc3986).join("/")}`;
+  const qs = canonicalQuery(query);
+  return { url: `${endpoint.protocol}//${host}${canonicalUri}${qs ? `?${qs}` : ""}`, host, canonicalUri, query };
+}
+
+// AWS Signature Version 4, Authorization-header form.
+export function signS3Request(
+  config: S3Config,
+  req: { method: string; target: S3Target; headers: Record<string, string>; payloadHash: string },
+  now = new Date()
+): Record<string, string> {
+  const { amzDate, date } = amzTimestamps(now);
+  const headers: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(req.headers).map(([k, v]) => [k.toLowerCase(), v.trim()])),
+    host: req.target.host,
+    "x-amz-content-sha256": req.payloadHash,
+    "x-amz-date": amzDate
+  };
+  const names = Object.keys(headers).sort();
+  const signedHeaders = names.join(";");
+  const canonicalRequest = [
+    req.method,
+    req.target.canonicalUri,
+    canonicalQuery(req.target.query),
+    names.map((n) => `${n}:${headers[n]}\n`).join(""),
+    signedHeaders,
+    req.payloadHash
+  ].join("\n");
+  const scope = `${date}/${config.region}/s3/aws4_request`;
+  const signature = sigV4Signature(config, date, [`AWS4-HMAC-SHA256`, amzDate, scope, sha256Hex(canonicalRequest)].join("\n"));
+  const { host: _host, ...sent } = headers;
+  return {
+    ...sent,
+    authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+  };
+}
+
+// AWS Signature Version 4, query-string ("presigned URL") form.
+export function presignS3Url(config: S3Config, method: string, key: string, expiresSeconds: number, now = new Date()) {
+  const { amzDate, date } = amzTimestamps(now);
+  const scope = `${date}/${config.region}/s3/aws4_request`;
+  const query: Record<string, string> = {
+    "X-Amz-Algorithm": "AWS4-HMAC-SHA256",
+    "X-Amz-Credential": `${config.accessKeyId}/${scope}`,
+    "X-Amz-Date": amzDate,
+    "X-Amz-Expires": String(Math.max(1, Math.min(7 * 24 * 3600, Math.round(expiresSeconds)))),
+    "X-Amz-SignedHeaders": "host"
+  };
+  const target = s3Target(config, key, query);
+  const canonicalRequest = [method, target.canonicalUri, canonicalQuery(query), `host:${target.host}\n`, "host", UNSIGNED_PAYLOAD].join("\n");
+  const signature = sigV4Signature(config, date, ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n"));
+  return `${target.url}&X-Amz-Signature=${signature}`;
+}
+
+function sigV4Signature(config: S3Config, date: string, stringToSign: string) {
+  let signingKey = hmac(`AWS4${config.secretAccessKey}`, date);
+  for (const part of [config.region, "s3", "aws4_request"]) signingKey = hmac(signingKey, part);
+  return createHmac("sha256", signingKey).update(stringToSign, "utf8").digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string) {
+  return createHmac("sha256", key).update(data, "utf8").digest();
+}
+
+function sha256Hex(data: string | Buffer) {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function amzTimestamps(now: Date) {
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, "");
+  return { amzDate, date: amzDate.slice(0, 8) };
+}
+
+function canonicalQuery(query: Record<string, string>) {
+  return Object.entries(query)
+    .map(([k, v]) => [encodeRfc3986(k), encodeRfc3986(v)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([k, v]) => `${k}=${v}`)
+    .join("&");
+}
+
+function encodeRfc3986(s: string) {
+  return encodeURIComponent(s).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function unescapeXml(s: string) {
+  return s
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
@@ -1,4 +1,6 @@
-import type { ProjectClip, ProjectTimeline } from "./types";
+import type { AssistantOperation, AudioClip, ProjectClip, ProjectTimeline, TimelineAsset } from "./types";
+import { dbToGain, rangeLoudness } from "./loudness";
+import { STILL_DEFAULT_SECONDS } from "./assetKinds";
 
 export function splitProjectClipAt(timeline: ProjectTimeline, clipId: string, sourceSeconds: number) {
   const idx = timeline.clips.findIndex((c) => c.id === clipId);
@@ -59,6 +61,358 @@ export function projectClipOffsets(timeline: ProjectTimeline) {
   return offsets;
 }
 
+// Pure reducer for assistant operations: same input, same timeline (apart from fresh clip ids).
+// Usable from the Studio, route handlers or a batch script; ops are expected to be validated already
+// (lib/assistantOperations.ts), but values are still clamped here.
+export function applyOperation(timeline: ProjectTimeline, assets: TimelineAsset[], op: AssistantOperation): ProjectTimeline {
+  switch (op.op) {
+    case "trim_to_target_seconds":
+      return trimProjectTimelineToTargetSeconds(timeline, op.targetSeconds);
+    case "auto_edit":
+      return autoEditDraft(timeline, assets, op.targetSeconds, op.style, { highlightsOnly: op.highlightsOnly });
+    case "set_clip_length_profile":
+      return setClipLengthProfile(timeline, assets, op.minSeconds, op.maxSeconds, op.avgSeconds);
+    case "set_audio_fades":
+      return setAudioFades(timeline, assets, op.fadeInSeconds, op.fadeOutSeconds);
+    case "set_audio_linked":
+      return setAudioLinked(timeline, assets, op.linked);
+    case "set_track_audio":
+      return setTrackAudio(timeline, assets, op.volume, op.muted);
+    default:
+      return timeline;
+  }
+}
+
+export function applyOperations(timeline: ProjectTimeline, assets: TimelineAsset[], ops: AssistantOperation[]) {
+  return ops.reduce((t, op) => applyOperation(t, assets, op), timeline);
+}
+
+// Clamps clip ranges to asset durations, and volumes/fades to their allowed ranges. Returns `t` itself when nothing changed.
+export function sanitizeTimeline(t: ProjectTimeline, assets: TimelineAsset[]): ProjectTimeline {
+  const assetsById = assetMap(assets);
+  if (t.clips.length === 0) return t;
+  const minLen = 0.2;
+  let changed = false;
+  const trackAudioVolumeRaw = t.trackAudioVolume ?? 1;
+  const trackAudioVolume = clamp(Number.isFinite(trackAudioVolumeRaw) ? trackAudioVolumeRaw : 1, 0, 2);
+  const clips = t.clips.map((c) => {
+    const asset = assetsById.get(c.assetId);
+    const maxOut = asset?.durationSeconds || 0;
+    if (!maxOut || !Number.isFinite(maxOut) || maxOut <= 0) return c;
+
+    const sourceIn = clamp(c.sourceIn, 0, Math.max(0, maxOut - minLen));
+    const sourceOut = clamp(c.sourceOut, sourceIn + minLen, maxOut);
+    const audioVolumeRaw = c.audioVolume ?? 1;
+    const audioVolume = clamp(Number.isFinite(audioVolumeRaw) ? audioVolumeRaw : 1, 0, 2);
+    const audioMuted = Boolean(c.audioMuted);
+    const len = Math.max(minLen, sourceOut - sourceIn);
+    const audioFadeInRaw = c.audioFadeIn ?? 0;
+    const audioFadeOutRaw = c.audioFadeOut ?? 0;
+    const audioFadeIn = clamp(Number.isFinite(audioFadeInRaw) ? audioFadeInRaw : 0, 0, Math.max(0, len / 2));
+    const audioFadeOut = clamp(Number.isFinite(audioFadeOutRaw) ? audioFadeOutRaw : 0, 0, Math.max(0, len / 2));
+    if (
+      sourceIn === c.sourceIn &&
+      sourceOut === c.sourceOut &&
+      audioVolume === (c.audioVolume ?? 1) &&
+      audioMuted === Boolean(c.audioMuted) &&
+      audioFadeIn === (c.audioFadeIn ?? 0) &&
+      audioFadeOut === (c.audioFadeOut ?? 0)
+    )
+      return c;
+    changed = true;
+    return { ...c, sourceIn, sourceOut, audioVolume, audioMuted, audioFadeIn, audioFadeOut };
+  });
+
+  const projectDuration = Math.max(0.001, projectDurationSeconds({ ...t, clips }));
+  let audioClips: AudioClip[] | undefined = t.audioClips;
+  if (t.audioLinked === false && Array.isArray(t.audioClips)) {
+    audioClips = t.audioClips.map((c) => {
+      const asset = assetsById.get(c.assetId);
+      const maxOut = asset?.durationSeconds || 0;
+      if (!maxOut || !Number.isFinite(maxOut) || maxOut <= 0) return c;
+      const sourceIn = clamp(c.sourceIn, 0, Math.max(0, maxOut - minLen));
+      const sourceOut = clamp(c.sourceOut, sourceIn + minLen, maxOut);
+      const len = Math.max(minLen, sourceOut - sourceIn);
+      const startRaw = Number.isFinite(c.start) ? c.start : 0;
+      const start = clamp(startRaw, 0, Math.max(0, projectDuration - len));
+      const volumeRaw = c.volume ?? 1;
+      const volume = clamp(Number.isFinite(volumeRaw) ? volumeRaw : 1, 0, 2);
+      const muted = Boolean(c.muted);
+      const fadeInRaw = c.fadeIn ?? 0;
+      const fadeOutRaw = c.fadeOut ?? 0;
+      const fadeIn = clamp(Number.isFinite(fadeInRaw) ? fadeInRaw : 0, 0, Math.max(0, len / 2));
+      const fadeOut = clamp(Number.isFinite(fadeOutRaw) ? fadeOutRaw : 0, 0, Math.max(0, len / 2));
+      if (
+        sourceIn === c.sourceIn &&
+        sourceOut === c.sourceOut &&
+        start === c.start &&
+        volume === (c.volume ?? 1) &&
+        muted === Boolean(c.muted) &&
+        fadeIn === (c.fadeIn ?? 0) &&
+        fadeOut === (c.fadeOut ?? 0)
+      )
+        return c;
+      changed = true;
+      return { ...c, sourceIn, sourceOut, start, volume, muted, fadeIn, fadeOut };
+    });
+  }
+
+  if (trackAudioVolume !== (t.trackAudioVolume ?? 1)) changed = true;
+  return changed ? { ...t, clips, audioClips, trackAudioVolume } : t;
+}
+
+// Builds a fresh draft from the assets' analysis clips (highlights first), trimmed to targetSeconds.
+export function autoEditDraft(
+  timeline: ProjectTimeline,
+  assets: TimelineAsset[],
+  targetSeconds: number,
+  style?: "fast" | "cinematic" | "story",
+  opts?: { highlightsOnly?: boolean }
+): ProjectTimeline {
+  const assetsById = assetMap(assets);
+  const secs = clamp(Number(targetSeconds) || 60, 10, 20 * 60);
+  if (assets.length === 0) return timeline;
+  const highlightsOnly = Boolean(opts?.highlightsOnly);
+
+  // Collect candidate segments from analysis timelines.
+  type Cand = { assetId: string; label: string; start: number; end: number; score: number };
+  const cands: Cand[] = [];
+
+  for (const a of assets) {
+    const ana = a.analysis;
+    // Audio-only assets have analysis clips too, but nothing to show on V1.
+    if (!ana?.clips?.length || a.kind === "audio") continue;
+    for (const c of ana.clips) {
+      if (highlightsOnly && c.kind !== "highlight") continue;
+      const len = Math.max(0, c.end - c.start);
+      if (len < 0.8) continue;
+      const mid = (c.start + c.end) / 2;
+      const pos = ana.durationSeconds > 0 ? mid / ana.durationSeconds : 0.5;
+      // Score: prefer highlights (if available), avoid intro/outro in fast mode, prefer mid.
+      const kindBoost = c.kind === "highlight" ? 2.2 : c.kind === "broll" ? 1.3 : 1.0;
+      const centerBoost = 1.0 + (1 - Math.abs(pos - 0.5)) * 0.9;
+      const labelBoost = /action|climax|highlight/i.test(c.label) ? 1.35 : /intro|outro/i.test(c.label) ? 0.9 : 1.0;
+      const lenTarget = style === "cinematic" ? 4.5 : style === "story" ? 3.5 : 2.2;
+      const lenBoost = 1.0 - Math.min(0.6, Math.abs(len - lenTarget) / Math.max(1, lenTarget));
+      const edgePenalty = style === "fast" ? 1.0 - Math.max(0, Math.abs(pos - 0.5) - 0.35) * 1.4 : 1.0;
+      const score = kindBoost * centerBoost * labelBoost * (0.7 + lenBoost) * edgePenalty;
+      cands.push({ assetId: a.assetId, label: c.label, start: c.start, end: c.end, score });
+    }
+  }
+
+  // Fallback: if analysis is missing, use full assets.
+  if (cands.length === 0) {
+    const clips = assets
+      .filter((a) => a.durationSeconds > 0 && a.kind !== "audio")
+      .map((a) => ({
+        id: crypto.randomUUID(),
+        assetId: a.assetId,
+        label: cleanAssetName(a.name),
+        sourceIn: 0,
+        sourceOut: Math.min(a.kind === "image" ? STILL_DEFAULT_SECONDS : a.durationSeconds, secs)
+      }));
+    return sanitizeTimeline({ ...timeline, clips, audioLinked: true, audioClips: undefined }, assets);
+  }
+
+  // Pick segments until we hit targetSeconds, with style-dependent trimming.
+  cands.sort((a, b) => b.score - a.score);
+
+  const picked: ProjectClip[] = [];
+  let total = 0;
+  const maxClipLen = style === "cinematic" ? 6 : style === "story" ? 4.5 : 3.0;
+  const minClipLen = style === "cinematic" ? 2 : style === "story" ? 1.5 : 1.0;
+
+  for (const c of cands) {
+    if (total >= secs) break;
+    const asset = assetsById.get(c.assetId);
+    if (!asset) continue;
+    const rawLen = Math.max(0, c.end - c.start);
+    const want = clamp(rawLen, minClipLen, maxClipLen);
+    const start = clamp(c.start, 0, Math.max(0, asset.durationSeconds - want));
+    const end = clamp(start + want, start + minClipLen, asset.durationSeconds);
+    const len = end - start;
+    if (len < minClipLen) continue;
+    picked.push({
+      id: crypto.randomUUID(),
+      assetId: c.assetId,
+      label: c.label,
+      sourceIn: start,
+      sourceOut: end,
+      audioVolume: 1,
+      audioMuted: false,
+      audioFadeIn: 0.12,
+      audioFadeOut: 0.12
+    });
+    total += len;
+  }
+
+  // Ensure a clean story: if "story" style and we have enough, prepend intro + append outro if available.
+  if (style === "story") {
+    const intro = findNamedSegment("intro");
+    const outro = findNamedSegment("outro");
+    if (intro) picked.unshift(intro);
+    if (outro) picked.push(outro);
+  }
+
+  // Trim final timeline to target seconds, keeping sequence order.
+  let nextTimeline: ProjectTimeline = { ...timeline, clips: picked };
+  nextTimeline = trimProjectTimelineToTargetSeconds(nextTimeline, secs);
+  nextTimeline = { ...nextTimeline, audioLinked: true, audioClips: undefined };
+  return sanitizeTimeline(nextTimeline, assets);
+
+  function findNamedSegment(name: "intro" | "outro") {
+    for (const a of assets) {
+      // Same as the candidates: only footage goes on V1.
+      if (a.kind === "audio" || a.kind === "image") continue;
+      const ana = a.analysis;
+      const seg = ana?.clips?.find((c) => c.label.toLowerCase() === name);
+      if (!seg) continue;
+      const want = name === "intro" ? 2.5 : 2.0;
+      const start = clamp(seg.start, 0, Math.max(0, a.durationSeconds - want));
+      const end = clamp(start + want, start + 1, a.durationSeconds);
+      return {
+        id: crypto.randomUUID(),
+        assetId: a.assetId,
+        label: name === "intro" ? "Intro" : "Outro",
+        sourceIn: start,
+        sourceOut: end,
+        audioVolume: 1,
+        audioMuted: false,
+        audioFadeIn: 0.12,
+        audioFadeOut: 0.2
+      } as ProjectClip;
+    }
+    return null;
+  }
+}
+
+// Re-times each clip around its midpoint, keeping clip order.
+export function setClipLengthProfile(
+  t: ProjectTimeline,
+  assets: TimelineAsset[],
+  minSecondsRaw: number,
+  maxSecondsRaw: number,
+  avgSecondsRaw?: number
+): ProjectTimeline {
+  if (t.clips.length === 0) return t;
+  const assetsById = assetMap(assets);
+  const minSeconds = clamp(Number(minSecondsRaw) || 0.8, 0.2, 20);
+  const maxSeconds = clamp(Number(maxSecondsRaw) || 3.0, minSeconds, 30);
+  const avgSeconds = avgSecondsRaw == null ? (minSeconds + maxSeconds) / 2 : clamp(Number(avgSecondsRaw) || (minSeconds + maxSeconds) / 2, minSeconds, maxSeconds);
+
+  const clips = t.clips.map((c) => {
+    const asset = assetsById.get(c.assetId);
+    const maxOut = asset?.durationSeconds ?? c.sourceOut;
+    const curLen = Math.max(0.2, c.sourceOut - c.sourceIn);
+    const mid = c.sourceIn + curLen / 2;
+    // Small deterministic "variation" per clip, without randomness (stable across renders).
+    const hash = simpleHash(c.id);
+    const jitter = ((hash % 1000) / 999 - 0.5) * 0.6; // -0.3..+0.3
+    const want = clamp(avgSeconds * (1 + jitter), minSeconds, maxSeconds);
+    let start = mid - want / 2;
+    let end = mid + want / 2;
+    if (start < 0) {
+      end -= start;
+      start = 0;
+    }
+    if (end > maxOut) {
+      const over = end - maxOut;
+      start = Math.max(0, start - over);
+      end = maxOut;
+    }
+    if (end - start < 0.2) {
+      start = clamp(start, 0, Math.max(0, maxOut - 0.2));
+      end = Math.min(maxOut, start + 0.2);
+    }
+    return { ...c, sourceIn: start, sourceOut: end };
+  });
+
+  return sanitizeTimeline({ ...t, clips }, assets);
+}
+
+export function setAudioFades(t: ProjectTimeline, assets: TimelineAsset[], fadeInSecondsRaw: number, fadeOutSecondsRaw: number): ProjectTimeline {
+  const fadeInSeconds = clamp(Number(fadeInSecondsRaw) || 0, 0, 2);
+  const fadeOutSeconds = clamp(Number(fadeOutSecondsRaw) || 0, 0, 2);
+  const clips = t.clips.map((c) => ({ ...c, audioFadeIn: fadeInSeconds, audioFadeOut: fadeOutSeconds }));
+  let audioClips = t.audioClips;
+  if (t.audioLinked === false && Array.isArray(t.audioClips)) {
+    audioClips = t.audioClips.map((c) => ({ ...c, fadeIn: fadeInSeconds, fadeOut: fadeOutSeconds }));
+  }
+  return sanitizeTimeline({ ...t, clips, audioClips }, assets);
+}
+
+export function setTrackAudio(t: ProjectTimeline, assets: TimelineAsset[], volumeRaw?: number, muted?: boolean): ProjectTimeline {
+  const next: ProjectTimeline = { ...t };
+  if (volumeRaw != null) next.trackAudioVolume = clamp(Number(volumeRaw) || 1, 0, 2);
+  if (muted != null) next.trackAudioMuted = Boolean(muted);
+  return sanitizeTimeline(next, assets);
+}
+
+// Sets each clip's gain so its measured loudness (asset analysis, over the clip's own source range) lands on
+// `targetLufs`, by default the median of the clips, so footage from different phones sits at one level.
+// Clips without loudness data keep their gain; gains stay within the usual 0..200%.
+export function matchClipLoudness(t: ProjectTimeline, assets: TimelineAsset[], targetLufs?: number): ProjectTimeline {
+  const assetsById = assetMap(assets);
+  const unlinked = t.audioLinked === false && Array.isArray(t.audioClips);
+  const ranges: Array<{ assetId: string; sourceIn: number; sourceOut: number }> = unlinked ? t.audioClips! : t.clips;
+  const levels = ranges.map((c) => rangeLoudness(assetsById.get(c.assetId)?.analysis?.loudness, c.sourceIn, c.sourceOut));
+  const known = levels.filter((l): l is number => l != null).sort((a, b) => a - b);
+  if (!known.length) return t;
+  const target = targetLufs ?? known[Math.floor(known.length / 2)];
+  const gainFor = (i: number, current: number) => {
+    const level = levels[i];
+    return level == null ? current : clamp(dbToGain(target - level), 0.05, 2);
+  };
+
+  if (unlinked) {
+    const audioClips = t.audioClips!.map((c, i) => ({ ...c, volume: gainFor(i, c.volume ?? 1) }));
+    return sanitizeTimeline({ ...t, audioClips }, assets);
+  }
+  const clips = t.clips.map((c, i) => ({ ...c, audioVolume: gainFor(i, c.audioVolume ?? 1) }));
+  return sanitizeTimeline({ ...t, clips }, assets);
+}
+
+// Unlinking materializes A1 audio clips from the video clips (assets without audio are skipped).
+export function setAudioLinked(t: ProjectTimeline, assets: TimelineAsset[], linked: boolean): ProjectTimeline {
+  const assetsById = assetMap(assets);
+  if (linked) return sanitizeTimeline({ ...t, audioLinked: true, audioClips: undefined }, assets);
+  // Unlink: materialize audio clips from current video clips that actually have audio.
+  const offsetsLocal = projectClipOffsets(t);
+  const nextAudio: AudioClip[] = [];
+  for (const c of t.clips) {
+    const a = assetsById.get(c.assetId);
+    if (!a?.hasAudio) continue;
+    const start = offsetsLocal.get(c.id) ?? 0;
+    nextAudio.push({
+      id: crypto.randomUUID(),
+      assetId: c.assetId,
+      label: c.label,
+      sourceIn: c.sourceIn,
+      sourceOut: c.sourceOut,
+      start,
+      volume: c.audioVolume ?? 1,
+      muted: Boolean(c.audioMuted),
+      fadeIn: c.audioFadeIn ?? 0,
+      fadeOut: c.audioFadeOut ?? 0
+    });
+  }
+  return sanitizeTimeline({ ...t, audioLinked: false, audioClips: nextAudio.sort((x, y) => x.start - y.start) }, assets);
+}
+
+function simpleHash(s: string) {
+  let h = 2166136261;
+  for (let i = 0; i < s.length; i++) h = Math.imul(h ^ s.charCodeAt(i), 16777619);
+  return (h >>> 0) as number;
+}
+
+export function cleanAssetName(name: string) {
+  return name.replace(/\.[a-z0-9]+$/i, "");
+}
+
+function assetMap(assets: TimelineAsset[]) {
+  return new Map(assets.map((a) => [a.assetId, a]));
+}
+
 function clamp(n: number, a: number, b: number) {
   return Math.max(a, Math.min(b, n));
 }
@@ -0,0 +1,74 @@
+import type { Transcript, TranscriptWord } from "./types";
+
+export type TranscriptHit = {
+  // Index of the first matched word.
+  wordIndex: number;
+  start: number;
+  end: number;
+  // A few words either side of the match, for the Library list.
+  snippet: string;
+};
+
+// Drops empty/malformed words, clamps to [0, maxSeconds] and sorts by start.
+export function normalizeTranscriptWords(words: unknown, maxSeconds: number): TranscriptWord[] {
+  if (!Array.isArray(words)) return [];
+  const out: TranscriptWord[] = [];
+  for (const w of words) {
+    if (!w || typeof w.text !== "string") continue;
+    const text = w.text.trim();
+    const start = Math.max(0, Number(w.start));
+    const end = Math.min(maxSeconds, Number(w.end));
+    if (!text || !Number.isFinite(start) || !Number.isFinite(end) || end <= start) continue;
+    const confidence = Number(w.confidence);
+    out.push(Number.isFinite(confidence) ? { text, start, end, confidence: Math.max(0, Math.min(1, confidence)) } : { text, start, end });
+  }
+  return out.sort((a, b) => a.start - b.start);
+}
+
+export function transcriptText(transcript: Transcript | null | undefined) {
+  return (transcript?.words ?? []).map((w) => w.text).join(" ");
+}
+
+// Lowercase, punctuation stripped: "Okay," and "okay" compare equal.
+export function normalizeWordToken(text: string) {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}']+/gu, "");
+}
+
+// Phrase search over word tokens (so timestamps come straight from the matched words).
+// The last query word may be a prefix: "demo" finds "demos".
+export function searchTranscript(
+  transcript: Transcript | null | undefined,
+  query: string,
+  opts?: { maxHits?: number; context?: number }
+): TranscriptHit[] {
+  const words = transcript?.words ?? [];
+  const needle = query.split(/\s+/).map(normalizeWordToken).filter(Boolean);
+  if (!needle.length || !words.length) return [];
+  const maxHits = opts?.maxHits ?? 20;
+  const context = opts?.context ?? 4;
+  const tokens = words.map((w) => normalizeWordToken(w.text));
+
+  const hits: TranscriptHit[] = [];
+  for (let i = 0; i + needle.length <= tokens.length && hits.length < maxHits; i++) {
+    let ok = true;
+    for (let j = 0; j < needle.length; j++) {
+      const tok = tokens[i + j];
+      const last = j === needle.length - 1;
+      if (last ? !tok.startsWith(needle[j]) : tok !== needle[j]) {
+        ok = false;
+        break;
+      }
+    }
+    if (!ok) continue;
+    const endIdx = i + needle.length - 1;
+    const from = Math.max(0, i - context);
+    const to = Math.min(words.length, endIdx + 1 + context);
+    hits.push({
+      wordIndex: i,
+      start: words[i].start,
+      end: words[endIdx].end,
+      snippet: `${from > 0 ? "… " : ""}${words.slice(from, to).map((w) => w.text).join(" ")}${to < words.length ? " …" : ""}`
+    });
+  }
+  return hits;
+}
@@ -0,0 +1,259 @@
+import type { ProjectTimeline, Transcript } from "./types";
+import { splitProjectClipAt } from "./timeline";
+import { normalizeWordToken } from "./transcript";
+
+// Text-based editing: the project transcript is each clip's slice of its asset transcript, in timeline order.
+// Edits are expressed as source ranges on a clip and applied by splitting/trimming/reordering timeline.clips.
+
+export type ProjectWord = {
+  key: string; // `${clipId}:${wordIndex}`
+  clipId: string;
+  wordIndex: number; // index into the asset transcript
+  text: string;
+  start: number; // source seconds
+  end: number;
+  projectStart: number;
+};
+
+export type ProjectSentence = {
+  key: string;
+  clipId: string;
+  words: ProjectWord[];
+  // Source range covered by the sentence. Sentences of one clip tile the clip end to end.
+  start: number;
+  end: number;
+};
+
+export type ClipSourceRange = { clipId: string; start: number; end: number };
+
+// Same minimum as splitProjectClipAt: pieces shorter than this are dropped rather than kept as slivers.
+const MIN_PIECE_SECONDS = 0.2;
+// How far a word cut may reach into the silence either side of the word.
+const MAX_WORD_PAD_SECONDS = 0.3;
+const SENTENCE_GAP_SECONDS = 0.8;
+
+export const FILLER_WORDS = ["um", "umm", "uh", "uhh", "uhm", "erm", "er", "ah", "hmm", "mm", "mhm"];
+
+export function projectWords(timeline: ProjectTimeline, transcripts: Map<string, Transcript | null | undefined>) {
+  const out: ProjectWord[] = [];
+  let offset = 0;
+  for (const clip of timeline.clips) {
+    const words = transcripts.get(clip.assetId)?.words ?? [];
+    words.forEach((w, i) => {
+      // A word belongs to the clip if its midpoint survives the trim.
+      const mid = (w.start + w.end) / 2;
+      if (mid < clip.sourceIn || mid >= clip.sourceOut) return;
+      out.push({
+        key: `${clip.id}:${i}`,
+        clipId: clip.id,
+        wordIndex: i,
+        text: w.text,
+        start: Math.max(w.start, clip.sourceIn),
+        end: Math.min(w.end, clip.sourceOut),
+        projectStart: offset + Math.max(0, w.start - clip.sourceIn)
+      });
+    });
+    offset += Math.max(0, clip.sourceOut - clip.sourceIn);
+  }
+  return out;
+}
+
+// Splits on sentence punctuation, long pauses and clip boundaries.
+export function projectSentences(timeline: ProjectTimeline, words: ProjectWord[]): ProjectSentence[] {
+  const clipById = new Map(timeline.clips.map((c) => [c.id, c]));
+  const groups: ProjectWord[][] = [];
+  for (let i = 0; i < words.length; i++) {
+    const w = words[i];
+    const prev = words[i - 1];
+    const startNew =
+      !prev || prev.clipId !== w.clipId || /[.!?]["')\]]*$/.test(prev.text) || w.start - prev.end >= SENTENCE_GAP_SECONDS;
+    if (startNew) groups.push([w]);
+    else groups[groups.length - 1].push(w);
+  }
+
+  return groups.map((g, i) => {
+    const clip = clipById.get(g[0].clipId)!;
+    const prev = groups[i - 1];
+    const next = groups[i + 1];
+    const first = g[0];
+    const last = g[g.length - 1];
+    const start = prev && prev[0].clipId === first.clipId ? (prev[prev.length - 1].end + first.start) / 2 : clip.sourceIn;
+    const end = next && next[0].clipId === first.clipId ? (last.end + next[0].start) / 2 : clip.sourceOut;
+    return { key: first.key, clipId: first.clipId, words: g, start, end };
+  });
+}
+
+// Source range to cut for the run words[i..j] (same clip), reaching a little into the surrounding pauses.
+export function wordRunRange(timeline: ProjectTimeline, words: ProjectWord[], i: number, j: number): ClipSourceRange | null {
+  const first = words[i];
+  const last = words[j];
+  if (!first || !last || first.clipId !== last.clipId) return null;
+  const clip = timeline.clips.find((c) => c.id === first.clipId);
+  if (!clip) return null;
+  const before = words[i - 1]?.clipId === first.clipId ? (words[i - 1].end + first.start) / 2 : clip.sourceIn;
+  const after = words[j + 1]?.clipId === first.clipId ? (last.end + words[j + 1].start) / 2 : clip.sourceOut;
+  return {
+    clipId: first.clipId,
+    start: Math.max(before, first.start - MAX_WORD_PAD_SECONDS),
+    end: Math.min(after, last.end + MAX_WORD_PAD_SECONDS)
+  };
+}
+
+// Groups selected word keys into contiguous runs and returns one cut range per run.
+export function selectedWordRanges(timeline: ProjectTimeline, words: ProjectWord[], selected: Set<string>) {
+  const ranges: ClipSourceRange[] = [];
+  let runStart = -1;
+  for (let i = 0; i <= words.length; i++) {
+    const on = i < words.length && selected.has(words[i].key);
+    const breaksRun = runStart !== -1 && (!on || words[i].clipId !== words[runStart].clipId);
+    if (breaksRun) {
+      const r = wordRunRange(timeline, words, runStart, i - 1);
+      if (r) ranges.push(r);
+      runStart = -1;
+    }
+    if (on && runStart === -1) runStart = i;
+  }
+  return ranges;
+}
+
+// Filler words plus pauses longer than gapSeconds (shortened to keepSeconds, split evenly either side).
+export function fillerRanges(
+  timeline: ProjectTimeline,
+  words: ProjectWord[],
+  opts?: { gapSeconds?: number; keepSeconds?: number }
+): ClipSourceRange[] {
+  const gapSeconds = opts?.gapSeconds ?? 0.7;
+  const keep = opts?.keepSeconds ?? 0.3;
+  const fillers = new Set(FILLER_WORDS);
+  const ranges: ClipSourceRange[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const w = words[i];
+    if (fillers.has(normalizeWordToken(w.text))) {
+      const r = wordRunRange(timeline, words, i, i);
+      if (r) ranges.push(r);
+    }
+    const next = words[i + 1];
+    if (next && next.clipId === w.clipId && next.start - w.end > gapSeconds) {
+      ranges.push({ clipId: w.clipId, start: w.end + keep / 2, end: next.start - keep / 2 });
+    }
+  }
+  return ranges;
+}
+
+// Removes source ranges from their clips: a range in the middle splits the clip (splitProjectClipAt),
+// a range touching an edge trims it, and a range covering the clip drops it.
+export function removeClipSourceRanges(timeline: ProjectTimeline, ranges: ClipSourceRange[]): ProjectTimeline {
+  const byClip = new Map<string, ClipSourceRange[]>();
+  for (const r of ranges) {
+    if (!(r.end > r.start)) continue;
+    byClip.set(r.clipId, [...(byClip.get(r.clipId) ?? []), r]);
+  }
+
+  let next = timeline;
+  for (const [clipId, list] of byClip) {
+    // Right to left, so the piece holding the remaining (earlier) ranges is always the left one.
+    let targetId: string | null = clipId;
+    for (const r of mergeRanges(list).reverse()) {
+      if (!targetId) break;
+      const cut = cutClipSourceRange(next, targetId, r.start, r.end);
+      next = cut.timeline;
+      targetId = cut.leftId;
+    }
+  }
+  return next;
+}
+
+function cutClipSourceRange(timeline: ProjectTimeline, clipId: string, start: number, end: number) {
+  const idx = timeline.clips.findIndex((c) => c.id === clipId);
+  if (idx === -1) return { timeline, leftId: null };
+  const clip = timeline.clips[idx];
+  const s = Math.max(start, clip.sourceIn);
+  const e = Math.min(end, clip.sourceOut);
+  if (!(e > s)) return { timeline, leftId: clipId };
+
+  const keepLeft = s - clip.sourceIn >= MIN_PIECE_SECONDS;
+  const keepRight = clip.sourceOut - e >= MIN_PIECE_SECONDS;
+  const withClip = (patch: Partial<typeof clip> | null) => {
+    const clips = [...timeline.clips];
+    if (patch) clips[idx] = { ...clip, ...patch };
+    else clips.splice(idx, 1);
+    return { ...timeline, clips };
+  };
+
+  if (!keepLeft && !keepRight) return { timeline: withClip(null), leftId: null };
+  if (!keepLeft) return { timeline: withClip({ sourceIn: e }), leftId: null };
+  if (!keepRight) return { timeline: withClip({ sourceOut: s }), leftId: clipId };
+
+  const split = splitProjectClipAt(timeline, clipId, s);
+  if (!split) return { timeline, leftId: clipId };
+  const clips = split.timeline.clips.map((c) => (c.id === split.newSelectedId ? { ...c, sourceIn: e } : c));
+  return { timeline: { ...split.timeline, clips }, leftId: clips[idx].id };
+}
+
+function mergeRanges(list: ClipSourceRange[]) {
+  const sorted = [...list].sort((a, b) => a.start - b.start);
+  const out: ClipSourceRange[] = [];
+  for (const r of sorted) {
+    const prev = out[out.length - 1];
+    if (prev && r.start <= prev.end + 0.01) prev.end = Math.max(prev.end, r.end);
+    else out.push({ ...r });
+  }
+  return out;
+}
+
+// Moves `moving` so it plays right before `anchor`. Both ranges are first split out into clips of their own.
+export function moveSourceRangeBefore(
+  timeline: ProjectTimeline,
+  moving: ClipSourceRange,
+  anchor: ClipSourceRange
+): ProjectTimeline | null {
+  if (moving.clipId === anchor.clipId && moving.start === anchor.start) return null;
+  // Isolate the later range first; an earlier range in the same clip then lives in the piece before it.
+  const movingFirst = moving.clipId === anchor.clipId ? moving.start > anchor.start : false;
+  const [a, b] = movingFirst ? [moving, anchor] : [anchor, moving];
+
+  const first = isolateSourceRange(timeline, a.clipId, a.start, a.end);
+  if (!first) return null;
+  const bClipId = b.clipId === a.clipId ? first.beforeId : b.clipId;
+  if (!bClipId) return null;
+  const second = isolateSourceRange(first.timeline, bClipId, b.start, b.end);
+  if (!second) return null;
+
+  const movingId = movingFirst ? first.id : second.id;
+  const anchorId = movingFirst ? second.id : first.id;
+  const clips = [...second.timeline.clips];
+  const from = clips.findIndex((c) => c.id === movingId);
+  if (from === -1) return null;
+  const [clip] = clips.splice(from, 1);
+  const to = clips.findIndex((c) => c.id === anchorId);
+  if (to === -1) return null;
+  clips.splice(to, 0, clip);
+  return { ...second.timeline, clips };
+}
+
+// Splits a clip so [start, end] is its own clip. Edges within MIN_PIECE_SECONDS of the clip edge snap to it.
+function isolateSourceRange(timeline: ProjectTimeline, clipId: string, start: number, end: number) {
+  const clip = timeline.clips.find((c) => c.id === clipId);
+  if (!clip) return null;
+  const s = start - clip.sourceIn < MIN_PIECE_SECONDS ? clip.sourceIn : start;
+  const e = clip.sourceOut - end < MIN_PIECE_SECONDS ? clip.sourceOut : end;
+  if (e - s < MIN_PIECE_SECONDS) return null;
+
+  let next = timeline;
+  let id = clipId;
+  if (e < clip.sourceOut) {
+    const split = splitProjectClipAt(next, id, e);
+    if (!split) return null;
+    next = split.timeline;
+    id = next.clips[next.clips.findIndex((c) => c.id === split.newSelectedId) - 1].id;
+  }
+  let beforeId: string | null = null;
+  if (s > clip.sourceIn) {
+    const split = splitProjectClipAt(next, id, s);
+    if (!split) return null;
+    next = split.timeline;
+    beforeId = next.clips[next.clips.findIndex((c) => c.id === split.newSelectedId) - 1].id;
+    id = split.newSelectedId;
+  }
+  return { timeline: next, id, beforeId };
+}
@@ -0,0 +1,139 @@
+import { spawn } from "node:child_process";
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { Transcript, TranscriptWord } from "./types";
+import { normalizeTranscriptWords } from "./transcript";
+
+// Server-only: speech-to-text for uploaded assets.
+// Pick a provider with TRANSCRIBE_PROVIDER:
+//   "command" - runs TRANSCRIBE_COMMAND on a 16 kHz mono WAV of the asset and reads JSON from stdout.
+//   "fake"    - deterministic placeholder words (no model needed; for local dev and tests).
+//   "off"     - no transcription.
+// Default: "command" when TRANSCRIBE_COMMAND is set, otherwise off.
+
+export type TranscriptionProvider = {
+  name: string;
+  transcribe(filePath: string, opts: { durationSeconds: number }): Promise<Transcript>;
+};
+
+export function getTranscriptionProvider(): TranscriptionProvider | null {
+  const command = process.env.TRANSCRIBE_COMMAND?.trim() ?? "";
+  const choice = (process.env.TRANSCRIBE_PROVIDER?.trim().toLowerCase() || (command ? "command" : "off"));
+  if (choice === "fake") return fakeProvider;
+  if (choice === "command") {
+    if (!command) throw new Error("TRANSCRIBE_PROVIDER=command needs TRANSCRIBE_COMMAND");
+    const timeoutMs = Number(process.env.TRANSCRIBE_TIMEOUT_MS) || 10 * 60_000;
+    return createCommandProvider(command, { timeoutMs });
+  }
+  return null;
+}
+
+// TRANSCRIBE_COMMAND is split on whitespace (no shell, no quoting). "{input}" is replaced with the WAV path;
+// without a placeholder the path is appended as the last argument.
+// Stdout must be JSON: { language?, words: [{ word|text, start, end, probability|confidence? }] }
+// or Whisper-style { language?, segments: [{ words: [...] }] }.
+export function createCommandProvider(command: string, opts: { timeoutMs: number }): TranscriptionProvider {
+  const [cmd, ...rest] = command.split(/\s+/).filter(Boolean);
+  return {
+    name: "command",
+    async transcribe(filePath, { durationSeconds }) {
+      const dir = await mkdtemp(path.join(os.tmpdir(), "clipgenius-stt-"));
+      try {
+        const wavPath = path.join(dir, "audio.wav");
+        await run(
+          "ffmpeg",
+          ["-hide_banner", "-y", "-i", filePath, "-vn", "-ac", "1", "-ar", "16000", "-c:a", "pcm_s16le", wavPath],
+          { timeoutMs: 5 * 60_000 }
+        );
+        const args = rest.some((a) => a.includes("{input}"))
+          ? rest.map((a) => a.split("{input}").join(wavPath))
+          : [...rest, wavPath];
+        const { stdout } = await run(cmd, args, { timeoutMs: opts.timeoutMs });
+        return parseTranscriptOutput(stdout, "command", durationSeconds);
+      } finally {
+        await rm(dir, { recursive: true, force: true }).catch(() => {});
+      }
+    }
+  };
+}
+
+export function parseTranscriptOutput(stdout: string, provider: string, durationSeconds: number): Transcript {
+  let json: any;
+  try {
+    json = JSON.parse(stdout);
+  } catch {
+    throw new Error("Transcription command did not print JSON");
+  }
+  const raw: any[] = Array.isArray(json?.words)
+    ? json.words
+    : Array.isArray(json?.segments)
+      ? json.segments.flatMap((s: any) => (Array.isArray(s?.words) ? s.words : []))
+      : [];
+  const words = normalizeTranscriptWords(
+    raw.map((w) => ({
+      text: String(w?.word ?? w?.text ?? ""),
+      start: Number(w?.start),
+      end: Number(w?.end),
+      confidence: w?.probability ?? w?.confidence
+    })),
+    durationSeconds
+  );
+  const language = typeof json?.language === "string" ? json.language : undefined;
+  return { provider, language, words };
+}
+
+const FAKE_SCRIPT =
+  "so um today we are going to walk through the whole thing uh step by step and you know " +
+  "the first part is basically the setup then we get into the good stuff like the main demo " +
+  "and um at the end I will show you the results so stick around";
+
+// Same input duration -> same words, every time. Pauses every 8 words so silence-based tools have something to find.
+export const fakeProvider: TranscriptionProvider = {
+  name: "fake",
+  async transcribe(_filePath, { durationSeconds }) {
+    const script = FAKE_SCRIPT.split(" ");
+    const words: TranscriptWord[] = [];
+    let t = 0.2;
+    for (let i = 0; t < durationSeconds - 0.2; i++) {
+      const text = script[i % script.length];
+      const len = Math.min(0.15 + text.length * 0.06, durationSeconds - t);
+      words.push({ text, start: round2(t), end: round2(t + len), confidence: 0.9 });
+      t += len + ((i + 1) % 8 === 0 ? 0.9 : 0.08);
+    }
+    return { provider: "fake", language: "en", words: normalizeTranscriptWords(words, durationSeconds) };
+  }
+};
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+function run(cmd: string, args: string[], opts: { timeoutMs: number }) {
+  return new Promise<{ stdout: string; stderr: string }>((resolve, reject) => {
+    const child = spawn(cmd, args, { stdio: ["ignore", "pipe", "pipe"] });
+    const chunksOut: Buffer[] = [];
+    const chunksErr: Buffer[] = [];
+
+    const timer = setTimeout(() => {
+      child.kill("SIGKILL");
+      reject(new Error(`Command timed out: ${cmd}`));
+    }, opts.timeoutMs);
+
+    child.stdout.on("data", (d) => chunksOut.push(Buffer.from(d)));
+    child.stderr.on("data", (d) => chunksErr.push(Buffer.from(d)));
+
+    child.on("error", (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      const stdout = Buffer.concat(chunksOut).toString("utf8");
+      const stderr = Buffer.concat(chunksErr).toString("utf8");
+      if (code === 0) resolve({ stdout, stderr });
+      else reject(new Error(stderr || `Command failed: ${cmd} (${code})`));
+    });
+  });
+}
@@ -9,10 +9,73 @@ export type AnalysisClip = {
   end: number;
 };
 
+// Speech-to-text result for one asset (asset/source time, seconds).
+export type TranscriptWord = {
+  text: string;
+  start: number;
+  end: number;
+  // 0..1 when the provider reports it.
+  confidence?: number;
+};
+
+export type Transcript = {
+  // Which provider produced it ("command", "fake", ...).
+  provider: string;
+  language?: string;
+  words: TranscriptWord[];
+};
+
 export type AnalysisTimeline = {
   assetId: string;
   durationSeconds: number;
   clips: AnalysisClip[];
+  // Missing when no transcription provider is configured, the asset has no audio, or transcription failed.
+  transcript?: Transcript | null;
+  // Missing when the asset has no audio or measuring failed.
+  loudness?: AudioLoudness | null;
+};
+
+// EBU R128 measurements of an asset's audio (ffmpeg ebur128), see lib/loudness.ts.
+export type AudioLoudness = {
+  integratedLufs: number;
+  // Loudness range, LU.
+  rangeLu: number;
+  // True peak, dBTP.
+  peakDb: number;
+  // Quiet end of the short-term curve (10th percentile): room tone / hiss. Sets the silence threshold.
+  noiseFloorLufs: number;
+  // Short-term (3 s window) loudness sampled every intervalSeconds, LUFS; -70 = silence.
+  shortTerm: { intervalSeconds: number; values: number[] };
+};
+
+export type ExportResolution = "720p" | "1080p" | "4K";
+
+// Container/codec preset (see lib/exportFormats.ts for what each one allows).
+export type ExportFormat = "MP4" | "WebM" | "GIF" | "MOV" | "M4A" | "WAV";
+
+// Loudness normalization at export (two-pass EBU R128). Presets map to LUFS in lib/exportFormats.ts;
+// "custom" uses the request's own LUFS value.
+export type LoudnessTarget = "off" | "streaming" | "podcast" | "broadcast" | "custom";
+
+// Output frame shape at export. "source" keeps the footage aspect (scale by height only).
+export type ExportAspect = "source" | "9:16" | "1:1" | "4:5";
+
+// "crop": fill the frame by cropping (focus is movable horizontally).
+// "blur": fit the whole frame, letterboxed over a blurred copy of itself.
+export type ReframeMode = "crop" | "blur";
+
+// The parts of a Library asset that timeline operations need (lib/timeline.ts).
+// "audio": an audio-only file (music, voice-over). "image": a still; see lib/assetKinds.ts for its duration.
+export type AssetKind = "video" | "audio" | "image";
+
+export type TimelineAsset = {
+  assetId: string;
+  name: string;
+  durationSeconds: number;
+  hasAudio: boolean;
+  analysis: AnalysisTimeline | null;
+  // Absent means "video" (assets from before audio and image import).
+  kind?: AssetKind;
 };
 
 // Project timeline (what the user actually exports)
@@ -27,6 +90,10 @@ export type ProjectClip = {
   audioMuted?: boolean;
   audioFadeIn?: number; // seconds
   audioFadeOut?: number; // seconds
+  // How this clip fills a non-source export aspect (see ExportAspect). Default: "crop".
+  reframe?: ReframeMode;
+  // Horizontal centre of the crop window, 0..1 (0.5 = centred).
+  reframeFocusX?: number;
 };
 
 export type AudioClip = {
@@ -44,15 +111,52 @@ export type AudioClip = {
   fadeOut?: number; // seconds
 };
 
+// Music bed (M1): one asset with audio under the whole cut, starting at 0. Loops, or stops where the asset
+// ends; either way it is cut at the project end. Ducks under A1 while someone is talking.
+export type MusicBed = {
+  assetId: string;
+  // Linear gain multiplier, 0..2.
+  volume?: number;
+  muted?: boolean;
+  loop?: boolean;
+  fadeIn?: number; // seconds
+  fadeOut?: number; // seconds
+  ducking?: MusicDucking;
+};
+
+export type MusicDucking = {
+  enabled: boolean;
+  // How far the music drops under dialogue (dB, 0..30).
+  depthDb: number;
+  attackMs: number;
+  releaseMs: number;
+};
+
+// Timed caption text, positioned on project time (seconds from the start of the cut).
+export type CaptionCue = {
+  id: string;
+  start: number;
+  end: number;
+  text: string;
+};
+
+export type CaptionStyle = "clean" | "bold" | "boxed";
+
+// "burn": render into the video frames. "sidecar": write .srt + .vtt next to the export.
+export type CaptionExportMode = "off" | "burn" | "sidecar";
+
 export type ProjectTimeline = {
   projectId: string;
   clips: ProjectClip[];
+  // Caption lane (T1). Independent of clips: cues don't move when clips are reordered.
+  captions?: CaptionCue[];
   // Optional, for when audio is unlinked from video and becomes its own editable lane.
   audioLinked?: boolean;
   audioClips?: AudioClip[];
   trackAudioMuted?: boolean;
   trackAudioVolume?: number; // 0..2
   trackVideoHidden?: boolean;
+  music?: MusicBed | null;
 };
 
 export type AssistantOperation =
@@ -93,7 +197,223 @@ export type AssistantOperation =
       muted?: boolean;
     };
 
+// An operation that failed validation (lib/assistantOperations.ts); reported to the user instead of applied.
+export type RejectedAssistantOperation = {
+  op: string;
+  reason: string;
+};
+
 export type AssistantReply = {
   reply: string;
   operations?: AssistantOperation[];
+  rejectedOperations?: RejectedAssistantOperation[];
+};
+
+// What the Studio tells /api/assistant about the Library (the timeline is sent as-is).
+export type AssistantAssetSummary = {
+  assetId: string;
+  name: string;
+  durationSeconds: number;
+  hasAudio: boolean;
+  highlightCount: number;
+  // First few hundred characters of the transcript, if any.
+  transcriptExcerpt?: string;
+};
+
+// A Library asset as the Studio keeps it (uploaded file + analysis).
+export type ProjectAsset = {
+  assetId: string;
+  name: string;
+  // Absent means "video". Audio and image files are stored under videoUrl too.
+  kind?: AssetKind;
+  videoUrl: string;
+  durationSeconds: number;
+  hasAudio: boolean;
+  // Legacy waveform image; assets analyzed since peaks landed have peaksUrl instead.
+  waveformUrl: string | null;
+  analysis: AnalysisTimeline | null;
+  // Min/max audio peaks at several zoom levels (lib/waveformPeaks.ts), drawn on canvas in the audio lane.
+  peaksUrl?: string | null;
+  // Small short-GOP H.264 copy for smooth preview and scrubbing. Exports always use videoUrl.
+  proxyUrl?: string | null;
+  // Filmstrip frames for the video lane and the Library.
+  thumbnails?: ThumbnailSprite | null;
+  // Set while background analysis is running (GET /api/analysis polls it).
+  analysisJobId?: string;
+  // SHA-256 of the uploaded file. Assets imported from the same file share it (and the stored copy).
+  sourceHash?: string;
+};
+
+// One image holding `count` frames of frameWidth x frameHeight, left to right then top to bottom, `columns` per row.
+// Frame i shows the asset at i * intervalSeconds.
+export type ThumbnailSprite = {
+  url: string;
+  frameWidth: number;
+  frameHeight: number;
+  columns: number;
+  count: number;
+  intervalSeconds: number;
+};
+
+export type ChatMessage = { role: "ai" | "user"; text: string };
+
+// Everything needed to reopen a project in the Studio.
+export type ProjectDocument = {
+  assets: ProjectAsset[];
+  timeline: ProjectTimeline;
+  chat: ChatMessage[];
+};
+
+// Project file format (Studio Save/Load and the browser autosave). Bump `v` and add a migration in
+// lib/projectFile.ts whenever older Studios would misread a file.
+export type ProjectFile = ProjectDocument & {
+  v: 3;
+  app: "clipgenius-studio";
+  savedAt: number;
+};
+
+// v1: before the caption lane. `timeline.captions` and `chat` may be missing, and there is no `app` tag.
+export type ProjectFileV1 = {
+  v: 1;
+  savedAt?: number;
+  assets: ProjectAsset[];
+  timeline: ProjectTimeline;
+  chat?: ChatMessage[];
+};
+
+// v2: before the music bed and audio/still assets. `timeline.music` and asset `kind` may be missing.
+export type ProjectFileV2 = ProjectDocument & {
+  v: 2;
+  app: "clipgenius-studio";
+  savedAt: number;
+};
+
+// Something in a loaded project file that was invalid and got dropped or reset to a default.
+export type ProjectFileIssue = {
+  path: string; // e.g. "timeline.clips[3]"
+  message: string;
+};
+
+// Server-side project (see /api/projects). `revision` goes up by one on every save;
+// updates must name the revision they were based on or get a 409.
+export type ProjectRecord = {
+  id: string;
+  name: string;
+  revision: number;
+  createdAt: number;
+  updatedAt: number;
+  document: ProjectDocument;
+};
+
+export type ProjectSummary = Omit<ProjectRecord, "document"> & {
+  assetCount: number;
+  clipCount: number;
+};
+
+// Named copy of a project document, kept next to the project (see /api/projects/<id>/snapshots).
+// `revision` is the project revision the snapshot was taken from.
+export type ProjectSnapshot = {
+  id: string;
+  projectId: string;
+  name: string;
+  revision: number;
+  createdAt: number;
+  document: ProjectDocument;
+};
+
+export type ProjectSnapshotSummary = Omit<ProjectSnapshot, "document"> & {
+  clipCount: number;
+  durationSeconds: number;
+};
+
+// POST /api/bundle/import response: the unpacked project, re-linked to its media under /uploads.
+export type ProjectBundleImport = {
+  document: ProjectDocument;
+  fromVersion: number;
+  issues: ProjectFileIssue[];
+  // Assets whose id was already taken on this server and got a new one.
+  remappedAssets: number;
+};
+
+// Background asset analysis (see lib/analysisJobs.ts). Results fill in stage by stage while the job runs.
+export type AnalysisStage = "normalize" | "scenes" | "loudness" | "highlights" | "waveform" | "thumbnails" | "proxy" | "transcript";
+export type AnalysisJobState = "queued" | "running" | "done" | "failed";
+
+export type AnalysisJobStatus = {
+  jobId: string;
+  assetId: string;
+  state: AnalysisJobState;
+  stage: AnalysisStage | null;
+  // Changes once rotation normalization lands.
+  videoUrl: string;
+  waveformUrl: string | null;
+  peaksUrl: string | null;
+  proxyUrl: string | null;
+  thumbnails: ThumbnailSprite | null;
+  analysis: AnalysisTimeline | null;
+  error: string | null;
+  createdAt: number;
+  updatedAt: number;
+};
+
+// POST /api/gc response (see lib/mediaGc.ts).
+export type MediaGcReport = {
+  dryRun: boolean;
+  // Storage keys removed (or that would be, on a dry run).
+  deleted: string[];
+  bytesFreed: number;
+  keptUploads: number;
+  prunedIndexEntries: number;
+  ranAt: number;
+};
+
+// DELETE /api/assets/<assetId> response.
+export type AssetDeleteResult = {
+  deleted: string[];
+  // The files are still used by another project, a snapshot or another asset, so they were kept.
+  inUse: boolean;
+};
+
+// Resumable chunked upload (POST /api/uploads starts one; see lib/uploadSessions.ts).
+export type UploadSessionStatus = {
+  uploadId: string;
+  name: string;
+  type: string;
+  size: number; // bytes
+  // Optional whole-file SHA-256 (hex), checked on complete.
+  sha256: string | null;
+  // Bytes stored so far; the next chunk must start here.
+  received: number;
+  // Suggested chunk size for PUTs.
+  chunkBytes: number;
+  createdAt: number;
+  updatedAt: number;
+};
+
+// Export render job (POST /api/export starts one; GET/DELETE /api/export/<jobId> polls or cancels it).
+export type ExportJobState = "running" | "done" | "failed" | "canceled";
+
+export type ExportJobStatus = {
+  jobId: string;
+  state: ExportJobState;
+  // 0..1, parsed from ffmpeg -progress output against the project duration.
+  progress: number;
+  exportUrl: string | null;
+  // Caption sidecar files (.srt/.vtt) written next to the export, if requested.
+  sidecarUrls: string[];
+  // Set when the export was loudness-normalized and had audio.
+  loudness: ExportLoudnessReport | null;
+  error: string | null;
+  createdAt: number;
+  updatedAt: number;
+};
+
+// What the export's loudnorm passes measured. LUFS for loudness, dBTP for true peak.
+export type ExportLoudnessReport = {
+  targetLufs: number;
+  // The mix before normalization.
+  inputLufs: number;
+  // The normalized output; null when the mix was silent and left untouched.
+  outputLufs: number | null;
+  outputTruePeakDb: number | null;
 };
@@ -0,0 +1,207 @@
+import { createHash } from "node:crypto";
+import type { Hash } from "node:crypto";
+import { createReadStream, createWriteStream } from "node:fs";
+import { copyFile, mkdir, readFile, readdir, rename, rm, stat, truncate, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { Readable, Transform } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { UploadSessionStatus } from "./types";
+
+// Server-only: resumable chunked uploads (see /api/uploads). A session is two files under UPLOAD_TMP_DIR
+// (default ./data/uploads): <uploadId>.json with the metadata and <uploadId>.part with the bytes so far.
+// The .part size is the source of truth for how much arrived, so a session survives a server restart.
+// Chunks are appended in order: a PUT must start exactly where the last one ended.
+// The whole-file SHA-256 is built up as chunks arrive (in memory; after a restart it's recomputed on complete).
+
+export const UPLOAD_CHUNK_BYTES = 8 * 1024 * 1024;
+export const MAX_UPLOAD_CHUNK_BYTES = 32 * 1024 * 1024;
+// Sessions untouched for this long are removed when the next one is created.
+const SESSION_TTL_MS = 24 * 60 * 60_000;
+
+type SessionMeta = Omit<UploadSessionStatus, "received" | "chunkBytes">;
+
+export type ChunkResult =
+  | { ok: true; status: UploadSessionStatus }
+  | { ok: false; reason: "not_found" }
+  | { ok: false; reason: "offset_mismatch" | "checksum_mismatch" | "too_large"; status: UploadSessionStatus };
+
+export type FinishResult =
+  | { ok: true; status: UploadSessionStatus; sha256: string }
+  | { ok: false; reason: "not_found" }
+  | { ok: false; reason: "incomplete" | "checksum_mismatch"; status: UploadSessionStatus };
+
+const ID_RE = /^[a-zA-Z0-9-]{1,64}$/;
+const SHA256_RE = /^[a-f0-9]{64}$/;
+
+function sessionsDir() {
+  return process.env.UPLOAD_TMP_DIR?.trim() || path.join(process.cwd(), "data", "uploads");
+}
+
+function metaPath(id: string) {
+  return path.join(sessionsDir(), `${id}.json`);
+}
+
+function partPath(id: string) {
+  return path.join(sessionsDir(), `${id}.part`);
+}
+
+export function isSha256(value: unknown): value is string {
+  return typeof value === "string" && SHA256_RE.test(value);
+}
+
+export async function createUploadSession(input: {
+  name: string;
+  type: string;
+  size: number;
+  sha256: string | null;
+}): Promise<UploadSessionStatus> {
+  await mkdir(sessionsDir(), { recursive: true });
+  await pruneStaleSessions();
+  const now = Date.now();
+  const meta: SessionMeta = { uploadId: crypto.randomUUID(), ...input, createdAt: now, updatedAt: now };
+  await writeFile(partPath(meta.uploadId), new Uint8Array(0));
+  await writeFile(metaPath(meta.uploadId), JSON.stringify(meta));
+  return { ...meta, received: 0, chunkBytes: UPLOAD_CHUNK_BYTES };
+}
+
+export async function getUploadSession(id: string): Promise<UploadSessionStatus | null> {
+  if (!ID_RE.test(id)) return null;
+  try {
+    const meta = JSON.parse(await readFile(metaPath(id), "utf8")) as SessionMeta;
+    const { size: received } = await stat(partPath(id));
+    return { ...meta, received, chunkBytes: UPLOAD_CHUNK_BYTES };
+  } catch {
+    return null;
+  }
+}
+
+// Streams one chunk onto the end of the .part file. `chunkSha256` (hex) is checked after the bytes land;
+// on a mismatch, or if the chunk overruns the declared size, the file is cut back to `offset`.
+export async function appendUploadChunk(
+  id: string,
+  offset: number,
+  body: ReadableStream<Uint8Array>,
+  chunkSha256: string | null
+): Promise<ChunkResult> {
+  return withUploadLock(id, async () => {
+    const status = await getUploadSession(id);
+    if (!status) return { ok: false, reason: "not_found" };
+    if (offset !== status.received) return { ok: false, reason: "offset_mismatch", status };
+
+    const limit = Math.min(MAX_UPLOAD_CHUNK_BYTES, status.size - offset);
+    const hash = createHash("sha256");
+    // Continue the running file hash on a copy, so a rejected chunk leaves it untouched.
+    const running = fileHashes().get(id);
+    const fileHash = running?.received === offset ? running.hash.copy() : offset === 0 ? createHash("sha256") : null;
+    let bytes = 0;
+    const meter = new Transform({
+      transform(chunk: Buffer, _enc, done) {
+        bytes += chunk.length;
+        if (bytes > limit) return done(new Error("too_large"));
+        hash.update(chunk);
+        fileHash?.update(chunk);
+        done(null, chunk);
+      }
+    });
+
+    try {
+      await pipeline(Readable.fromWeb(body as any), meter, createWriteStream(partPath(id), { flags: "a" }));
+    } catch (err) {
+      await truncate(partPath(id), offset);
+      if (err instanceof Error && err.message === "too_large") return { ok: false, reason: "too_large", status };
+      throw err;
+    }
+    if (chunkSha256 && hash.digest("hex") !== chunkSha256) {
+      await truncate(partPath(id), offset);
+      return { ok: false, reason: "checksum_mismatch", status };
+    }
+    if (fileHash) fileHashes().set(id, { received: offset + bytes, hash: fileHash });
+    else fileHashes().delete(id);
+    await touch(id);
+    return { ok: true, status: { ...status, received: offset + bytes, updatedAt: Date.now() } };
+  });
+}
+
+// Checks the upload is complete (and matches the whole-file sha256 given at init, if any),
+// then moves the bytes to `dst` and removes the session. Returns the file's SHA-256 either way.
+export async function finishUploadSession(id: string, dst: string): Promise<FinishResult> {
+  return withUploadLock(id, async () => {
+    const status = await getUploadSession(id);
+    if (!status) return { ok: false, reason: "not_found" };
+    if (status.received !== status.size) return { ok: false, reason: "incomplete", status };
+    const running = fileHashes().get(id);
+    const sha256 = running?.received === status.size ? running.hash.digest("hex") : await sha256File(partPath(id));
+    fileHashes().delete(id);
+    if (status.sha256 && sha256 !== status.sha256) return { ok: false, reason: "checksum_mismatch", status };
+
+    await mkdir(path.dirname(dst), { recursive: true });
+    try {
+      await rename(partPath(id), dst);
+    } catch (err: any) {
+      // UPLOAD_TMP_DIR on another filesystem.
+      if (err?.code !== "EXDEV") throw err;
+      await copyFile(partPath(id), dst);
+    }
+    await removeSession(id);
+    return { ok: true, status, sha256 };
+  });
+}
+
+export async function deleteUploadSession(id: string): Promise<boolean> {
+  if (!ID_RE.test(id)) return false;
+  return withUploadLock(id, async () => {
+    if (!(await getUploadSession(id))) return false;
+    await removeSession(id);
+    return true;
+  });
+}
+
+async function removeSession(id: string) {
+  fileHashes().delete(id);
+  await rm(partPath(id), { force: true });
+  await rm(metaPath(id), { force: true });
+}
+
+async function touch(id: string) {
+  const meta = JSON.parse(await readFile(metaPath(id), "utf8")) as SessionMeta;
+  await writeFile(metaPath(id), JSON.stringify({ ...meta, updatedAt: Date.now() }));
+}
+
+async function pruneStaleSessions() {
+  const cutoff = Date.now() - SESSION_TTL_MS;
+  for (const name of await readdir(sessionsDir()).catch(() => [] as string[])) {
+    if (!name.endsWith(".json")) continue;
+    const session = await getUploadSession(name.slice(0, -5));
+    if (session && session.updatedAt < cutoff) await removeSession(session.uploadId);
+  }
+}
+
+async function sha256File(filePath: string) {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(filePath)) hash.update(chunk);
+  return hash.digest("hex");
+}
+
+// Route handlers are bundled separately, so the lock and hash tables live on globalThis (same as lib/projectStore.ts).
+const registry = globalThis as typeof globalThis & {
+  __clipgeniusUploadLocks?: Map<string, Promise<unknown>>;
+  __clipgeniusUploadHashes?: Map<string, { received: number; hash: Hash }>;
+};
+
+function fileHashes() {
+  if (!registry.__clipgeniusUploadHashes) registry.__clipgeniusUploadHashes = new Map();
+  return registry.__clipgeniusUploadHashes;
+}
+
+async function withUploadLock<T>(id: string, fn: () => Promise<T>): Promise<T> {
+  if (!registry.__clipgeniusUploadLocks) registry.__clipgeniusUploadLocks = new Map();
+  const locks = registry.__clipgeniusUploadLocks;
+  const prev = locks.get(id) ?? Promise.resolve();
+  const run = prev.catch(() => {}).then(fn);
+  locks.set(id, run);
+  try {
+    return await run;
+  } finally {
+    if (locks.get(id) === run) locks.delete(id);
+  }
+}
@@ -0,0 +1,138 @@
+// Audio waveform peaks: min/max of mono 8 kHz audio at a few zoom levels. Built during upload analysis
+// (lib/ingest.ts), stored as "<assetId>_peaks.json" and drawn on canvas in the Studio's audio lane, so zooming in
+// shows real detail instead of a stretched image. No Node APIs here: the Studio decodes the same format.
+
+export const PEAKS_SAMPLE_RATE = 8000;
+// Samples per peak for each level, finest first: 100, 25, 6.25 and ~1.6 peaks per second.
+export const PEAK_LEVELS = [80, 320, 1280, 5120];
+
+// On disk. `data` is base64 of int8 [min, max] pairs, one pair per peak (127 = full scale).
+export type WaveformPeaksFile = {
+  v: 1;
+  sampleRate: number;
+  durationSeconds: number;
+  levels: Array<{ samplesPerPeak: number; data: string }>;
+};
+
+export type PeakLevel = { samplesPerPeak: number; peaks: Int8Array };
+export type WaveformPeaks = { sampleRate: number; durationSeconds: number; levels: PeakLevel[] };
+
+// Feed s16le mono samples as they are decoded; finish() returns every level.
+export function createPeakBuilder(sampleRate = PEAKS_SAMPLE_RATE) {
+  const step = PEAK_LEVELS[0];
+  const finest: number[] = [];
+  let count = 0;
+  let min = 0;
+  let max = 0;
+  let total = 0;
+
+  const flush = () => {
+    finest.push(toInt8(min), toInt8(max));
+    count = 0;
+    min = 0;
+    max = 0;
+  };
+
+  return {
+    push(samples: Int16Array) {
+      for (let i = 0; i < samples.length; i++) {
+        const s = samples[i] / 32768;
+        if (count === 0) min = max = s;
+        else if (s < min) min = s;
+        else if (s > max) max = s;
+        if (++count === step) flush();
+      }
+      total += samples.length;
+    },
+    finish(): WaveformPeaks {
+      if (count > 0) flush();
+      const levels: PeakLevel[] = [{ samplesPerPeak: step, peaks: Int8Array.from(finest) }];
+      for (const samplesPerPeak of PEAK_LEVELS.slice(1)) {
+        levels.push({ samplesPerPeak, peaks: mergePeaks(levels[0].peaks, samplesPerPeak / step) });
+      }
+      return { sampleRate, durationSeconds: total / sampleRate, levels };
+    }
+  };
+}
+
+function toInt8(v: number) {
+  return Math.max(-127, Math.min(127, Math.round(v * 127)));
+}
+
+// Every `factor` pairs of `peaks` become one.
+function mergePeaks(peaks: Int8Array, factor: number) {
+  const pairs = peaks.length / 2;
+  const out = new Int8Array(Math.ceil(pairs / factor) * 2);
+  for (let o = 0; o < out.length / 2; o++) {
+    let min = 127;
+    let max = -127;
+    for (let i = o * factor; i < Math.min(pairs, (o + 1) * factor); i++) {
+      min = Math.min(min, peaks[i * 2]);
+      max = Math.max(max, peaks[i * 2 + 1]);
+    }
+    out[o * 2] = min;
+    out[o * 2 + 1] = max;
+  }
+  return out;
+}
+
+export function encodeWaveformPeaks(peaks: WaveformPeaks): WaveformPeaksFile {
+  return {
+    v: 1,
+    sampleRate: peaks.sampleRate,
+    durationSeconds: peaks.durationSeconds,
+    levels: peaks.levels.map((l) => ({ samplesPerPeak: l.samplesPerPeak, data: toBase64(l.peaks) }))
+  };
+}
+
+export function decodeWaveformPeaks(raw: unknown): WaveformPeaks | null {
+  const file = raw as WaveformPeaksFile | null;
+  if (!file || file.v !== 1 || !(file.sampleRate > 0) || !Array.isArray(file.levels)) return null;
+  const levels: PeakLevel[] = [];
+  for (const l of file.levels) {
+    if (!(l?.samplesPerPeak > 0) || typeof l.data !== "string") return null;
+    levels.push({ samplesPerPeak: l.samplesPerPeak, peaks: fromBase64(l.data) });
+  }
+  if (!levels.length) return null;
+  levels.sort((a, b) => a.samplesPerPeak - b.samplesPerPeak);
+  return { sampleRate: file.sampleRate, durationSeconds: Number(file.durationSeconds) || 0, levels };
+}
+
+// The coarsest level that still has at least one peak per pixel at `secondsPerPx`.
+export function pickPeakLevel(peaks: WaveformPeaks, secondsPerPx: number): PeakLevel {
+  const samplesPerPx = secondsPerPx * peaks.sampleRate;
+  let best = peaks.levels[0];
+  for (const level of peaks.levels) {
+    if (level.samplesPerPeak <= samplesPerPx) best = level;
+  }
+  return best;
+}
+
+// [min, max] in -1..1 over the source time range t0..t1 (seconds); [0, 0] outside the audio.
+export function peakRange(level: PeakLevel, sampleRate: number, t0: number, t1: number): [number, number] {
+  const pairs = level.peaks.length / 2;
+  const from = Math.max(0, Math.floor((t0 * sampleRate) / level.samplesPerPeak));
+  const to = Math.min(pairs, Math.max(from + 1, Math.ceil((t1 * sampleRate) / level.samplesPerPeak)));
+  if (from >= pairs) return [0, 0];
+  let min = 127;
+  let max = -127;
+  for (let i = from; i < to; i++) {
+    min = Math.min(min, level.peaks[i * 2]);
+    max = Math.max(max, level.peaks[i * 2 + 1]);
+  }
+  return [min / 127, max / 127];
+}
+
+function toBase64(bytes: Int8Array) {
+  const u8 = new Uint8Array(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let bin = "";
+  for (let i = 0; i < u8.length; i += 0x8000) bin += String.fromCharCode(...u8.subarray(i, i + 0x8000));
+  return btoa(bin);
+}
+
+function fromBase64(data: string) {
+  const bin = atob(data);
+  const out = new Int8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = (bin.charCodeAt(i) << 24) >> 24;
+  return out;
+}
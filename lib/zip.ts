@@ -0,0 +1,148 @@
+import { inflateRawSync } from "node:zlib";
+
+// Server-only: minimal .zip writer/reader for project bundles (see /api/bundle).
+// Writes uncompressed ("stored") entries, since media is already compressed. Reads stored and deflated entries,
+// so bundles re-zipped by the OS still import. No ZIP64: archives and entries must stay under 4 GB.
+
+export type ZipEntry = { name: string; data: Buffer };
+
+const MAX_32 = 0xffffffff;
+
+export function createZip(entries: ZipEntry[]): Buffer {
+  const parts: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+  const { time, date } = dosDateTime(new Date());
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8");
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+    if (size > MAX_32 || offset > MAX_32) throw new Error("Bundle is too large (4 GB max)");
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(0, 8); // stored
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(size, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+    parts.push(local, name, entry.data);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(20, 4); // version made by
+    header.writeUInt16LE(20, 6);
+    header.writeUInt16LE(0x0800, 8);
+    header.writeUInt16LE(0, 10);
+    header.writeUInt16LE(time, 12);
+    header.writeUInt16LE(date, 14);
+    header.writeUInt32LE(crc, 16);
+    header.writeUInt32LE(size, 20);
+    header.writeUInt32LE(size, 24);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt32LE(offset, 42);
+    central.push(header, name);
+
+    offset += local.length + name.length + size;
+  }
+
+  const centralSize = central.reduce((sum, b) => sum + b.length, 0);
+  if (offset > MAX_32) throw new Error("Bundle is too large (4 GB max)");
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...parts, ...central, end]);
+}
+
+// Returns file entries by name (directories are skipped). Throws on anything that isn't a readable zip, or once
+// the entries add up to more than `maxBytes` unpacked (so a small deflated file can't blow up in memory).
+export function readZip(buf: Buffer, maxBytes = MAX_32): Map<string, Buffer> {
+  const endAt = findEndOfCentralDirectory(buf);
+  if (endAt === -1) throw new Error("Not a zip file");
+  const count = buf.readUInt16LE(endAt + 10);
+  let p = buf.readUInt32LE(endAt + 16);
+
+  const out = new Map<string, Buffer>();
+  let total = 0;
+  const tooLarge = () => new Error(`Bundle is too large (${formatBytes(maxBytes)} max unpacked)`);
+  for (let i = 0; i < count; i++) {
+    if (p + 46 > buf.length || buf.readUInt32LE(p) !== 0x02014b50) throw new Error("Corrupt zip directory");
+    const method = buf.readUInt16LE(p + 10);
+    const crc = buf.readUInt32LE(p + 16);
+    const compressedSize = buf.readUInt32LE(p + 20);
+    const size = buf.readUInt32LE(p + 24);
+    const nameLength = buf.readUInt16LE(p + 28);
+    const extraLength = buf.readUInt16LE(p + 30);
+    const commentLength = buf.readUInt16LE(p + 32);
+    const localAt = buf.readUInt32LE(p + 42);
+    const name = buf.subarray(p + 46, p + 46 + nameLength).toString("utf8");
+    p += 46 + nameLength + extraLength + commentLength;
+    if (name.endsWith("/")) continue;
+    if (size > maxBytes - total) throw tooLarge();
+
+    if (localAt + 30 > buf.length || buf.readUInt32LE(localAt) !== 0x04034b50) throw new Error(`Corrupt zip entry: ${name}`);
+    const dataAt = localAt + 30 + buf.readUInt16LE(localAt + 26) + buf.readUInt16LE(localAt + 28);
+    const raw = buf.subarray(dataAt, dataAt + compressedSize);
+    let data: Buffer;
+    if (method === 0) data = raw;
+    else if (method === 8) {
+      // The header's size can lie; cap the inflated output too.
+      try {
+        data = inflateRawSync(raw, { maxOutputLength: Math.max(1, maxBytes - total) });
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException)?.code === "ERR_BUFFER_TOO_LARGE") throw tooLarge();
+        throw err;
+      }
+    } else throw new Error(`Unsupported compression in zip entry: ${name}`);
+    total += data.length;
+    if (total > maxBytes) throw tooLarge();
+    if (crc32(data) !== crc) throw new Error(`Checksum mismatch in zip entry: ${name}`);
+    out.set(name, data);
+  }
+  return out;
+}
+
+function formatBytes(n: number) {
+  return n >= 1024 ** 3 ? `${(n / 1024 ** 3).toFixed(1)} GB` : `${Math.round(n / 1024 ** 2)} MB`;
+}
+
+function findEndOfCentralDirectory(buf: Buffer) {
+  // The record is 22 bytes plus an optional comment of up to 64 KB.
+  const stop = Math.max(0, buf.length - 22 - 0xffff);
+  for (let i = buf.length - 22; i >= stop; i--) {
+    if (buf.readUInt32LE(i) === 0x06054b50) return i;
+  }
+  return -1;
+}
+
+let crcTable: Uint32Array | null = null;
+
+export function crc32(data: Buffer) {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(d: Date) {
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+    date: ((Math.max(1980, d.getFullYear()) - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate()
+  };
+}